@@ -6,7 +6,7 @@
 */
 
 const package = require('./package.json');
-const { writeFileSync, copyFileSync } = require('fs');
+const { writeFileSync, copyFileSync, chmodSync } = require('fs');
 const replaceInFiles = require('replace-in-files');
 const web3xPackage = require('web3x/package.json');
 
@@ -15,8 +15,11 @@ const { jest, scripts, devDependencies, ...pkg } = package;
 pkg.dependencies.web3x = `^${web3xPackage.version}`;
 writeFileSync('./dest/package.json', JSON.stringify(pkg, null, '  '));
 copyFileSync('README.md', './dest/README.md');
+chmodSync('./dest/disassembler/cli.js', '755');
 
 pkg.name += '-es';
+// The ES module build can't be run directly by node.
+delete pkg.bin;
 delete pkg.dependencies.web3x;
 pkg.dependencies['web3x-es'] = `^${web3xPackage.version}`;
 writeFileSync('./dest-es/package.json', JSON.stringify(pkg, null, '  '));
@@ -0,0 +1,33 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { BlockHeader } from './block-header';
+
+// The base fee of the first block with a fee market (1 gwei).
+export const INITIAL_BASE_FEE = BigInt(1000000000);
+const ELASTICITY_MULTIPLIER = BigInt(2);
+const BASE_FEE_MAX_CHANGE_DENOMINATOR = BigInt(8);
+
+/**
+ * Returns the base fee of the block following the given parent (EIP-1559). The base fee rises by up to 1/8 when the
+ * parent used more than its gas target, half the gas limit, and falls by up to 1/8 when it used less.
+ */
+export function calculateBaseFee(parent?: BlockHeader) {
+  if (!parent || parent.baseFeePerGas === undefined) {
+    return INITIAL_BASE_FEE;
+  }
+
+  const { baseFeePerGas, gasUsed, gasLimit } = parent;
+  const gasTarget = gasLimit / ELASTICITY_MULTIPLIER;
+
+  if (gasUsed > gasTarget) {
+    const delta = (baseFeePerGas * (gasUsed - gasTarget)) / gasTarget / BASE_FEE_MAX_CHANGE_DENOMINATOR;
+    return baseFeePerGas + (delta > BigInt(1) ? delta : BigInt(1));
+  } else {
+    return baseFeePerGas - (baseFeePerGas * (gasTarget - gasUsed)) / gasTarget / BASE_FEE_MAX_CHANGE_DENOMINATOR;
+  }
+}
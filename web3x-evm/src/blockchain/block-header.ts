@@ -5,9 +5,11 @@
   https://opensource.org/licenses/MIT
 */
 
+import { toBigIntBE, toBufferBE } from 'bigint-buffer';
 import BN from 'bn.js';
 import * as rlp from 'rlp';
 import { Address } from 'web3x/address';
+import { sha3Buffer } from 'web3x/utils';
 
 export interface BlockHeader {
   parentHash: Buffer;
@@ -25,35 +27,65 @@ export interface BlockHeader {
   extraData: Buffer;
   mixHash: Buffer;
   nonce: number;
+  // Present from the london hardfork (EIP-1559).
+  baseFeePerGas?: bigint;
 }
 
+// Hash of the RLP encoded empty list of uncles.
+export const EMPTY_UNCLES_HASH = sha3Buffer(rlp.encode([]));
+
+const toBigInt = (buf: Buffer) => (buf.length ? toBigIntBE(buf) : BigInt(0));
+const toNumber = (buf: Buffer) => Number(toBigInt(buf));
+
+/**
+ * Encodes the header as in the yellow paper. The block hash is the hash of this encoding.
+ */
 export function serializeBlockHeader(blockHeader: BlockHeader) {
   return rlp.encode([
     blockHeader.parentHash,
+    blockHeader.sha3Uncles,
+    blockHeader.miner.toBuffer(),
     blockHeader.stateRoot,
     blockHeader.transactionsRoot,
     blockHeader.receiptsRoot,
+    blockHeader.logsBloom,
+    new BN(blockHeader.difficulty.toString()),
     blockHeader.number,
+    new BN(blockHeader.gasLimit.toString()),
+    new BN(blockHeader.gasUsed.toString()),
+    blockHeader.timestamp,
+    blockHeader.extraData,
+    blockHeader.mixHash,
+    toBufferBE(BigInt(blockHeader.nonce), 8),
+    ...(blockHeader.baseFeePerGas !== undefined ? [new BN(blockHeader.baseFeePerGas.toString())] : []),
   ]);
 }
 
-export function deserializeBlockHeader(data: Buffer) {
+/**
+ * Decodes a header encoded by serializeBlockHeader. Headers stored by earlier versions held fewer fields, from which
+ * the block hash can't be recomputed, so such a db must be erased rather than read.
+ */
+export function deserializeBlockHeader(data: Buffer): BlockHeader {
   const bufs: Buffer[] = rlp.decode(data) as any;
+  if (!Array.isArray(bufs) || (bufs.length !== 15 && bufs.length !== 16)) {
+    throw new Error('Unsupported block header format. The db may have been created by an earlier version.');
+  }
   return {
     parentHash: bufs[0],
-    sha3Uncles: Buffer.of(),
-    miner: Address.ZERO,
-    stateRoot: bufs[1],
-    transactionsRoot: bufs[2],
-    receiptsRoot: bufs[3],
-    logsBloom: Buffer.of(),
-    difficulty: BigInt(0),
-    number: new BN(bufs[4]).toNumber(),
-    gasLimit: BigInt(0),
-    gasUsed: BigInt(0),
-    timestamp: new Date().getTime(),
-    extraData: Buffer.of(),
-    mixHash: Buffer.of(),
-    nonce: 0,
-  } as BlockHeader;
+    sha3Uncles: bufs[1],
+    miner: new Address(bufs[2]),
+    stateRoot: bufs[3],
+    transactionsRoot: bufs[4],
+    receiptsRoot: bufs[5],
+    logsBloom: bufs[6],
+    difficulty: toBigInt(bufs[7]),
+    number: toNumber(bufs[8]),
+    gasLimit: toBigInt(bufs[9]),
+    gasUsed: toBigInt(bufs[10]),
+    timestamp: toNumber(bufs[11]),
+    extraData: bufs[12],
+    mixHash: bufs[13],
+    nonce: toNumber(bufs[14]),
+    ...(bufs.length > 15 ? { baseFeePerGas: toBigInt(bufs[15]) } : {}),
+  };
 }
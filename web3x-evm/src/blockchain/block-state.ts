@@ -7,10 +7,10 @@
 
 import * as rlp from 'rlp';
 import { Address } from 'web3x/address';
-import { sha3Buffer } from 'web3x/utils';
+import { combineBlooms, sha3Buffer } from 'web3x/utils';
 import { Trie } from '../trie';
 import { deserializeTx, serializeTx, Tx } from '../tx';
-import { BlockHeader, deserializeBlockHeader, serializeBlockHeader } from './block-header';
+import { BlockHeader, deserializeBlockHeader, EMPTY_UNCLES_HASH, serializeBlockHeader } from './block-header';
 import { EvaluatedTx } from './evaluate-txs';
 
 export interface BlockState {
@@ -21,7 +21,28 @@ export interface BlockState {
   blockHash: Buffer;
 }
 
-export function createBlockState(
+/**
+ * Returns the header fields that summarise the block's transactions and their receipts.
+ */
+export async function getTxsSummary(evaluatedTxs: EvaluatedTx[]) {
+  const receiptTrie = new Trie();
+  const txTrie = new Trie();
+  for (const [i, { serializedReceipt, serializedTx }] of evaluatedTxs.entries()) {
+    await receiptTrie.put(sha3Buffer(i.toString()), serializedReceipt);
+    await txTrie.put(sha3Buffer(i.toString()), serializedTx);
+  }
+
+  const lastReceipt = evaluatedTxs.length ? evaluatedTxs[evaluatedTxs.length - 1].receipt : undefined;
+
+  return {
+    transactionsRoot: txTrie.root,
+    receiptsRoot: receiptTrie.root,
+    logsBloom: combineBlooms(evaluatedTxs.map(({ receipt }) => receipt.logsBloomFilter)),
+    gasUsed: lastReceipt ? lastReceipt.cumulativeGasUsed : BigInt(0),
+  };
+}
+
+export async function createBlockState(
   stateRoot: Buffer,
   parentHash: Buffer,
   blockNumber: number,
@@ -30,31 +51,24 @@ export function createBlockState(
   difficulty: bigint,
   blockGasLimit: bigint,
   evaluatedTxs: EvaluatedTx[],
-): BlockState {
+  baseFeePerGas?: bigint,
+): Promise<BlockState> {
   const txs = evaluatedTxs.map(etx => etx.tx);
 
-  const receiptTrie = new Trie();
-  evaluatedTxs.forEach(({ serializedReceipt }, i) => receiptTrie.put(sha3Buffer(i.toString()), serializedReceipt));
-
-  const txTrie = new Trie();
-  evaluatedTxs.forEach(({ serializedTx }, i) => txTrie.put(sha3Buffer(i.toString()), serializedTx));
-
   const blockHeader: BlockHeader = {
     parentHash,
-    sha3Uncles: Buffer.of(),
+    sha3Uncles: EMPTY_UNCLES_HASH,
     miner: coinbase,
     stateRoot,
-    transactionsRoot: txTrie.root,
-    receiptsRoot: receiptTrie.root,
-    logsBloom: Buffer.of(),
+    ...(await getTxsSummary(evaluatedTxs)),
     difficulty,
     number: blockNumber,
     gasLimit: blockGasLimit,
-    gasUsed: BigInt(0),
     timestamp,
     extraData: Buffer.of(),
-    mixHash: Buffer.of(),
+    mixHash: Buffer.alloc(32),
     nonce: 0,
+    ...(baseFeePerGas !== undefined ? { baseFeePerGas } : {}),
   };
 
   const serializedHeader = serializeBlockHeader(blockHeader);
@@ -82,6 +96,7 @@ export function deserializeBlockState(data: Buffer) {
     transactions: txBufs.map(deserializeTx),
     uncles: [],
     serializedHeader,
-    blockHash: bufs[2],
+    // The hash is derived from the header rather than trusted from the sender.
+    blockHash: sha3Buffer(serializedHeader),
   } as BlockState;
 }
@@ -9,12 +9,15 @@ import { EventEmitter } from 'events';
 import { LevelUp } from 'levelup';
 import * as rlp from 'rlp';
 import { Address } from 'web3x/address';
-import { bufferToHex, sha3Buffer } from 'web3x/utils';
+import { bufferToHex, sha3Buffer, testAddress, testTopic } from 'web3x/utils';
 import { Trie } from '../trie';
 import { Log } from '../tx';
 import { deserializeTx } from '../tx/tx';
 import { deserializeTxReceipt } from '../tx/tx-receipt';
-import { BlockHeader, deserializeBlockHeader, serializeBlockHeader } from './block-header';
+import { GAS_SCHEDULES } from '../vm/gas';
+import { DEFAULT_HARDFORK, Hardfork } from '../vm/hardfork';
+import { calculateBaseFee } from './base-fee';
+import { BlockHeader, deserializeBlockHeader } from './block-header';
 import { BlockState } from './block-state';
 import { EvaluatedTx } from './evaluate-txs';
 
@@ -25,6 +28,16 @@ export interface BlockchainContext {
   timestamp: number;
   difficulty: bigint;
   blockGasLimit: bigint;
+  chainId: number;
+  hardfork: Hardfork;
+  // Present from the london hardfork.
+  baseFee?: bigint;
+}
+
+// The adjustments made to the time at which blocks are timestamped.
+export interface BlockchainClock {
+  timeOffset: number;
+  nextBlockTimestamp?: number;
 }
 
 export type GetLogsResult = {
@@ -35,6 +48,18 @@ export type GetLogsResult = {
   log: Log;
 }[];
 
+// The upstream chain a forked chain continues from.
+export interface UpstreamChain {
+  forkBlockNumber: number;
+  // Hashes of up to 256 blocks ending with the fork block, oldest first.
+  blockHashes: Buffer[];
+}
+
+export const BLOCK_GAS_LIMIT = BigInt(8000000);
+export const CHAIN_ID = 1;
+
+const blockTxsKey = (blockHash: Buffer) => Buffer.concat([Buffer.from('blockTxs'), blockHash]);
+
 const getChainTip = async (db: LevelUp) => {
   try {
     return (await db.get(Buffer.from('chainTip'))) as Buffer;
@@ -43,12 +68,37 @@ const getChainTip = async (db: LevelUp) => {
   }
 };
 
+/**
+ * The canonical chain of local blocks, and any side branches. The chain of a forked provider continues from the
+ * upstream fork block, so its first block is numbered after it. Earlier blocks aren't held locally, though the hashes
+ * of the most recent are, for BLOCKHASH.
+ */
 export class Blockchain extends EventEmitter {
-  constructor(public db: LevelUp, private blockHeaders: BlockHeader[], private blockHashes: Buffer[]) {
+  // Number of the first local block.
+  public readonly firstBlockNumber: number;
+  // Seconds added to the current time when timestamping blocks.
+  private timeOffset = 0;
+  private nextBlockTimestamp?: number;
+
+  constructor(
+    public db: LevelUp,
+    private blockHeaders: BlockHeader[],
+    private blockHashes: Buffer[],
+    public readonly hardfork: Hardfork = DEFAULT_HARDFORK,
+    public readonly chainId: number = CHAIN_ID,
+    private upstream: UpstreamChain = { forkBlockNumber: -1, blockHashes: [] },
+  ) {
     super();
+    this.firstBlockNumber = upstream.forkBlockNumber + 1;
   }
 
-  public static async fromDb(db: LevelUp) {
+  public static async fromDb(
+    db: LevelUp,
+    hardfork: Hardfork = DEFAULT_HARDFORK,
+    chainId: number = CHAIN_ID,
+    upstream?: UpstreamChain,
+  ) {
+    const firstBlockNumber = upstream ? upstream.forkBlockNumber + 1 : 0;
     let blockHash = await getChainTip(db);
     const blocks: BlockHeader[] = [];
     const blockHashes: Buffer[] = [];
@@ -57,48 +107,233 @@ export class Blockchain extends EventEmitter {
         const block = deserializeBlockHeader(await db.get(blockHash));
         blocks.unshift(block);
         blockHashes.unshift(blockHash);
-        if (block.parentHash.length === 0) {
+        if (block.number === firstBlockNumber) {
           break;
         }
         blockHash = block.parentHash;
       }
     }
-    return new Blockchain(db, blocks, blockHashes);
+    return new Blockchain(db, blocks, blockHashes, hardfork, chainId, upstream);
   }
 
   private getNextBlockNumber() {
-    return this.blockHeaders.length > 0 ? this.blockHeaders[this.blockHeaders.length - 1].number + 1 : 0;
+    return this.firstBlockNumber + this.blockHeaders.length;
+  }
+
+  private getNextBlockTimestamp() {
+    if (this.nextBlockTimestamp !== undefined) {
+      return this.nextBlockTimestamp;
+    }
+    const chainTip = this.getChaintip();
+    const timestamp = Math.floor(Date.now() / 1000) + this.timeOffset;
+    return chainTip ? Math.max(timestamp, chainTip.timestamp) : timestamp;
+  }
+
+  /**
+   * Moves time forward by the given number of seconds. Returns the total adjustment.
+   */
+  public increaseTime(seconds: number) {
+    this.timeOffset += seconds;
+    return this.timeOffset;
+  }
+
+  /**
+   * Sets the timestamp of the next block. Later blocks are timestamped relative to it.
+   */
+  public setNextBlockTimestamp(timestamp: number) {
+    const chainTip = this.getChaintip();
+    if (chainTip && timestamp < chainTip.timestamp) {
+      throw new Error(`Timestamp ${timestamp} is before the timestamp of the latest block ${chainTip.timestamp}.`);
+    }
+    this.nextBlockTimestamp = timestamp;
+  }
+
+  public getClock(): BlockchainClock {
+    return { timeOffset: this.timeOffset, nextBlockTimestamp: this.nextBlockTimestamp };
+  }
+
+  /**
+   * Restores adjustments to time previously returned by getClock.
+   */
+  public setClock({ timeOffset, nextBlockTimestamp }: BlockchainClock) {
+    this.timeOffset = timeOffset;
+    this.nextBlockTimestamp = nextBlockTimestamp;
   }
 
   public getContext(): BlockchainContext {
     return {
       coinbase: Address.ZERO,
-      blockGasLimit: BigInt(0),
-      timestamp: new Date().getTime(),
+      blockGasLimit: BLOCK_GAS_LIMIT,
+      timestamp: this.getNextBlockTimestamp(),
       blockNumber: this.getNextBlockNumber(),
-      last256BlockHashes: this.blockHashes.slice(-256),
+      last256BlockHashes: this.getCanonicalHashes(this.getNextBlockNumber(), 256),
       difficulty: BigInt(0),
+      chainId: this.chainId,
+      hardfork: this.hardfork,
+      baseFee: GAS_SCHEDULES[this.hardfork].feeMarket ? calculateBaseFee(this.getChaintip()) : undefined,
     };
   }
 
+  /**
+   * The context in which the transactions of an already mined block were executed.
+   */
+  public getBlockContext(blockNumber: number): BlockchainContext {
+    const { miner, gasLimit, timestamp, difficulty, baseFeePerGas } = this.getBlock(blockNumber)!.header;
+    return {
+      coinbase: miner,
+      blockGasLimit: gasLimit || BLOCK_GAS_LIMIT,
+      timestamp,
+      blockNumber,
+      last256BlockHashes: this.getCanonicalHashes(blockNumber, 256),
+      difficulty,
+      chainId: this.chainId,
+      hardfork: this.hardfork,
+      baseFee: baseFeePerGas,
+    };
+  }
+
+  /**
+   * The context in which the transactions of the given block are executed. Unlike getBlockContext, the block needn't
+   * be on the canonical chain, as its ancestors' hashes are found by walking back along its own branch.
+   */
+  public async getBranchContext(header: BlockHeader): Promise<BlockchainContext> {
+    const { miner, gasLimit, timestamp, difficulty, number: blockNumber, parentHash, baseFeePerGas } = header;
+    return {
+      coinbase: miner,
+      blockGasLimit: gasLimit || BLOCK_GAS_LIMIT,
+      timestamp,
+      blockNumber,
+      last256BlockHashes: await this.getAncestorHashes(parentHash, blockNumber - 1, 256),
+      difficulty,
+      chainId: this.chainId,
+      hardfork: this.hardfork,
+      baseFee: baseFeePerGas,
+    };
+  }
+
+  /**
+   * Returns the hashes of the given block and up to count - 1 of its ancestors, oldest first. Once the walk back
+   * reaches the canonical chain, or the upstream blocks before the first local block, the remaining hashes are taken
+   * from it.
+   */
+  private async getAncestorHashes(blockHash: Buffer, blockNumber: number, count: number) {
+    const hashes: Buffer[] = [];
+    while (hashes.length < count && blockNumber >= 0) {
+      if (blockNumber < this.firstBlockNumber || this.isCanonical(blockHash, blockNumber)) {
+        return [...this.getCanonicalHashes(blockNumber + 1, count - hashes.length), ...hashes];
+      }
+      hashes.unshift(blockHash);
+      blockHash = (await this.getKnownHeader(blockHash)).parentHash;
+      blockNumber--;
+    }
+    return hashes;
+  }
+
+  /**
+   * Returns the hashes of up to count canonical blocks before the given block number, oldest first. Those before the
+   * first local block are the upstream blocks' hashes.
+   */
+  private getCanonicalHashes(blockNumber: number, count: number) {
+    // Indices into the upstream hashes followed by the local hashes.
+    const upstreamCount = this.upstream.blockHashes.length;
+    const end = blockNumber - this.firstBlockNumber + upstreamCount;
+    const start = Math.max(0, end - count);
+    return [
+      ...this.upstream.blockHashes.slice(Math.min(start, upstreamCount), Math.max(0, Math.min(end, upstreamCount))),
+      ...this.blockHashes.slice(Math.max(0, start - upstreamCount), Math.max(0, end - upstreamCount)),
+    ];
+  }
+
+  private isCanonical(blockHash: Buffer, blockNumber: number) {
+    const canonicalHash = this.blockHashes[blockNumber - this.firstBlockNumber];
+    return !!canonicalHash && canonicalHash.equals(blockHash);
+  }
+
+  /**
+   * Adds the block to the chain. A block extending the chain tip becomes the new tip. Any other block is kept on a
+   * side branch, which becomes the canonical chain if it's now longer (longest chain fork choice).
+   */
   public async addBlock(blockState: BlockState, evaluatedTxs: EvaluatedTx[]) {
     const { header, blockHash } = blockState;
+    const chainTip = this.getChaintip();
 
     await this.addBlockToDb(blockState, evaluatedTxs);
 
+    if (chainTip ? header.parentHash.equals(this.getChaintipHash()) : header.number === this.firstBlockNumber) {
+      await this.appendBlock(header, blockHash);
+      await this.saveChainTip();
+    } else if (header.number > this.getBlockCount() - 1) {
+      await this.setHead(blockHash);
+    }
+  }
+
+  /**
+   * Makes the given known block the chain tip (explicit fork choice). Blocks after its common ancestor with the
+   * canonical chain are removed, and their logs are emitted again marked as removed. The blocks of the new branch are
+   * then added in order, emitting their heads and logs. Setting the head to a canonical block rewinds the chain to it.
+   */
+  public async setHead(blockHash: Buffer) {
+    const branch: { header: BlockHeader; blockHash: Buffer }[] = [];
+    let commonAncestorNumber = this.firstBlockNumber - 1;
+    for (let hash = blockHash; ; ) {
+      const header = await this.getKnownHeader(hash);
+      if (this.isCanonical(hash, header.number)) {
+        commonAncestorNumber = header.number;
+        break;
+      }
+      branch.unshift({ header, blockHash: hash });
+      if (header.number === this.firstBlockNumber) {
+        break;
+      }
+      hash = header.parentHash;
+    }
+
+    await this.removeBlocks(commonAncestorNumber + 1);
+
+    for (const { header, blockHash: branchBlockHash } of branch) {
+      await this.appendBlock(header, branchBlockHash);
+    }
+
+    await this.saveChainTip();
+  }
+
+  /**
+   * Appends the stored block to the canonical chain, making its transactions available for lookup.
+   */
+  private async appendBlock(header: BlockHeader, blockHash: Buffer) {
     this.blockHeaders.push(header);
     this.blockHashes.push(blockHash);
 
+    // Add lookup for transactions. txHash => [blockHash, txIndex, from, preStateRoot].
+    const blockTxs: Buffer[][] = rlp.decode(await this.db.get(blockTxsKey(blockHash))) as any;
+    await Promise.all(
+      blockTxs.map(([txHash, sender, preStateRoot], i) =>
+        this.db.put(txHash, rlp.encode([blockHash, Buffer.from(i.toString()), sender, preStateRoot])),
+      ),
+    );
+
+    if (this.nextBlockTimestamp !== undefined) {
+      this.timeOffset = header.timestamp - Math.floor(Date.now() / 1000);
+      this.nextBlockTimestamp = undefined;
+    }
+
     this.emit('newHeads', header, blockHash);
+    await this.emitLogs(header, blockHash, false);
+  }
+
+  private async emitLogs(header: BlockHeader, blockHash: Buffer, removed: boolean) {
+    const txs = await this.getBlockTransactions(header);
+    const receipts = await this.getBlockReceipts(header);
 
-    evaluatedTxs.forEach(({ receipt, txHash }, transactionIndex) => {
+    receipts.forEach(({ logs }, transactionIndex) => {
       const result = {
+        removed,
         blockHash: bufferToHex(blockHash),
         blockNumber: header.number,
         transactionIndex,
-        transactionHash: bufferToHex(txHash),
+        transactionHash: bufferToHex(sha3Buffer(txs[transactionIndex])),
       };
-      receipt.logs.forEach(({ data, address, topics }, logIndex) => {
+      logs.forEach(({ data, address, topics }, logIndex) => {
         const msg = {
           ...result,
           logIndex,
@@ -111,45 +346,84 @@ export class Blockchain extends EventEmitter {
     });
   }
 
+  /**
+   * Stores the block by its hash, whether or not it's on the canonical chain.
+   */
   private async addBlockToDb(blockState: BlockState, evaluatedTxs: EvaluatedTx[]) {
     const { blockHash, serializedHeader } = blockState;
 
     // If we are using the same underlying db, the block will already have been added. Check first.
-    const chainTip = await getChainTip(this.db);
-    if (chainTip && chainTip.equals(blockHash)) {
+    if (await this.getHeader(blockHash)) {
       return;
     }
 
-    await this.db.put(blockHash, serializedHeader);
-
-    // Record new chaintip.
-    await this.db.put(Buffer.from('chainTip'), blockHash);
-
     const txTrie = new Trie(this.db);
     const receiptTrie = new Trie(this.db);
 
     await Promise.all(
-      evaluatedTxs.map(async ({ txHash, sender, serializedTx, serializedReceipt }, i) => {
+      evaluatedTxs.map(async ({ serializedTx, serializedReceipt }, i) => {
         await receiptTrie.put(sha3Buffer(i.toString()), serializedReceipt);
         await txTrie.put(sha3Buffer(i.toString()), serializedTx);
-
-        // Add lookup for transactions. txHash => [blockHash, txIndex, from].
-        await this.db.put(txHash, rlp.encode([blockHash, Buffer.from(i.toString()), sender.toBuffer()]));
       }),
     );
+
+    // Transaction lookups are only added while the block is canonical, so record what's needed to create them.
+    await this.db.put(
+      blockTxsKey(blockHash),
+      rlp.encode(evaluatedTxs.map(({ txHash, sender, preStateRoot }) => [txHash, sender.toBuffer(), preStateRoot])),
+    );
+
+    await this.db.put(blockHash, serializedHeader);
+  }
+
+  private async saveChainTip() {
+    if (this.blockHashes.length) {
+      await this.db.put(Buffer.from('chainTip'), this.getChaintipHash());
+    } else {
+      await this.db.del(Buffer.from('chainTip'));
+    }
+  }
+
+  /**
+   * Returns the header of the block with the given hash, whether or not it's on the canonical chain.
+   */
+  public async getHeader(blockHash: Buffer): Promise<BlockHeader | undefined> {
+    const serializedHeader = await this.db.get(blockHash).catch(() => null);
+    return serializedHeader ? deserializeBlockHeader(serializedHeader) : undefined;
+  }
+
+  private async getKnownHeader(blockHash: Buffer) {
+    const header = await this.getHeader(blockHash);
+    if (!header) {
+      throw new Error(`Unknown block ${bufferToHex(blockHash)}.`);
+    }
+    return header;
+  }
+
+  /**
+   * Returns the stored block with the given hash, whether or not it's on the canonical chain.
+   */
+  public async getBlockState(blockHash: Buffer): Promise<BlockState | undefined> {
+    const serializedHeader = await this.db.get(blockHash).catch(() => null);
+    if (!serializedHeader) {
+      return;
+    }
+    const header = deserializeBlockHeader(serializedHeader);
+    const transactions = (await this.getBlockTransactions(header)).map(deserializeTx);
+    return { header, uncles: [], transactions, serializedHeader, blockHash };
   }
 
   public async getMinedTransaction(txHash: Buffer) {
-    const rlpEntry = await this.db.get(txHash);
+    const rlpEntry = await this.db.get(txHash).catch(() => null);
     if (!rlpEntry) {
       return;
     }
     const lookup: Buffer[] = rlp.decode(rlpEntry) as any;
-    const [blockHash, txIndex, from] = lookup;
+    const [blockHash, txIndex, from, preStateRoot] = lookup;
     const blockHeader = deserializeBlockHeader(await this.db.get(blockHash));
     const txTrie = new Trie(this.db, blockHeader.transactionsRoot);
     const tx = deserializeTx(await txTrie.get(sha3Buffer(txIndex)));
-    return { blockHash, blockHeader, tx, txIndex: +txIndex.toString(), from: new Address(from) };
+    return { blockHash, blockHeader, tx, txIndex: +txIndex.toString(), from: new Address(from), preStateRoot };
   }
 
   public async getTransactionReceipt(txHash: Buffer) {
@@ -177,28 +451,29 @@ export class Blockchain extends EventEmitter {
   public async getLogs(addresses: Address[], topics: (Buffer[] | null)[], fromBlock: number, toBlock: number) {
     if (
       fromBlock < 0 ||
-      fromBlock > this.blockHeaders.length - 1 ||
+      fromBlock > this.getBlockCount() - 1 ||
       toBlock < 0 ||
-      toBlock > this.blockHeaders.length - 1 ||
+      toBlock > this.getBlockCount() - 1 ||
       toBlock < fromBlock
     ) {
       throw new Error('Bad fromBlock toBlock range.');
     }
-    const blocks = this.blockHeaders.slice(fromBlock, toBlock + 1);
-    // TODO: Filter for blocks with appropriate logsBloom.
-
     const logs: GetLogsResult = [];
 
-    for (const block of blocks) {
-      const blockHash = sha3Buffer(serializeBlockHeader(block));
+    // Blocks and receipts are skipped by their blooms. Those of blocks from peers can be trusted, as validateBlock
+    // recomputes the header's bloom and receipts root from the block's executed transactions. Logs of upstream blocks
+    // before a fork aren't returned.
+    for (let blockNumber = Math.max(fromBlock, this.firstBlockNumber); blockNumber <= toBlock; blockNumber++) {
+      const { header: block, blockHash } = this.getBlock(blockNumber)!;
+      if (!bloomMatches(block.logsBloom, addresses, topics)) {
+        continue;
+      }
       const receiptTrie = new Trie(this.db, block.receiptsRoot);
       const receipts = (await this.indexKeyedTrieToArray(receiptTrie)).map(deserializeTxReceipt);
       for (const [transactionIndex, receipt] of receipts.entries()) {
-        /* TODO: Skip receipts that don't match filter.
-        if (receipt.logsBloomFilter != topics) {
+        if (!bloomMatches(receipt.logsBloomFilter, addresses, topics)) {
           continue;
         }
-        */
         const txTrie = new Trie(this.db, block.transactionsRoot);
         const txData = await txTrie.get(sha3Buffer(transactionIndex.toString()));
         const transactionHash = sha3Buffer(txData);
@@ -218,6 +493,76 @@ export class Blockchain extends EventEmitter {
   public getChaintip() {
     return this.blockHeaders[this.blockHeaders.length - 1];
   }
+
+  private getChaintipHash() {
+    return this.blockHashes[this.blockHashes.length - 1];
+  }
+
+  /**
+   * Returns the number of blocks in the chain, including the upstream blocks before a fork.
+   */
+  public getBlockCount() {
+    return this.firstBlockNumber + this.blockHeaders.length;
+  }
+
+  /**
+   * Returns the local canonical block with the given number. Upstream blocks before a fork aren't held locally.
+   */
+  public getBlock(blockNumber: number): { header: BlockHeader; blockHash: Buffer } | undefined {
+    const index = blockNumber - this.firstBlockNumber;
+    const header = index >= 0 ? this.blockHeaders[index] : undefined;
+    return header ? { header, blockHash: this.blockHashes[index] } : undefined;
+  }
+
+  public getBlockNumber(blockHash: Buffer) {
+    const index = this.blockHashes.findIndex(hash => hash.equals(blockHash));
+    return index < 0 ? undefined : this.firstBlockNumber + index;
+  }
+
+  /**
+   * Returns the serialized transactions of the block, in order.
+   */
+  public async getBlockTransactions(header: BlockHeader) {
+    return await this.indexKeyedTrieToArray(new Trie(this.db, header.transactionsRoot));
+  }
+
+  public async getBlockReceipts(header: BlockHeader) {
+    return (await this.indexKeyedTrieToArray(new Trie(this.db, header.receiptsRoot))).map(deserializeTxReceipt);
+  }
+
+  /**
+   * Removes all blocks after the first blockCount blocks. The transactions in the removed blocks can no longer be
+   * looked up, and their logs are emitted again marked as removed.
+   */
+  public async truncate(blockCount: number) {
+    await this.removeBlocks(blockCount);
+    await this.saveChainTip();
+  }
+
+  private async removeBlocks(blockCount: number) {
+    const removedHeaders = this.blockHeaders.splice(Math.max(0, blockCount - this.firstBlockNumber));
+    const removedHashes = this.blockHashes.splice(Math.max(0, blockCount - this.firstBlockNumber));
+    for (const [i, header] of removedHeaders.entries()) {
+      await this.deleteTxLookups(header);
+      await this.emitLogs(header, removedHashes[i], true);
+    }
+  }
+
+  private async deleteTxLookups(header: BlockHeader) {
+    const txs = await this.getBlockTransactions(header);
+    await Promise.all(txs.map(tx => this.db.del(sha3Buffer(tx))));
+  }
+}
+
+/**
+ * Returns false if the bloom shows that no log could match the filter. False positives are possible.
+ */
+function bloomMatches(bloom: Buffer, addresses: Address[], topics: (Buffer[] | null)[]) {
+  const bloomHex = bufferToHex(bloom);
+  return (
+    (!addresses.length || addresses.some(address => testAddress(bloomHex, address.toString()))) &&
+    topics.every(topic => topic === null || topic.some(topicMatcher => testTopic(bloomHex, bufferToHex(topicMatcher))))
+  );
 }
 
 function topicsMatch(logTopics: Buffer[], topics: (Buffer[] | null)[]) {
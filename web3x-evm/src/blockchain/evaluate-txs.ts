@@ -6,7 +6,8 @@
 */
 
 import { Address } from 'web3x/address';
-import { sha3Buffer } from 'web3x/utils';
+import { createBloom, sha3Buffer } from 'web3x/utils';
+import { Tracer } from '../tracer';
 import { recoverTransactionSender, serializeTx, serializeTxReceipt, Tx, TxReceipt } from '../tx';
 import { executeTransaction, ExTxContext, ExTxResult } from '../vm';
 import { WorldState } from '../world';
@@ -20,54 +21,74 @@ export interface EvaluatedTx {
   serializedReceipt: Buffer;
   sender: Address;
   result: ExTxResult;
+  // State root before the transaction was executed, from which it can be replayed.
+  preStateRoot: Buffer;
 }
 
-// If all tx's are from a known sender, you can provide the optional sender to save expensive recovery.
+// If the senders of the tx's are known, you can provide them to save expensive recovery.
 export async function evaluateTxs(
   worldState: WorldState,
   blockchainContext: BlockchainContext,
   txs: Tx[],
-  sender?: Address,
+  senders?: Address[],
+  tracer?: Tracer,
 ) {
   let cumulativeGasUsed = BigInt(0);
   const evaluatedTxs: EvaluatedTx[] = [];
 
-  for (const tx of txs) {
-    const serializedTx = serializeTx(tx);
-    const txHash = sha3Buffer(serializedTx);
-    sender = sender || recoverTransactionSender(tx);
-
-    const exTxContext: ExTxContext = {
-      worldState,
-      blockchainContext,
-      sender,
-    };
-
-    const result = await executeTransaction(exTxContext, tx);
+  for (const [i, tx] of txs.entries()) {
+    const sender = senders ? senders[i] : recoverTransactionSender(tx);
+    const evaluatedTx = await evaluateTx(worldState, blockchainContext, tx, sender, cumulativeGasUsed, tracer);
+    cumulativeGasUsed = evaluatedTx.receipt.cumulativeGasUsed;
+    evaluatedTxs.push(evaluatedTx);
+  }
 
-    cumulativeGasUsed += tx.gasLimit - result.remainingGas;
+  return evaluatedTxs;
+}
 
-    const receipt: TxReceipt = {
-      cumulativeGasUsed,
-      logs: result.txSubstrate ? result.txSubstrate.logs : [],
-      logsBloomFilter: Buffer.of(),
-      status: !result.reverted,
-    };
+/**
+ * Executes the transaction, following those in the block that have used cumulativeGasUsed. Throws if the transaction
+ * is invalid, before making any changes to the world state.
+ */
+export async function evaluateTx(
+  worldState: WorldState,
+  blockchainContext: BlockchainContext,
+  tx: Tx,
+  sender: Address,
+  cumulativeGasUsed: bigint,
+  tracer?: Tracer,
+): Promise<EvaluatedTx> {
+  const serializedTx = serializeTx(tx);
+  const txHash = sha3Buffer(serializedTx);
 
-    const serializedReceipt = serializeTxReceipt(receipt);
+  const exTxContext: ExTxContext = {
+    worldState,
+    blockchainContext,
+    sender,
+    tracer,
+  };
 
-    const evaluatedTx: EvaluatedTx = {
-      tx,
-      serializedTx,
-      receipt,
-      serializedReceipt,
-      sender,
-      txHash,
-      result,
-    };
+  const preStateRoot = worldState.getStateRoot();
+  const result = await executeTransaction(exTxContext, tx);
 
-    evaluatedTxs.push(evaluatedTx);
-  }
+  const logs = result.txSubstrate ? result.txSubstrate.logs : [];
+  const receipt: TxReceipt = {
+    cumulativeGasUsed: cumulativeGasUsed + tx.gasLimit - result.remainingGas,
+    logs,
+    logsBloomFilter: createBloom(
+      logs.reduce((values, { address, topics }) => [...values, address.toBuffer(), ...topics], [] as Buffer[]),
+    ),
+    status: !result.reverted,
+  };
 
-  return evaluatedTxs;
+  return {
+    tx,
+    serializedTx,
+    receipt,
+    serializedReceipt: serializeTxReceipt(receipt),
+    sender,
+    txHash,
+    result,
+    preStateRoot,
+  };
 }
@@ -5,6 +5,7 @@
   https://opensource.org/licenses/MIT
 */
 
+export * from './base-fee';
 export * from './blockchain';
 export * from './block-header';
 export * from './block-state';
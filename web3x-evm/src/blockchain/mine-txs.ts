@@ -6,22 +6,48 @@
 */
 
 import { Address } from 'web3x/address';
+import { Tracer } from '../tracer';
 import { Tx } from '../tx';
 import { WorldState } from '../world';
 import { createBlockState } from './block-state';
-import { Blockchain } from './blockchain';
-import { evaluateTxs } from './evaluate-txs';
+import { Blockchain, BlockchainContext } from './blockchain';
+import { EvaluatedTx, evaluateTxs } from './evaluate-txs';
 
-export async function mineTxs(worldState: WorldState, blockchain: Blockchain, txs: Tx[], sender: Address) {
+export async function mineTxs(
+  worldState: WorldState,
+  blockchain: Blockchain,
+  txs: Tx[],
+  senders?: Address[],
+  tracer?: Tracer,
+) {
   const blockchainContext = blockchain.getContext();
+  const evaluatedTxs = await evaluateTxs(worldState, blockchainContext, txs, senders, tracer);
+  return await mineEvaluatedTxs(worldState, blockchain, blockchainContext, evaluatedTxs);
+}
 
-  const evaluatedTxs = await evaluateTxs(worldState, blockchainContext, txs, sender);
-
-  const { coinbase, timestamp, difficulty, blockGasLimit, blockNumber, last256BlockHashes } = blockchainContext;
+/**
+ * Creates a block from transactions that have already been evaluated against the world state, and adds it to the
+ * chain.
+ */
+export async function mineEvaluatedTxs(
+  worldState: WorldState,
+  blockchain: Blockchain,
+  blockchainContext: BlockchainContext,
+  evaluatedTxs: EvaluatedTx[],
+) {
+  const {
+    coinbase,
+    timestamp,
+    difficulty,
+    blockGasLimit,
+    blockNumber,
+    last256BlockHashes,
+    baseFee,
+  } = blockchainContext;
   const stateRoot = await worldState.getStateRoot();
-  const parentHash = last256BlockHashes.length ? last256BlockHashes[last256BlockHashes.length - 1] : Buffer.of();
+  const parentHash = last256BlockHashes.length ? last256BlockHashes[last256BlockHashes.length - 1] : Buffer.alloc(32);
 
-  const blockState = createBlockState(
+  const blockState = await createBlockState(
     stateRoot,
     parentHash,
     blockNumber,
@@ -30,6 +56,7 @@ export async function mineTxs(worldState: WorldState, blockchain: Blockchain, tx
     difficulty,
     blockGasLimit,
     evaluatedTxs,
+    baseFee,
   );
 
   await blockchain.addBlock(blockState, evaluatedTxs);
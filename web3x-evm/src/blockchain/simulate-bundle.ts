@@ -0,0 +1,106 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { Address } from 'web3x/address';
+import { Log, recoverTransactionSender, Tx } from '../tx';
+import { getEffectiveGasPrice } from '../vm';
+import { WorldState } from '../world';
+import { BlockchainContext } from './blockchain';
+import { evaluateTx } from './evaluate-txs';
+
+export interface BundleTxResult {
+  txHash: Buffer;
+  sender: Address;
+  to?: Address;
+  success: boolean;
+  returned: Buffer;
+  error?: Error;
+  gasUsed: bigint;
+  // The price per gas paid, of which any base fee is burned rather than paid to the coinbase.
+  gasPrice: bigint;
+  logs: Log[];
+  // Increase in the coinbase balance due to the transaction, including its gas fees.
+  coinbasePayment: bigint;
+}
+
+export interface BundleResult {
+  results: BundleTxResult[];
+  totalGasUsed: bigint;
+  coinbasePayment: bigint;
+  // Change in the balance of each of the requested addresses over the whole bundle.
+  balanceDeltas: { [address: string]: bigint };
+}
+
+/**
+ * Executes the transactions in order, as if mined at the start of a block with the given context, and reports their
+ * outcomes. The world state is checkpointed and reverted, so nothing is committed. Throws if a transaction is invalid,
+ * such as when its nonce is wrong, as the bundle could not be mined.
+ */
+export async function simulateBundle(
+  worldState: WorldState,
+  blockchainContext: BlockchainContext,
+  txs: Tx[],
+  balanceAddresses: Address[] = [],
+): Promise<BundleResult> {
+  const { coinbase } = blockchainContext;
+  const getBalance = async (address: Address) => {
+    const account = await worldState.loadImmutableAccount(address);
+    return account ? account.balance : BigInt(0);
+  };
+
+  worldState.checkpoint();
+  try {
+    const initialBalances = await Promise.all(balanceAddresses.map(getBalance));
+    const initialCoinbaseBalance = await getBalance(coinbase);
+    const results: BundleTxResult[] = [];
+    let cumulativeGasUsed = BigInt(0);
+    let coinbaseBalance = initialCoinbaseBalance;
+
+    for (const tx of txs) {
+      const sender = recoverTransactionSender(tx);
+      const { txHash, receipt, result } = await evaluateTx(
+        worldState,
+        blockchainContext,
+        tx,
+        sender,
+        cumulativeGasUsed,
+      );
+      const newCoinbaseBalance = await getBalance(coinbase);
+
+      results.push({
+        txHash,
+        sender,
+        to: tx.to,
+        success: receipt.status,
+        returned: result.returned || Buffer.of(),
+        error: result.error,
+        gasUsed: receipt.cumulativeGasUsed - cumulativeGasUsed,
+        gasPrice: getEffectiveGasPrice(tx, blockchainContext.baseFee),
+        logs: receipt.logs,
+        coinbasePayment: newCoinbaseBalance - coinbaseBalance,
+      });
+
+      cumulativeGasUsed = receipt.cumulativeGasUsed;
+      coinbaseBalance = newCoinbaseBalance;
+    }
+
+    const finalBalances = await Promise.all(balanceAddresses.map(getBalance));
+    const balanceDeltas = balanceAddresses.reduce(
+      (deltas, address, i) => ({ ...deltas, [address.toString()]: finalBalances[i] - initialBalances[i] }),
+      {} as { [address: string]: bigint },
+    );
+
+    return {
+      results,
+      totalGasUsed: cumulativeGasUsed,
+      coinbasePayment: coinbaseBalance - initialCoinbaseBalance,
+      balanceDeltas,
+    };
+  } finally {
+    await worldState.revert();
+  }
+}
@@ -6,10 +6,14 @@
 */
 
 import { Address } from 'web3x/address';
-import { Tx, TxReceipt } from '../tx';
+import { sha3Buffer } from 'web3x/utils';
+import { isUnsignedTx, Tx, TxReceipt } from '../tx';
 import { ExTxResult } from '../vm';
+import { GAS_SCHEDULES } from '../vm/gas';
 import { WorldState } from '../world';
-import { BlockState } from './block-state';
+import { calculateBaseFee } from './base-fee';
+import { serializeBlockHeader } from './block-header';
+import { BlockState, getTxsSummary } from './block-state';
 import { Blockchain } from './blockchain';
 import { evaluateTxs } from './evaluate-txs';
 
@@ -21,23 +25,68 @@ export interface EvaluatedTx {
   result: ExTxResult;
 }
 
+/**
+ * Executes the block's transactions on its parent's state, and adds it to the chain if the header matches the result:
+ * its state root, the roots of its transactions and receipts, its logs bloom and its gas used. Its hash must be that
+ * of the header. The parent may be any known block, so the block can start or extend a side branch, onto which the
+ * chain is reorganised if the fork choice rule prefers it. The world state is only changed if the chain tip changes,
+ * in which case it's rewound to the new tip's state. An invalid block leaves both untouched.
+ */
 export async function validateBlock(worldState: WorldState, blockchain: Blockchain, blockState: BlockState) {
-  const {
-    transactions: txs,
-    header: { stateRoot },
-  } = blockState;
-  const blockchainContext = blockchain.getContext();
+  const { transactions: txs, header } = blockState;
+  const serializedHeader = serializeBlockHeader(header);
+  if (
+    !serializedHeader.equals(blockState.serializedHeader) ||
+    !sha3Buffer(serializedHeader).equals(blockState.blockHash)
+  ) {
+    throw new Error('Invalid block hash.');
+  }
+
+  const { firstBlockNumber } = blockchain;
+  const parent = header.number > firstBlockNumber ? await blockchain.getHeader(header.parentHash) : undefined;
+  if (header.number > firstBlockNumber ? !parent : blockchain.getBlockCount() > firstBlockNumber) {
+    throw new Error('Unknown parent block.');
+  }
+
+  if (txs.some(isUnsignedTx)) {
+    throw new Error('Block contains an unsigned transaction.');
+  }
+
+  const expectedBaseFee = GAS_SCHEDULES[blockchain.hardfork].feeMarket ? calculateBaseFee(parent) : undefined;
+  if (header.baseFeePerGas !== expectedBaseFee) {
+    throw new Error('Invalid base fee.');
+  }
 
-  const evaluatedTxs = await evaluateTxs(worldState, blockchainContext, txs);
+  const blockWorldState = worldState.detach(parent ? parent.stateRoot : worldState.getStateRoot());
+  const blockchainContext = await blockchain.getBranchContext(header);
 
-  const newStateRoot = worldState.getStateRoot();
+  const evaluatedTxs = await evaluateTxs(blockWorldState, blockchainContext, txs);
 
-  // TODO: Probably rollback on bad state.
-  if (!newStateRoot.equals(stateRoot)) {
+  if (!blockWorldState.getStateRoot().equals(header.stateRoot)) {
     throw new Error('Invalid state root.');
   }
 
+  const { transactionsRoot, receiptsRoot, logsBloom, gasUsed } = await getTxsSummary(evaluatedTxs);
+  if (!transactionsRoot.equals(header.transactionsRoot)) {
+    throw new Error('Invalid transactions root.');
+  }
+  if (!receiptsRoot.equals(header.receiptsRoot)) {
+    throw new Error('Invalid receipts root.');
+  }
+  if (!logsBloom.equals(header.logsBloom)) {
+    throw new Error('Invalid logs bloom.');
+  }
+  if (gasUsed !== header.gasUsed || gasUsed > header.gasLimit) {
+    throw new Error('Invalid gas used.');
+  }
+
+  const chainTip = blockchain.getChaintip();
   await blockchain.addBlock(blockState, evaluatedTxs);
 
+  const newChainTip = blockchain.getChaintip();
+  if (newChainTip !== chainTip) {
+    await worldState.setStateRoot(newChainTip.stateRoot);
+  }
+
   return evaluatedTxs;
 }
@@ -0,0 +1,83 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { sha3 } from 'web3x/utils';
+import { ContractArtifact, SourceMapper } from '../source-map';
+import { TraceCall, Tracer, TraceStep } from '../tracer';
+import { EvmContext } from '../vm/evm-context';
+import { createCoverageReport } from './coverage-report';
+
+/**
+ * The number of times each instruction of some code was executed, keyed by pc.
+ */
+export interface CodeCoverage {
+  code: Buffer;
+  isCreate: boolean;
+  hits: { [pc: number]: number };
+}
+
+interface Frame {
+  isCreate: boolean;
+  context?: EvmContext;
+  coverage?: CodeCoverage;
+}
+
+/**
+ * Records the instructions executed in each code, to be mapped to Solidity source coverage with compiler artifacts.
+ * Calls made without reporting that they were entered, such as eth_call, are taken to be message calls.
+ */
+export class CoverageCollector implements Tracer {
+  private codes: { [key: string]: CodeCoverage } = {};
+  private frames: Frame[] = [];
+  private messageCallFrame: Frame = { isCreate: false };
+
+  public onStep({ pc, context }: TraceStep) {
+    const frame = this.frames[this.frames.length - 1] || this.messageCallFrame;
+    if (frame.context !== context || !frame.coverage) {
+      frame.context = context;
+      frame.coverage = this.getOrCreateCodeCoverage(context.code, frame.isCreate);
+    }
+    const { hits } = frame.coverage;
+    hits[pc] = (hits[pc] || 0) + 1;
+  }
+
+  public onCallEnter(call: TraceCall) {
+    this.frames.push({ isCreate: call.type === 'CREATE' || call.type === 'CREATE2' });
+  }
+
+  public onCallExit() {
+    this.frames.pop();
+  }
+
+  public getCodeCoverage() {
+    return Object.values(this.codes);
+  }
+
+  /**
+   * Maps the executed instructions to coverage of the sources of the given artifacts, in Istanbul's format.
+   */
+  public getReport(artifacts: ContractArtifact[] | SourceMapper) {
+    const sourceMapper = artifacts instanceof SourceMapper ? artifacts : new SourceMapper(artifacts);
+    return createCoverageReport(this.getCodeCoverage(), sourceMapper);
+  }
+
+  /**
+   * Discards the coverage recorded so far.
+   */
+  public reset() {
+    this.codes = {};
+  }
+
+  private getOrCreateCodeCoverage(code: Buffer, isCreate: boolean) {
+    // Creation code includes the constructor arguments, so differs between deployments of the same contract.
+    const key = `${isCreate ? 'create' : 'call'}:${sha3(code)}`;
+    if (!this.codes[key]) {
+      this.codes[key] = { code, isCreate, hits: {} };
+    }
+    return this.codes[key];
+  }
+}
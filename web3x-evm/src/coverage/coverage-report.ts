@@ -0,0 +1,292 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { disassemble } from '../disassembler';
+import { SourceFile, SourceMapper } from '../source-map';
+import { CodeCoverage } from './coverage-collector';
+
+// Istanbul's coverage format, as output by Jest in coverage-final.json. Lines are one based, columns zero based.
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+export interface SourceLocation {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+export interface FunctionMapping {
+  name: string;
+  decl: SourceLocation;
+  loc: SourceLocation;
+  line: number;
+}
+
+export interface BranchMapping {
+  loc: SourceLocation;
+  type: 'if' | 'cond-expr';
+  locations: SourceLocation[];
+  line: number;
+}
+
+export interface FileCoverage {
+  path: string;
+  statementMap: { [id: string]: SourceLocation };
+  fnMap: { [id: string]: FunctionMapping };
+  branchMap: { [id: string]: BranchMapping };
+  s: { [id: string]: number };
+  f: { [id: string]: number };
+  b: { [id: string]: number[] };
+}
+
+export interface CoverageReport {
+  [path: string]: FileCoverage;
+}
+
+interface SourceRange {
+  start: number;
+  end: number;
+}
+
+interface ExecutedRange extends SourceRange {
+  hits: number;
+}
+
+const STATEMENT_TYPES = [
+  'Break',
+  'Continue',
+  'DoWhileStatement',
+  'EmitStatement',
+  'ExpressionStatement',
+  'ForStatement',
+  'IfStatement',
+  'InlineAssembly',
+  'Return',
+  'RevertStatement',
+  'Throw',
+  'TryStatement',
+  'VariableDeclarationStatement',
+  'WhileStatement',
+];
+
+function parseSrc(src: string) {
+  const [start, length, fileIndex] = src.split(':').map(Number);
+  return { start, end: start + length, fileIndex };
+}
+
+function contains(outer: SourceRange, inner: SourceRange) {
+  return outer.start <= inner.start && inner.end <= outer.end;
+}
+
+function maxHits(ranges: ExecutedRange[]) {
+  return ranges.reduce((max, { hits }) => Math.max(max, hits), 0);
+}
+
+function findNodes(ast: any, nodeTypes: string[], nodes: any[] = []) {
+  if (!ast || typeof ast !== 'object') {
+    return nodes;
+  }
+  if (nodeTypes.includes(ast.nodeType)) {
+    nodes.push(ast);
+  }
+  for (const value of Object.values(ast)) {
+    findNodes(value, nodeTypes, nodes);
+  }
+  return nodes;
+}
+
+/**
+ * Returns the hits of each source range executed, by file index. The instructions of one code that map to the same
+ * range execute together, so the range has the most hits of any of them. Hits in different codes add up.
+ */
+function getExecutedRanges(codes: CodeCoverage[], sourceMapper: SourceMapper) {
+  const fileRanges: { [fileIndex: number]: { [key: string]: ExecutedRange } } = {};
+
+  for (const { code, isCreate, hits } of codes) {
+    const sourceMap = sourceMapper.getSourceMap(code, isCreate);
+    if (!sourceMap) {
+      continue;
+    }
+
+    const codeRanges: { [key: string]: { fileIndex: number; range: ExecutedRange } } = {};
+    // Creation code may have constructor arguments appended, which have no entries in the source map.
+    disassemble(code).forEach(({ offset }, index) => {
+      const entry = sourceMap[index];
+      const count = hits[offset];
+      if (!entry || !count || entry.fileIndex < 0) {
+        return;
+      }
+      const { fileIndex, start, length } = entry;
+      const key = `${fileIndex}:${start}:${length}`;
+      if (!codeRanges[key]) {
+        codeRanges[key] = { fileIndex, range: { start, end: start + length, hits: 0 } };
+      }
+      codeRanges[key].range.hits = Math.max(codeRanges[key].range.hits, count);
+    });
+
+    for (const [key, { fileIndex, range }] of Object.entries(codeRanges)) {
+      const ranges = fileRanges[fileIndex] || (fileRanges[fileIndex] = {});
+      ranges[key] = { ...range, hits: (ranges[key] ? ranges[key].hits : 0) + range.hits };
+    }
+  }
+
+  return fileRanges;
+}
+
+function createFileCoverage(
+  fileIndex: number,
+  { path, ast }: SourceFile,
+  ranges: ExecutedRange[],
+  sourceMapper: SourceMapper,
+): FileCoverage {
+  const toPosition = (offset: number) => {
+    const [line, column] = sourceMapper.getLineAndColumn(fileIndex, offset);
+    return { line, column: column - 1 };
+  };
+  const toLocation = ({ start, end }: SourceRange) => ({ start: toPosition(start), end: toPosition(end) });
+  const inFile = (node: any) => parseSrc(node.src).fileIndex === fileIndex;
+
+  const fileCoverage: FileCoverage = { path, statementMap: {}, fnMap: {}, branchMap: {}, s: {}, f: {}, b: {} };
+
+  // Each executed range counts towards the innermost statement containing it, so a statement is hit as many times
+  // as its own instructions are, and not those of statements nested within it.
+  const statements = findNodes(ast, STATEMENT_TYPES)
+    .filter(inFile)
+    .map(node => parseSrc(node.src));
+  const statementHits = statements.map(() => 0);
+  const size = ({ start, end }: SourceRange) => end - start;
+  for (const range of ranges) {
+    let innermost = -1;
+    statements.forEach((statement, i) => {
+      if (contains(statement, range) && (innermost < 0 || size(statement) < size(statements[innermost]))) {
+        innermost = i;
+      }
+    });
+    if (innermost >= 0) {
+      statementHits[innermost] = Math.max(statementHits[innermost], range.hits);
+    }
+  }
+  statements.forEach((statement, i) => {
+    fileCoverage.statementMap[i] = toLocation(statement);
+    fileCoverage.s[i] = statementHits[i];
+  });
+
+  // The function entry and exit instructions map to the whole function.
+  sourceMapper.getFunctionRanges(fileIndex).forEach((fn, i) => {
+    const loc = toLocation(fn);
+    const name = fn.contractName ? `${fn.contractName}.${fn.functionName}` : fn.functionName;
+    fileCoverage.fnMap[i] = { name, decl: loc, loc, line: loc.start.line };
+    fileCoverage.f[i] = maxHits(ranges.filter(range => range.start === fn.start && range.end === fn.end));
+  });
+
+  // Without an else, the branch not taken is hit as many times as the condition is evaluated without the body
+  // executing.
+  findNodes(ast, ['IfStatement', 'Conditional'])
+    .filter(inFile)
+    .forEach((node, i) => {
+      const isIf = node.nodeType === 'IfStatement';
+      const range = parseSrc(node.src);
+      const trueRange = parseSrc((isIf ? node.trueBody : node.trueExpression).src);
+      const falseNode = isIf ? node.falseBody : node.falseExpression;
+      const trueHits = maxHits(ranges.filter(r => contains(trueRange, r)));
+      const falseHits = falseNode
+        ? maxHits(ranges.filter(r => contains(parseSrc(falseNode.src), r)))
+        : Math.max(0, maxHits(ranges.filter(r => contains(range, r) && !contains(trueRange, r))) - trueHits);
+      const loc = toLocation(range);
+      fileCoverage.branchMap[i] = {
+        loc,
+        type: isIf ? 'if' : 'cond-expr',
+        locations: [toLocation(trueRange), falseNode ? toLocation(parseSrc(falseNode.src)) : loc],
+        line: loc.start.line,
+      };
+      fileCoverage.b[i] = [trueHits, falseHits];
+    });
+
+  return fileCoverage;
+}
+
+/**
+ * Maps the instructions executed in each code to coverage of the statements, functions and branches of the known
+ * sources. Only sources with an AST are included, and sources that were never executed have no coverage.
+ */
+export function createCoverageReport(codes: CodeCoverage[], sourceMapper: SourceMapper) {
+  const fileRanges = getExecutedRanges(codes, sourceMapper);
+  const sources = sourceMapper.getSources();
+  const report: CoverageReport = {};
+  for (const fileIndex of Object.keys(sources).map(Number)) {
+    const source = sources[fileIndex];
+    if (!source.ast) {
+      continue;
+    }
+    const ranges = Object.values(fileRanges[fileIndex] || {});
+    report[source.path] = createFileCoverage(fileIndex, source, ranges, sourceMapper);
+  }
+  return report;
+}
+
+/**
+ * Combines the reports, adding up the hits of files present in more than one. Reports of the same file must be of
+ * the same source.
+ */
+export function mergeCoverageReports(...reports: CoverageReport[]) {
+  const merged: CoverageReport = {};
+  for (const report of reports) {
+    for (const [path, fileCoverage] of Object.entries(report)) {
+      const existing = merged[path];
+      if (!existing) {
+        merged[path] = {
+          ...fileCoverage,
+          s: { ...fileCoverage.s },
+          f: { ...fileCoverage.f },
+          b: Object.entries(fileCoverage.b).reduce((b, [id, hits]) => ({ ...b, [id]: [...hits] }), {}),
+        };
+        continue;
+      }
+      Object.entries(fileCoverage.s).forEach(([id, hits]) => (existing.s[id] = (existing.s[id] || 0) + hits));
+      Object.entries(fileCoverage.f).forEach(([id, hits]) => (existing.f[id] = (existing.f[id] || 0) + hits));
+      Object.entries(fileCoverage.b).forEach(
+        ([id, hits]) => (existing.b[id] = hits.map((h, i) => h + ((existing.b[id] || [])[i] || 0))),
+      );
+    }
+  }
+  return merged;
+}
+
+/**
+ * Formats the report as an lcov tracefile. A line is hit as many times as the most hit statement starting on it.
+ */
+export function toLcov(report: CoverageReport) {
+  const records = Object.values(report).map(({ path, statementMap, fnMap, branchMap, s, f, b }) => {
+    const lines = [`TN:`, `SF:${path}`];
+
+    const fns = Object.keys(fnMap);
+    fns.forEach(id => lines.push(`FN:${fnMap[id].line},${fnMap[id].name}`));
+    fns.forEach(id => lines.push(`FNDA:${f[id]},${fnMap[id].name}`));
+    lines.push(`FNF:${fns.length}`, `FNH:${fns.filter(id => f[id] > 0).length}`);
+
+    const branches = Object.keys(branchMap);
+    branches.forEach(id => b[id].forEach((hits, i) => lines.push(`BRDA:${branchMap[id].line},${id},${i},${hits}`)));
+    const branchHits = branches.reduce((all, id) => [...all, ...b[id]], [] as number[]);
+    lines.push(`BRF:${branchHits.length}`, `BRH:${branchHits.filter(hits => hits > 0).length}`);
+
+    const lineHits: { [line: number]: number } = {};
+    Object.keys(statementMap).forEach(id => {
+      const { line } = statementMap[id].start;
+      lineHits[line] = Math.max(lineHits[line] || 0, s[id]);
+    });
+    const lineNumbers = Object.keys(lineHits)
+      .map(Number)
+      .sort((x, y) => x - y);
+    lineNumbers.forEach(line => lines.push(`DA:${line},${lineHits[line]}`));
+    lines.push(`LF:${lineNumbers.length}`, `LH:${lineNumbers.filter(line => lineHits[line] > 0).length}`);
+
+    lines.push('end_of_record');
+    return lines.join('\n');
+  });
+  return records.map(record => record + '\n').join('');
+}
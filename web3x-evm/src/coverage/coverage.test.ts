@@ -0,0 +1,183 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import levelup from 'levelup';
+import memdown from 'memdown';
+import { Address } from 'web3x/address';
+import { Eth } from 'web3x/eth';
+import { Wallet } from 'web3x/wallet';
+import { EvmProvider } from '../provider';
+import { ContractArtifact } from '../source-map';
+import { CoverageCollector } from './coverage-collector';
+import { mergeCoverageReports, toLcov } from './coverage-report';
+
+const source = `pragma solidity ^0.5.0;
+
+contract Branch {
+    uint x;
+
+    function branch(bool flag) public {
+        if (flag) {
+            x = 2;
+        } else {
+            x = 1;
+        }
+    }
+}
+`;
+
+// PUSH1 0 CALLDATALOAD PUSH1 10 JUMPI PUSH1 1 POP STOP JUMPDEST PUSH1 2 POP STOP
+const code = '600035600a57600150005b60025000';
+
+// The source range from the first occurrence of start, to the end of the first occurrence of end after it.
+function src(start: string, end: string = start) {
+  const offset = source.indexOf(start);
+  const length = source.indexOf(end, offset) + end.length - offset;
+  return `${offset}:${length}:0`;
+}
+
+const fnSrc = src('function', '        }\n    }');
+const ifSrc = src('if', 'x = 1;\n        }');
+const trueSrc = src('{\n            x = 2', '}');
+const falseSrc = src('{\n            x = 1', '}');
+const [x2Src, x1Src] = [src('x = 2;'), src('x = 1;')];
+
+const artifact: ContractArtifact = {
+  contractName: 'Branch',
+  bytecode: '0x00',
+  deployedBytecode: '0x' + code,
+  sourceMap: '',
+  deployedSourceMap: [fnSrc, ifSrc, ifSrc, ifSrc, x1Src, x1Src, x1Src, x2Src, x2Src, x2Src, x2Src]
+    .map(s => `${s}:-`)
+    .join(';'),
+  sources: {
+    0: {
+      path: 'contracts/Branch.sol',
+      content: source,
+      ast: {
+        nodeType: 'SourceUnit',
+        src: `0:${source.length}:0`,
+        nodes: [
+          {
+            nodeType: 'ContractDefinition',
+            name: 'Branch',
+            src: src('contract', '}\n}'),
+            nodes: [
+              {
+                nodeType: 'FunctionDefinition',
+                name: 'branch',
+                kind: 'function',
+                src: fnSrc,
+                body: {
+                  nodeType: 'Block',
+                  src: src('{\n        if', '        }\n    }'),
+                  statements: [
+                    {
+                      nodeType: 'IfStatement',
+                      src: ifSrc,
+                      condition: { nodeType: 'Identifier', src: src('flag)', 'flag') },
+                      trueBody: {
+                        nodeType: 'Block',
+                        src: trueSrc,
+                        statements: [{ nodeType: 'ExpressionStatement', src: x2Src }],
+                      },
+                      falseBody: {
+                        nodeType: 'Block',
+                        src: falseSrc,
+                        statements: [{ nodeType: 'ExpressionStatement', src: x1Src }],
+                      },
+                    },
+                  ],
+                },
+              },
+            ],
+          },
+        ],
+      },
+    },
+  },
+};
+
+describe('coverage', () => {
+  const wallet = new Wallet(1);
+  const from = wallet.get(0)!.address;
+  const contract = Address.fromString('0x0000000000000000000000000000000000000020');
+  let coverage: CoverageCollector;
+  let eth: Eth;
+
+  beforeEach(async () => {
+    coverage = new CoverageCollector();
+    const provider = await EvmProvider.fromDb(levelup(memdown()), { coverage });
+    await provider.loadWallet(wallet);
+    await provider.send('evm_setCode', [contract.toString(), '0x' + code]);
+    eth = new Eth(provider);
+
+    await eth.call({ to: contract, data: Buffer.of(1) });
+    await eth.call({ to: contract, data: Buffer.of(0) });
+    await eth.sendTransaction({ from, to: contract, data: Buffer.of(1), gas: 100000 }).getReceipt();
+  });
+
+  it('should report coverage of statements, functions and branches', () => {
+    const report = coverage.getReport([artifact]);
+    const fileCoverage = report['contracts/Branch.sol'];
+
+    expect(Object.values(fileCoverage.statementMap)).toEqual([
+      { start: { line: 7, column: 8 }, end: { line: 11, column: 9 } },
+      { start: { line: 8, column: 12 }, end: { line: 8, column: 18 } },
+      { start: { line: 10, column: 12 }, end: { line: 10, column: 18 } },
+    ]);
+    expect(fileCoverage.s).toEqual({ 0: 3, 1: 2, 2: 1 });
+    expect(fileCoverage.fnMap[0].name).toBe('Branch.branch');
+    expect(fileCoverage.f).toEqual({ 0: 3 });
+    expect(fileCoverage.branchMap[0].type).toBe('if');
+    expect(fileCoverage.b).toEqual({ 0: [2, 1] });
+  });
+
+  it('should not report coverage of unknown code', () => {
+    const report = coverage.getReport([{ ...artifact, deployedBytecode: '0x00' }]);
+    const fileCoverage = report['contracts/Branch.sol'];
+
+    expect(fileCoverage.s).toEqual({ 0: 0, 1: 0, 2: 0 });
+    expect(fileCoverage.f).toEqual({ 0: 0 });
+    expect(fileCoverage.b).toEqual({ 0: [0, 0] });
+  });
+
+  it('should format report as lcov', () => {
+    expect(toLcov(coverage.getReport([artifact]))).toBe(
+      [
+        'TN:',
+        'SF:contracts/Branch.sol',
+        'FN:6,Branch.branch',
+        'FNDA:3,Branch.branch',
+        'FNF:1',
+        'FNH:1',
+        'BRDA:7,0,0,2',
+        'BRDA:7,0,1,1',
+        'BRF:2',
+        'BRH:2',
+        'DA:7,3',
+        'DA:8,2',
+        'DA:10,1',
+        'LF:3',
+        'LH:3',
+        'end_of_record',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('should merge reports', () => {
+    const report = coverage.getReport([artifact]);
+    const merged = mergeCoverageReports(report, report);
+    const fileCoverage = merged['contracts/Branch.sol'];
+
+    expect(fileCoverage.s).toEqual({ 0: 6, 1: 4, 2: 2 });
+    expect(fileCoverage.f).toEqual({ 0: 6 });
+    expect(fileCoverage.b).toEqual({ 0: [4, 2] });
+    expect(report['contracts/Branch.sol'].s).toEqual({ 0: 3, 1: 2, 2: 1 });
+  });
+});
@@ -0,0 +1,27 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { CoverageReport, mergeCoverageReports, toLcov } from './coverage-report';
+
+/**
+ * Writes the report to coverage-final.json and lcov.info in the given directory, adding to any report already written
+ * there, such as by another test file. Node only.
+ */
+export function writeCoverageReport(report: CoverageReport, directory: string = 'coverage/solidity') {
+  const fs = require('fs');
+  const path = require('path');
+  const jsonPath = path.join(directory, 'coverage-final.json');
+
+  if (fs.existsSync(jsonPath)) {
+    report = mergeCoverageReports(JSON.parse(fs.readFileSync(jsonPath).toString()), report);
+  }
+
+  fs.mkdirSync(directory, { recursive: true });
+  fs.writeFileSync(jsonPath, JSON.stringify(report));
+  fs.writeFileSync(path.join(directory, 'lcov.info'), toLcov(report));
+  return report;
+}
@@ -0,0 +1,88 @@
+#!/usr/bin/env node
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import fs from 'fs';
+import { bufferToHex } from 'web3x/utils';
+import { buildControlFlowGraph } from './control-flow-graph';
+import { disassemble, formatInstruction, Instruction } from './disassemble';
+import { findFunctionSelectors } from './function-selectors';
+import { stripMetadata } from './metadata';
+
+const USAGE = `Usage: web3x-evm-disassemble [--cfg] [--selectors] [--keep-metadata] [<hex code or file>]
+
+Disassembles raw EVM bytecode, given as hex on the command line, in a file, or on stdin.
+
+  --cfg            Print the basic blocks of the control flow graph, and the blocks each continues to.
+  --selectors      Print the function selectors found in the dispatcher, and the offsets they jump to.
+  --keep-metadata  Disassemble the trailing Solidity metadata rather than stripping it.`;
+
+const formatOffset = (offset: number) => '0x' + offset.toString(16).padStart(4, '0');
+
+const formatLine = (instruction: Instruction) =>
+  `${formatOffset(instruction.offset)}  ${formatInstruction(instruction)}`;
+
+function readCode(source?: string) {
+  const input = !source
+    ? fs.readFileSync(0).toString()
+    : fs.existsSync(source)
+    ? fs.readFileSync(source).toString()
+    : source;
+  const hex = input.trim().replace(/^0x/, '');
+  if (!/^([0-9a-fA-F]{2})*$/.test(hex)) {
+    throw new Error('Code must be hex encoded.');
+  }
+  return Buffer.from(hex, 'hex');
+}
+
+function main(args: string[]) {
+  const flags = args.filter(arg => arg.startsWith('--'));
+  const [source] = args.filter(arg => !arg.startsWith('--'));
+  const print = (line: string) => process.stdout.write(line + '\n');
+
+  if (flags.includes('--help')) {
+    print(USAGE);
+    return;
+  }
+
+  const { code, metadata } = flags.includes('--keep-metadata')
+    ? { code: readCode(source), metadata: undefined }
+    : stripMetadata(readCode(source));
+  const instructions = disassemble(code);
+
+  if (flags.includes('--cfg')) {
+    for (const { start, end, instructions: blockInstructions, successors, dynamicJump } of buildControlFlowGraph(
+      instructions,
+    )) {
+      const exits = [...successors.map(formatOffset), ...(dynamicJump ? ['dynamic'] : [])];
+      print(`block ${formatOffset(start)}-${formatOffset(end)} -> ${exits.length ? exits.join(', ') : 'halt'}`);
+      blockInstructions.forEach(instruction => print('  ' + formatLine(instruction)));
+    }
+  } else {
+    instructions.forEach(instruction => print(formatLine(instruction)));
+  }
+
+  if (flags.includes('--selectors')) {
+    findFunctionSelectors(instructions).forEach(({ selector, offset }) =>
+      print(`selector ${selector} -> ${formatOffset(offset)}`),
+    );
+  }
+
+  if (metadata) {
+    print(`metadata ${bufferToHex(metadata)}`);
+  }
+}
+
+if (require.main === module) {
+  try {
+    main(process.argv.slice(2));
+  } catch (err) {
+    // tslint:disable-next-line:no-console
+    console.error(err.message);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,92 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { Instruction } from './disassemble';
+
+export interface BasicBlock {
+  // Offset of the first instruction.
+  start: number;
+  // Offset following the last instruction.
+  end: number;
+  instructions: Instruction[];
+  // Start offsets of the blocks execution can continue to.
+  successors: number[];
+  // Whether the block ends in a jump whose destination isn't known statically.
+  dynamicJump: boolean;
+}
+
+const HALTING_MNEMONICS = ['STOP', 'RETURN', 'REVERT', 'INVALID', 'SELFDESTRUCT'];
+
+const isJump = ({ mnemonic }: Instruction) => mnemonic === 'JUMP' || mnemonic === 'JUMPI';
+
+const endsBlock = (instruction: Instruction) =>
+  !instruction.opCode || isJump(instruction) || HALTING_MNEMONICS.includes(instruction.mnemonic);
+
+/**
+ * Splits the instructions into basic blocks, and links them by the jumps and fall throughs between them. A block
+ * starts at each JUMPDEST and after each jump or halting instruction. A jump's destination is resolved if it's pushed
+ * immediately before the jump, as the compiler does for jumps within a function. Other jumps, such as returns from
+ * internal functions, are marked dynamic. Jumps to anything other than a JUMPDEST fail, so have no successor.
+ */
+export function buildControlFlowGraph(instructions: Instruction[]): BasicBlock[] {
+  const blocks: BasicBlock[] = [];
+  let current: Instruction[] = [];
+
+  for (const [i, instruction] of instructions.entries()) {
+    if (instruction.isJumpDest && current.length) {
+      blocks.push(createBlock(current));
+      current = [];
+    }
+    current.push(instruction);
+    if (endsBlock(instruction) || i === instructions.length - 1) {
+      blocks.push(createBlock(current));
+      current = [];
+    }
+  }
+
+  const jumpDests = new Set(instructions.filter(i => i.isJumpDest).map(i => i.offset));
+
+  for (const [i, block] of blocks.entries()) {
+    const last = block.instructions[block.instructions.length - 1];
+    const next = blocks[i + 1];
+
+    if (isJump(last)) {
+      const target = getStaticJumpTarget(block.instructions);
+      if (target === undefined) {
+        block.dynamicJump = true;
+      } else if (jumpDests.has(target)) {
+        block.successors.push(target);
+      }
+    }
+
+    const fallsThrough = last.mnemonic === 'JUMPI' || !endsBlock(last);
+    if (fallsThrough && next) {
+      block.successors.push(next.start);
+    }
+  }
+
+  return blocks;
+}
+
+function createBlock(instructions: Instruction[]): BasicBlock {
+  const last = instructions[instructions.length - 1];
+  return {
+    start: instructions[0].offset,
+    end: last.offset + 1 + last.immediate.length,
+    instructions,
+    successors: [],
+    dynamicJump: false,
+  };
+}
+
+function getStaticJumpTarget(instructions: Instruction[]) {
+  const push = instructions[instructions.length - 2];
+  if (!push || !push.mnemonic.startsWith('PUSH')) {
+    return;
+  }
+  return parseInt(push.immediate.toString('hex') || '0', 16);
+}
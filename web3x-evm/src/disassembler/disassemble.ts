@@ -0,0 +1,49 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { OpCode, OpCodes } from '../opcodes';
+
+export interface Instruction {
+  // Byte offset of the instruction in the code, i.e. the pc at which it's executed.
+  offset: number;
+  opcode: number;
+  // Undefined if the byte isn't a known opcode, in which case executing it fails.
+  opCode?: OpCode;
+  mnemonic: string;
+  // The data pushed by PUSH instructions, which is shorter than expected if the code ends first.
+  immediate: Buffer;
+  // Whether the instruction is a JUMPDEST, and so a valid destination for jumps.
+  isJumpDest: boolean;
+}
+
+/**
+ * Splits the code into instructions. Push data is part of its instruction, so bytes within it are never mistaken for
+ * opcodes or jump destinations.
+ */
+export function disassemble(code: Buffer): Instruction[] {
+  const instructions: Instruction[] = [];
+  let offset = 0;
+  while (offset < code.length) {
+    const opcode = code[offset];
+    const opCode: OpCode | undefined = OpCodes[opcode];
+    const bytes = opCode ? opCode.bytes : 1;
+    instructions.push({
+      offset,
+      opcode,
+      opCode,
+      mnemonic: opCode ? opCode.mnemonic : 'UNKNOWN',
+      immediate: code.slice(offset + 1, offset + bytes),
+      isJumpDest: !!opCode && opCode.mnemonic === 'JUMPDEST',
+    });
+    offset += bytes;
+  }
+  return instructions;
+}
+
+export function formatInstruction({ opcode, opCode, immediate }: Instruction) {
+  return opCode ? opCode.toString(immediate) : `Unknown opcode 0x${opcode.toString(16)}`;
+}
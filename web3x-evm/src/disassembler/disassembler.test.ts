@@ -0,0 +1,81 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { buildControlFlowGraph } from './control-flow-graph';
+import { disassemble, formatInstruction } from './disassemble';
+import { findFunctionSelectors } from './function-selectors';
+import { stripMetadata } from './metadata';
+
+describe('disassembler', () => {
+  // A dispatcher for transfer(address,uint256) which jumps to a function that jumps to a dynamic destination.
+  const code = Buffer.from(
+    [
+      '6080604052', // 0x00 PUSH1 0x80 PUSH1 0x40 MSTORE
+      '60003560e01c', // 0x05 PUSH1 0 CALLDATALOAD PUSH1 0xe0 SHR
+      '8063a9059cbb14', // 0x0b DUP1 PUSH4 0xa9059cbb EQ
+      '601957', // 0x12 PUSH1 0x19 JUMPI
+      '600080fd', // 0x15 PUSH1 0 DUP1 REVERT
+      '5b601e56', // 0x19 JUMPDEST PUSH1 0x1e JUMP
+      'fe', // 0x1d INVALID
+      '5b8056', // 0x1e JUMPDEST DUP1 JUMP
+    ].join(''),
+    'hex',
+  );
+  // Swarm hash metadata, as appended by solc 0.4.
+  const metadata = Buffer.concat([Buffer.from('a165627a7a72305820', 'hex'), Buffer.alloc(32, 0xab)]);
+  const codeWithMetadata = Buffer.concat([code, metadata, Buffer.from('0029', 'hex')]);
+
+  it('should disassemble instructions with their immediates', () => {
+    const instructions = disassemble(code);
+    expect(instructions.map(i => i.offset).slice(0, 4)).toEqual([0x00, 0x02, 0x04, 0x05]);
+    expect(instructions[8]).toMatchObject({
+      offset: 0x0c,
+      mnemonic: 'PUSH4',
+      immediate: Buffer.from('a9059cbb', 'hex'),
+    });
+    expect(formatInstruction(instructions[8])).toBe('PUSH4 0xa9059cbb');
+  });
+
+  it('should not treat push data as jump destinations', () => {
+    // PUSH1 0x5b JUMPDEST PUSH2 0xff (truncated)
+    const instructions = disassemble(Buffer.from('605b5b61ff', 'hex'));
+    expect(instructions.map(i => i.isJumpDest)).toEqual([false, true, false]);
+    expect(instructions[2].immediate).toEqual(Buffer.of(0xff));
+  });
+
+  it('should format unknown opcodes', () => {
+    const [instruction] = disassemble(Buffer.of(0x0c));
+    expect(instruction.opCode).toBeUndefined();
+    expect(formatInstruction(instruction)).toBe('Unknown opcode 0xc');
+  });
+
+  it('should build basic blocks and resolve static jumps', () => {
+    const blocks = buildControlFlowGraph(disassemble(code));
+    expect(blocks.map(({ start, end, successors, dynamicJump }) => ({ start, end, successors, dynamicJump }))).toEqual([
+      { start: 0x00, end: 0x15, successors: [0x19, 0x15], dynamicJump: false },
+      { start: 0x15, end: 0x19, successors: [], dynamicJump: false },
+      { start: 0x19, end: 0x1d, successors: [0x1e], dynamicJump: false },
+      { start: 0x1d, end: 0x1e, successors: [], dynamicJump: false },
+      { start: 0x1e, end: 0x21, successors: [], dynamicJump: true },
+    ]);
+  });
+
+  it('should fall through into a jump destination', () => {
+    // PUSH1 1 JUMPDEST STOP
+    const blocks = buildControlFlowGraph(disassemble(Buffer.from('60015b00', 'hex')));
+    expect(blocks.map(b => b.successors)).toEqual([[0x02], []]);
+  });
+
+  it('should find function selectors in the dispatcher', () => {
+    expect(findFunctionSelectors(disassemble(code))).toEqual([{ selector: '0xa9059cbb', offset: 0x19 }]);
+  });
+
+  it('should strip metadata', () => {
+    expect(stripMetadata(codeWithMetadata)).toEqual({ code, metadata });
+    expect(stripMetadata(code)).toEqual({ code });
+  });
+});
@@ -0,0 +1,50 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { bufferToHex } from 'web3x/utils';
+import { Instruction } from './disassemble';
+
+export interface FunctionSelector {
+  selector: string;
+  // Offset of the JUMPDEST the dispatcher jumps to when the selector matches.
+  offset: number;
+}
+
+const is = (instruction: Instruction | undefined, mnemonic: string) =>
+  !!instruction && instruction.mnemonic === mnemonic;
+
+const isPush = (instruction: Instruction | undefined, maxBytes = 32) =>
+  !!instruction && instruction.mnemonic.startsWith('PUSH') && instruction.opCode!.bytes <= maxBytes + 1;
+
+/**
+ * Finds the function selectors of a contract from its dispatcher. Solidity compares the selector from calldata with
+ * each of the contract's selectors in turn, as either DUP1 PUSH4 selector EQ PUSH dest JUMPI, or
+ * PUSH4 selector DUP2 EQ PUSH dest JUMPI. Selectors with leading zero bytes may be pushed with a shorter PUSH.
+ */
+export function findFunctionSelectors(instructions: Instruction[]): FunctionSelector[] {
+  const selectors: FunctionSelector[] = [];
+
+  instructions.forEach((instruction, i) => {
+    if (!isPush(instruction, 4)) {
+      return;
+    }
+    const next = is(instructions[i + 1], 'DUP2') ? i + 2 : i + 1;
+    const [eq, push, jumpi] = instructions.slice(next, next + 3);
+    if (!is(eq, 'EQ') || !isPush(push) || !is(jumpi, 'JUMPI')) {
+      return;
+    }
+
+    const selector = bufferToHex(
+      Buffer.concat([Buffer.alloc(4 - instruction.immediate.length), instruction.immediate]),
+    );
+    if (!selectors.some(s => s.selector === selector)) {
+      selectors.push({ selector, offset: parseInt(push!.immediate.toString('hex'), 16) });
+    }
+  });
+
+  return selectors;
+}
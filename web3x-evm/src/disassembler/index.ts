@@ -0,0 +1,11 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+export * from './control-flow-graph';
+export * from './disassemble';
+export * from './function-selectors';
+export * from './metadata';
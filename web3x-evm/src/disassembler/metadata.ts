@@ -0,0 +1,26 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+/**
+ * Splits off the CBOR encoded metadata that Solidity appends to runtime code. The metadata is followed by its length
+ * as two bytes, and holds the hash of the contract's metadata file, so it differs between otherwise identical builds.
+ * Code without recognisable metadata is returned whole.
+ */
+export function stripMetadata(code: Buffer): { code: Buffer; metadata?: Buffer } {
+  if (code.length < 2) {
+    return { code };
+  }
+
+  const length = code.readUInt16BE(code.length - 2);
+  const start = code.length - 2 - length;
+  // The metadata is a CBOR map of at most 23 entries, so its first byte is between 0xa1 and 0xb7.
+  if (length === 0 || start < 0 || code[start] < 0xa1 || code[start] > 0xb7) {
+    return { code };
+  }
+
+  return { code: code.slice(0, start), metadata: code.slice(start, code.length - 2) };
+}
@@ -0,0 +1,93 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+export interface GasStats {
+  min: number;
+  max: number;
+  avg: number;
+  calls: number;
+}
+
+export interface ContractGasReport {
+  deployment?: GasStats;
+  methods: { [method: string]: GasStats };
+}
+
+export interface GasReport {
+  [contractName: string]: ContractGasReport;
+}
+
+/**
+ * A change in the average gas used by a deployment, if method is undefined, or a method.
+ */
+export interface GasChange {
+  contractName: string;
+  method?: string;
+  baseline: number;
+  current: number;
+}
+
+function getEntries(report: GasReport) {
+  const entries: { contractName: string; method?: string; stats: GasStats }[] = [];
+  for (const [contractName, { deployment, methods }] of Object.entries(report)) {
+    if (deployment) {
+      entries.push({ contractName, stats: deployment });
+    }
+    for (const [method, stats] of Object.entries(methods)) {
+      entries.push({ contractName, method, stats });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Formats the report as a table, with a row for the deployments and each method of each contract.
+ */
+export function formatGasReport(report: GasReport) {
+  const rows = [
+    ['Contract', 'Method', 'Min', 'Max', 'Avg', 'Calls'],
+    ...getEntries(report).map(({ contractName, method, stats: { min, max, avg, calls } }) => [
+      contractName,
+      method || '(deployment)',
+      ...[min, max, avg, calls].map(String),
+    ]),
+  ];
+  const widths = rows[0].map((_, i) => Math.max(...rows.map(row => row[i].length)));
+  // Names are left aligned, and numbers right aligned.
+  return rows
+    .map(row => row.map((cell, i) => (i < 2 ? cell.padEnd(widths[i]) : cell.padStart(widths[i]))).join('  '))
+    .join('\n');
+}
+
+/**
+ * Returns the changes in average gas used between the baseline and the report, of deployments and methods in both.
+ */
+export function diffGasReports(baseline: GasReport, report: GasReport) {
+  const changes: GasChange[] = [];
+  for (const { contractName, method, stats } of getEntries(report)) {
+    const baselineContract = baseline[contractName];
+    const baselineStats = baselineContract && (method ? baselineContract.methods[method] : baselineContract.deployment);
+    if (baselineStats && baselineStats.avg !== stats.avg) {
+      changes.push({ contractName, method, baseline: baselineStats.avg, current: stats.avg });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Returns the changes in which the average gas used increased by more than the tolerance, a fraction of the baseline.
+ */
+export function findGasRegressions(baseline: GasReport, report: GasReport, tolerance: number = 0) {
+  return diffGasReports(baseline, report).filter(({ baseline: base, current }) => current > base * (1 + tolerance));
+}
+
+export function formatGasChange({ contractName, method, baseline, current }: GasChange) {
+  const percent = (((current - baseline) / baseline) * 100).toFixed(2);
+  return `${contractName} ${method || '(deployment)'}: ${baseline} -> ${current} (${
+    current > baseline ? '+' : ''
+  }${percent}%)`;
+}
@@ -0,0 +1,148 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import levelup from 'levelup';
+import memdown from 'memdown';
+import { Eth } from 'web3x/eth';
+import { bufferToHex, toWei, utf8ToHex } from 'web3x/utils';
+import { Wallet } from 'web3x/wallet';
+import { EvmProvider } from '../provider';
+import { DaiContract, DaiContractAbi } from '../provider/fixtures/DaiContract';
+import { diffGasReports, findGasRegressions, formatGasReport, GasReport } from './gas-report';
+import { GasReporter } from './gas-reporter';
+
+describe('gas-reporter', () => {
+  const wallet = new Wallet(2);
+  const [account1, account2] = wallet.currentAddresses();
+  const symbol = utf8ToHex('xf00f');
+  let gasReporter: GasReporter;
+  let daiContract: DaiContract;
+
+  beforeEach(async () => {
+    gasReporter = new GasReporter();
+    const provider = await EvmProvider.fromDb(levelup(memdown()), { gasReporter });
+    await provider.loadWallet(wallet);
+    daiContract = new DaiContract(new Eth(provider), undefined, { from: account1, gasPrice: 50000 });
+
+    // The creation code, without the constructor arguments.
+    const init = daiContract.deploy(symbol).encodeABI();
+    const bytecode = bufferToHex(init.slice(0, init.length - DaiContractAbi.ctor.encodeParameters([symbol]).length));
+    gasReporter.addContract({ name: 'DaiContract', abi: DaiContractAbi, bytecode });
+  });
+
+  it('should report gas used by deployments and methods', async () => {
+    const deployReceipt = await daiContract
+      .deploy(symbol)
+      .send()
+      .getReceipt();
+    const mintReceipts = [
+      await daiContract.methods
+        .mint(toWei('1000', 'ether'))
+        .send()
+        .getReceipt(),
+      await daiContract.methods
+        .mint(toWei('1', 'ether'))
+        .send()
+        .getReceipt(),
+    ];
+    const transferReceipt = await daiContract.methods
+      .transfer(account2, toWei('1', 'ether'))
+      .send()
+      .getReceipt();
+
+    const mintGas = mintReceipts.map(({ gasUsed }) => gasUsed);
+    expect(mintGas[0]).not.toBe(mintGas[1]);
+    expect(gasReporter.getReport()).toEqual({
+      DaiContract: {
+        deployment: {
+          min: deployReceipt.gasUsed,
+          max: deployReceipt.gasUsed,
+          avg: deployReceipt.gasUsed,
+          calls: 1,
+        },
+        methods: {
+          // Overloaded with mint(address,uint256).
+          'mint(uint256)': {
+            min: Math.min(...mintGas),
+            max: Math.max(...mintGas),
+            avg: Math.round((mintGas[0] + mintGas[1]) / 2),
+            calls: 2,
+          },
+          transfer: {
+            min: transferReceipt.gasUsed,
+            max: transferReceipt.gasUsed,
+            avg: transferReceipt.gasUsed,
+            calls: 1,
+          },
+        },
+      },
+    });
+  });
+
+  it('should not report reverted transactions', async () => {
+    await daiContract
+      .deploy(symbol)
+      .send()
+      .getReceipt();
+    await expect(
+      daiContract.methods
+        .transfer(account1, toWei('1', 'ether'))
+        .send({ from: account2 })
+        .getReceipt(),
+    ).rejects.toThrow();
+
+    expect(gasReporter.getReport().DaiContract.methods).toEqual({});
+  });
+
+  it('should format report as table', () => {
+    const report: GasReport = {
+      DaiContract: {
+        deployment: { min: 1000000, max: 1000000, avg: 1000000, calls: 1 },
+        methods: { transfer: { min: 30000, max: 50000, avg: 40000, calls: 2 } },
+      },
+    };
+
+    expect(formatGasReport(report)).toBe(
+      [
+        'Contract     Method            Min      Max      Avg  Calls',
+        'DaiContract  (deployment)  1000000  1000000  1000000      1',
+        'DaiContract  transfer        30000    50000    40000      2',
+      ].join('\n'),
+    );
+  });
+
+  it('should find regressions against baseline', () => {
+    const baseline: GasReport = {
+      DaiContract: {
+        deployment: { min: 1000, max: 1000, avg: 1000, calls: 1 },
+        methods: {
+          mint: { min: 100, max: 100, avg: 100, calls: 1 },
+          transfer: { min: 100, max: 100, avg: 100, calls: 1 },
+        },
+      },
+    };
+    const report: GasReport = {
+      DaiContract: {
+        deployment: { min: 900, max: 900, avg: 900, calls: 1 },
+        methods: {
+          mint: { min: 104, max: 104, avg: 104, calls: 1 },
+          transfer: { min: 110, max: 110, avg: 110, calls: 1 },
+          burn: { min: 200, max: 200, avg: 200, calls: 1 },
+        },
+      },
+    };
+
+    expect(diffGasReports(baseline, report)).toEqual([
+      { contractName: 'DaiContract', baseline: 1000, current: 900 },
+      { contractName: 'DaiContract', method: 'mint', baseline: 100, current: 104 },
+      { contractName: 'DaiContract', method: 'transfer', baseline: 100, current: 110 },
+    ]);
+    expect(findGasRegressions(baseline, report, 0.05)).toEqual([
+      { contractName: 'DaiContract', method: 'transfer', baseline: 100, current: 110 },
+    ]);
+  });
+});
@@ -0,0 +1,118 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { ContractAbi } from 'web3x/contract';
+import { EvaluatedTx } from '../blockchain/evaluate-txs';
+import { GasReport, GasStats } from './gas-report';
+
+export interface GasReporterContract {
+  name: string;
+  abi: ContractAbi;
+  // Creation code, with which deployments are recognised. Without it, only calls are reported.
+  bytecode?: string;
+}
+
+interface GasSamples {
+  deployment: number[];
+  methods: { [method: string]: number[] };
+}
+
+function getStats(samples: number[]): GasStats {
+  return {
+    min: Math.min(...samples),
+    max: Math.max(...samples),
+    avg: Math.round(samples.reduce((sum, gas) => sum + gas, 0) / samples.length),
+    calls: samples.length,
+  };
+}
+
+/**
+ * Records the gas used by transactions deploying and calling the given contracts. Calls are attributed to the
+ * contract deployed at their address, or failing that, the only contract with a function of their selector.
+ * Reverted transactions are not recorded.
+ */
+export class GasReporter {
+  private contracts: GasReporterContract[] = [];
+  private deployed: { [address: string]: GasReporterContract } = {};
+  private samples: { [contractName: string]: GasSamples } = {};
+
+  constructor(contracts: GasReporterContract[] = []) {
+    contracts.forEach(contract => this.addContract(contract));
+  }
+
+  public addContract(contract: GasReporterContract) {
+    this.contracts.push({ ...contract, bytecode: contract.bytecode && contract.bytecode.replace(/^0x/, '') });
+  }
+
+  public addEvaluatedTxs(evaluatedTxs: EvaluatedTx[]) {
+    for (const { tx, result } of evaluatedTxs) {
+      if (result.reverted) {
+        continue;
+      }
+
+      const gasUsed = Number(tx.gasLimit - result.remainingGas);
+      if (!tx.to) {
+        const init = tx.dataOrInit.toString('hex');
+        // Constructor arguments are appended to the creation code.
+        const contract = this.contracts.find(c => !!c.bytecode && init.startsWith(c.bytecode));
+        if (contract && result.contractAddress) {
+          this.deployed[result.contractAddress.toString()] = contract;
+          this.getSamples(contract.name).deployment.push(gasUsed);
+        }
+        continue;
+      }
+
+      const data = tx.dataOrInit;
+      const contract = this.deployed[tx.to.toString()] || this.findContractForFunctionData(data);
+      const entry = contract && contract.abi.findEntryForFunctionData(data);
+      if (!contract || !entry) {
+        continue;
+      }
+      // Overloaded functions are told apart by their full signature.
+      const overloaded = contract.abi.functions.filter(f => f.name === entry.name).length > 1;
+      const method = overloaded ? entry.asString() : entry.name!;
+      const { methods } = this.getSamples(contract.name);
+      methods[method] = [...(methods[method] || []), gasUsed];
+    }
+  }
+
+  /**
+   * Returns the min, max and average gas used by the deployments and each method called of each contract.
+   */
+  public getReport() {
+    const report: GasReport = {};
+    for (const [contractName, { deployment, methods }] of Object.entries(this.samples)) {
+      report[contractName] = {
+        ...(deployment.length ? { deployment: getStats(deployment) } : {}),
+        methods: Object.entries(methods).reduce(
+          (stats, [method, samples]) => ({ ...stats, [method]: getStats(samples) }),
+          {} as { [method: string]: GasStats },
+        ),
+      };
+    }
+    return report;
+  }
+
+  /**
+   * Discards the gas recorded so far. Deployed contracts are still recognised.
+   */
+  public reset() {
+    this.samples = {};
+  }
+
+  private findContractForFunctionData(data: Buffer) {
+    const contracts = this.contracts.filter(c => c.abi.findEntryForFunctionData(data));
+    return contracts.length === 1 ? contracts[0] : undefined;
+  }
+
+  private getSamples(contractName: string) {
+    if (!this.samples[contractName]) {
+      this.samples[contractName] = { deployment: [], methods: {} };
+    }
+    return this.samples[contractName];
+  }
+}
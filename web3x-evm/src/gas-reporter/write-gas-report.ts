@@ -0,0 +1,32 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { findGasRegressions, formatGasChange, GasReport } from './gas-report';
+
+/**
+ * Writes the report as json, e.g. to be committed as the baseline. Node only.
+ */
+export function writeGasReport(report: GasReport, path: string = 'gas-report.json') {
+  const fs = require('fs');
+  fs.writeFileSync(path, JSON.stringify(report, null, 2) + '\n');
+}
+
+/**
+ * Compares the report with the baseline json file, throwing if the average gas used by any deployment or method
+ * increased by more than the tolerance, a fraction of the baseline. Passes if there's no baseline. Node only.
+ */
+export function checkGasReport(report: GasReport, baselinePath: string, tolerance: number = 0) {
+  const fs = require('fs');
+  if (!fs.existsSync(baselinePath)) {
+    return;
+  }
+  const baseline: GasReport = JSON.parse(fs.readFileSync(baselinePath).toString());
+  const regressions = findGasRegressions(baseline, report, tolerance);
+  if (regressions.length) {
+    throw new Error(`Gas usage increased over ${baselinePath}:\n${regressions.map(formatGasChange).join('\n')}`);
+  }
+}
@@ -32,9 +32,7 @@ export class EvmMemory {
       const byteAddr = address + BigInt(i);
       this.memory[byteAddr.toString(16)] = buffer[i];
     }
-    const topAddr = address + BigInt(buffer.length - 1);
-    const wordNumber = ((topAddr - (topAddr % BigInt(32))) >> BigInt(5)) + BigInt(1);
-    this.activeWords = wordNumber > this.activeWords ? wordNumber : this.activeWords;
+    this.expand(address, BigInt(buffer.length));
   }
 
   public storeWord(address: bigint, word: bigint) {
@@ -45,4 +43,19 @@ export class EvmMemory {
   public activeMemoryWords() {
     return this.activeWords;
   }
+
+  /**
+   * Returns the number of active words memory would have after accessing the given range.
+   */
+  public activeMemoryWordsAfter(address: bigint, length: bigint) {
+    if (length === BigInt(0)) {
+      return this.activeWords;
+    }
+    const wordNumber = (address + length + BigInt(31)) >> BigInt(5);
+    return wordNumber > this.activeWords ? wordNumber : this.activeWords;
+  }
+
+  public expand(address: bigint, length: bigint) {
+    this.activeWords = this.activeMemoryWordsAfter(address, length);
+  }
 }
@@ -0,0 +1,33 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { toBufferBE } from 'bigint-buffer';
+import { Address } from 'web3x/address';
+import { OpCode } from '.';
+import { EvmContext } from '../vm/evm-context';
+
+class BalanceOp implements OpCode {
+  public readonly code = 0x31;
+  public readonly mnemonic = 'BALANCE';
+  public readonly description = 'Get balance of the given account';
+  public readonly gas = 0;
+  public readonly bytes = 1;
+
+  public toString(params: Buffer): string {
+    return `${this.mnemonic}`;
+  }
+
+  public async handle(context: EvmContext) {
+    const address = new Address(toBufferBE(context.stack.pop() % BigInt(2) ** BigInt(160), 20));
+    context.useAccountAccessGas(address, context.gasSchedule.balance);
+    const account = await context.worldState.loadImmutableAccount(address);
+    context.stack.push(account ? account.balance : BigInt(0));
+    context.ip += this.bytes;
+  }
+}
+
+export const Balance = new BalanceOp();
@@ -8,11 +8,11 @@
 import { OpCode } from '.';
 import { EvmContext } from '../vm/evm-context';
 
-class RorOp implements OpCode {
-  public readonly code = 0x1f;
-  public readonly mnemonic = 'ROR';
-  public readonly description = 'Bitwise rotate right';
-  public readonly gas = 3;
+class BaseFeeOp implements OpCode {
+  public readonly code = 0x48;
+  public readonly mnemonic = 'BASEFEE';
+  public readonly description = "Get the block's base fee";
+  public readonly gas = 2;
   public readonly bytes = 1;
 
   public toString(params: Buffer): string {
@@ -20,11 +20,9 @@ class RorOp implements OpCode {
   }
 
   public handle(context: EvmContext) {
-    const v1 = context.stack.pop()!;
-    const v2 = context.stack.pop()!;
-    context.stack.push((v2 >> v1) | (v2 << (BigInt(256) - v1)));
+    context.stack.push(context.blockchainCtx.baseFee || BigInt(0));
     context.ip += this.bytes;
   }
 }
 
-export const Ror = new RorOp();
+export const BaseFee = new BaseFeeOp();
@@ -0,0 +1,36 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { toBigIntBE } from 'bigint-buffer';
+import { OpCode } from '.';
+import { EvmContext } from '../vm/evm-context';
+
+class BlockHashOp implements OpCode {
+  public readonly code = 0x40;
+  public readonly mnemonic = 'BLOCKHASH';
+  public readonly description = 'Get the hash of one of the 256 most recent complete blocks';
+  public readonly gas = 20;
+  public readonly bytes = 1;
+
+  public toString(params: Buffer): string {
+    return `${this.mnemonic}`;
+  }
+
+  public handle(context: EvmContext) {
+    const { blockNumber, last256BlockHashes } = context.blockchainCtx;
+    const requested = context.stack.pop();
+    const age = BigInt(blockNumber) - requested;
+    if (age <= 0 || age > last256BlockHashes.length) {
+      context.stack.push(BigInt(0));
+    } else {
+      context.stack.push(toBigIntBE(last256BlockHashes[last256BlockHashes.length - Number(age)]));
+    }
+    context.ip += this.bytes;
+  }
+}
+
+export const BlockHash = new BlockHashOp();
@@ -9,6 +9,7 @@ import { toBufferBE } from 'bigint-buffer';
 import { Address } from 'web3x/address';
 import { OpCode } from '.';
 import { EvmContext } from '../vm/evm-context';
+import { callGas, Gas, MAX_CALL_DEPTH } from '../vm/gas';
 import { messageCall } from '../vm/message-call';
 
 class CallOp implements OpCode {
@@ -23,7 +24,7 @@ class CallOp implements OpCode {
   }
 
   public async handle(context: EvmContext) {
-    const { stack, worldState, blockchainCtx, memory, origin, executor, gasPrice, callDepth, modify } = context;
+    const { stack, worldState, blockchainCtx, memory, origin, executor, gasPrice, callDepth, modify, tracer } = context;
 
     const gas = stack.pop();
     const addr = stack.pop();
@@ -33,29 +34,77 @@ class CallOp implements OpCode {
     const retOffset = stack.pop();
     const retSize = stack.pop();
 
+    if (!modify && value > BigInt(0)) {
+      throw new Error('Cannot transfer value in a static context.');
+    }
+
+    context.useMemory(inOffset, inSize);
+    context.useMemory(retOffset, retSize);
+
     const recipient = new Address(toBufferBE(addr, 20));
+    context.useAccountAccessGas(recipient, context.gasSchedule.call);
+
+    if (value > BigInt(0)) {
+      context.useGas(BigInt(Gas.GCALLVALUE));
+      const recipientAccount = await worldState.loadImmutableAccount(recipient);
+      if (!recipientAccount || recipientAccount.isEmpty()) {
+        context.useGas(BigInt(Gas.GNEWACCOUNT));
+      }
+    }
+
+    const childGas = callGas(gas, context.availableGas);
+    context.useGas(childGas);
+
+    const executorAccount = await worldState.loadImmutableAccount(executor);
+    if (callDepth >= MAX_CALL_DEPTH || !executorAccount || executorAccount.balance < value) {
+      context.availableGas += childGas;
+      context.stack.push(BigInt(0));
+      context.lastReturned = Buffer.of();
+      context.ip += this.bytes;
+      return;
+    }
+
+    const stipend = value > BigInt(0) ? BigInt(Gas.GCALLSTIPEND) : BigInt(0);
     const calldata = memory.loadN(inOffset, Number(inSize));
 
-    const { txSubstrate, reverted, returned } = await messageCall(
+    if (tracer) {
+      tracer.onCallEnter({
+        type: 'CALL',
+        from: executor,
+        to: recipient,
+        value,
+        gas: childGas + stipend,
+        input: calldata,
+        depth: callDepth + 1,
+      });
+    }
+
+    const { txSubstrate, reverted, returned, remainingGas } = await messageCall(
       worldState,
       blockchainCtx,
       executor,
       origin,
       recipient,
       recipient,
-      gas,
+      childGas + stipend,
       gasPrice,
       value,
       value,
       calldata,
       callDepth + 1,
       modify,
+      tracer,
     );
 
+    if (tracer) {
+      tracer.onCallExit({ gasUsed: childGas + stipend - remainingGas, output: returned, reverted });
+    }
+
+    context.availableGas += remainingGas;
     context.stack.push(BigInt(reverted ? 0 : 1));
 
     if (txSubstrate) {
-      context.txSubstrate.logs.push(...txSubstrate.logs);
+      context.txSubstrate.merge(txSubstrate);
     }
 
     context.memory.storeN(retOffset, returned.slice(0, Number(retSize)));
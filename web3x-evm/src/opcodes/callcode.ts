@@ -0,0 +1,110 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { toBufferBE } from 'bigint-buffer';
+import { Address } from 'web3x/address';
+import { OpCode } from '.';
+import { EvmContext } from '../vm/evm-context';
+import { callGas, Gas, MAX_CALL_DEPTH } from '../vm/gas';
+import { messageCall } from '../vm/message-call';
+
+class CallCodeOp implements OpCode {
+  public readonly code = 0xf2;
+  public readonly mnemonic = 'CALLCODE';
+  public readonly description = "Message-call into this account with an alternative account's code";
+  public readonly gas = 0;
+  public readonly bytes = 1;
+
+  public toString(params: Buffer): string {
+    return `${this.mnemonic}`;
+  }
+
+  public async handle(context: EvmContext) {
+    const { stack, worldState, blockchainCtx, memory, origin, executor, gasPrice, callDepth, modify, tracer } = context;
+
+    const gas = stack.pop();
+    const addr = stack.pop();
+    const value = stack.pop();
+    const inOffset = stack.pop();
+    const inSize = stack.pop();
+    const retOffset = stack.pop();
+    const retSize = stack.pop();
+
+    context.useMemory(inOffset, inSize);
+    context.useMemory(retOffset, retSize);
+
+    const codeFrom = new Address(toBufferBE(addr, 20));
+    context.useAccountAccessGas(codeFrom, context.gasSchedule.call);
+
+    if (value > BigInt(0)) {
+      context.useGas(BigInt(Gas.GCALLVALUE));
+    }
+
+    const childGas = callGas(gas, context.availableGas);
+    context.useGas(childGas);
+
+    const executorAccount = await worldState.loadImmutableAccount(executor);
+    if (callDepth >= MAX_CALL_DEPTH || !executorAccount || executorAccount.balance < value) {
+      context.availableGas += childGas;
+      context.stack.push(BigInt(0));
+      context.lastReturned = Buffer.of();
+      context.ip += this.bytes;
+      return;
+    }
+
+    const stipend = value > BigInt(0) ? BigInt(Gas.GCALLSTIPEND) : BigInt(0);
+    const calldata = memory.loadN(inOffset, Number(inSize));
+
+    // The value is "transferred" from this account to itself, so only the balance check above has any effect.
+    if (tracer) {
+      tracer.onCallEnter({
+        type: 'CALLCODE',
+        from: executor,
+        to: codeFrom,
+        value,
+        gas: childGas + stipend,
+        input: calldata,
+        depth: callDepth + 1,
+      });
+    }
+
+    const { txSubstrate, reverted, returned, remainingGas } = await messageCall(
+      worldState,
+      blockchainCtx,
+      executor,
+      origin,
+      executor,
+      codeFrom,
+      childGas + stipend,
+      gasPrice,
+      value,
+      value,
+      calldata,
+      callDepth + 1,
+      modify,
+      tracer,
+    );
+
+    if (tracer) {
+      tracer.onCallExit({ gasUsed: childGas + stipend - remainingGas, output: returned, reverted });
+    }
+
+    context.availableGas += remainingGas;
+    context.stack.push(BigInt(reverted ? 0 : 1));
+
+    if (txSubstrate) {
+      context.txSubstrate.merge(txSubstrate);
+    }
+
+    context.memory.storeN(retOffset, returned.slice(0, Number(retSize)));
+    context.lastReturned = returned;
+
+    context.ip += this.bytes;
+  }
+}
+
+export const CallCode = new CallCodeOp();
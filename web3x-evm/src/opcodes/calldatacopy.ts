@@ -7,6 +7,7 @@
 
 import { OpCode } from '.';
 import { EvmContext } from '../vm/evm-context';
+import { copyCost } from '../vm/gas';
 
 class CallDataCopyOp implements OpCode {
   public readonly code = 0x37;
@@ -22,9 +23,11 @@ class CallDataCopyOp implements OpCode {
   public handle(context: EvmContext) {
     const target = context.stack.pop();
     const source = Number(context.stack.pop());
-    const length = Number(context.stack.pop());
-    const buf = Buffer.alloc(length);
-    context.calldata.copy(buf, 0, source, source + length);
+    const length = context.stack.pop();
+    context.useGas(copyCost(length));
+    context.useMemory(target, length);
+    const buf = Buffer.alloc(Number(length));
+    context.calldata.slice(source, source + buf.length).copy(buf);
     context.memory.storeN(target, buf);
     context.ip += this.bytes;
   }
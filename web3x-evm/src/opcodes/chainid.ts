@@ -8,11 +8,11 @@
 import { OpCode } from '.';
 import { EvmContext } from '../vm/evm-context';
 
-class RolOp implements OpCode {
-  public readonly code = 0x1e;
-  public readonly mnemonic = 'ROL';
-  public readonly description = 'Bitwise rotate left';
-  public readonly gas = 3;
+class ChainIdOp implements OpCode {
+  public readonly code = 0x46;
+  public readonly mnemonic = 'CHAINID';
+  public readonly description = 'Get the chain id';
+  public readonly gas = 2;
   public readonly bytes = 1;
 
   public toString(params: Buffer): string {
@@ -20,11 +20,9 @@ class RolOp implements OpCode {
   }
 
   public handle(context: EvmContext) {
-    const v1 = context.stack.pop()!;
-    const v2 = context.stack.pop()!;
-    context.stack.push((v2 << v1) % BigInt(256) ** BigInt(2) | (v2 >> (BigInt(256) - v1)));
+    context.stack.push(BigInt(context.blockchainCtx.chainId));
     context.ip += this.bytes;
   }
 }
 
-export const Rol = new RolOp();
+export const ChainId = new ChainIdOp();
@@ -13,7 +13,7 @@ class CoinbaseOp implements OpCode {
   public readonly code = 0x41;
   public readonly mnemonic = 'COINBASE';
   public readonly description = 'Get the blocks coinbase adddress.';
-  public readonly gas = 1;
+  public readonly gas = 2;
   public readonly bytes = 1;
 
   public toString(params: Buffer): string {
@@ -7,6 +7,7 @@
 
 import { OpCode } from '.';
 import { EvmContext } from '../vm/evm-context';
+import { copyCost } from '../vm/gas';
 
 class CopyCodeOp implements OpCode {
   public readonly code = 0x39;
@@ -22,9 +23,11 @@ class CopyCodeOp implements OpCode {
   public handle(context: EvmContext) {
     const destIndex = context.stack.pop()!;
     const runtimeOffset = Number(context.stack.pop()!);
-    const runtimeLength = Number(context.stack.pop()!);
-    const code = Buffer.alloc(runtimeLength);
-    context.code.slice(runtimeOffset, runtimeOffset + runtimeLength).copy(code);
+    const runtimeLength = context.stack.pop()!;
+    context.useGas(copyCost(runtimeLength));
+    context.useMemory(destIndex, runtimeLength);
+    const code = Buffer.alloc(Number(runtimeLength));
+    context.code.slice(runtimeOffset, runtimeOffset + code.length).copy(code);
     context.memory.storeN(destIndex, code);
     context.ip += this.bytes;
   }
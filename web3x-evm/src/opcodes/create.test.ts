@@ -0,0 +1,153 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { toBigIntBE } from 'bigint-buffer';
+import BN from 'bn.js';
+import levelup from 'levelup';
+import memdown from 'memdown';
+import * as rlp from 'rlp';
+import { Address } from 'web3x/address';
+import { sha3Buffer } from 'web3x/utils';
+import { BlockchainContext } from '../blockchain';
+import { contractCreation } from '../vm/contract-creation';
+import { messageCall } from '../vm/message-call';
+import { WorldState } from '../world/world-state';
+
+describe('opcodes', () => {
+  describe('create', () => {
+    const sender = Address.fromString('0x0000000000000000000000000000000000000010');
+    const factory = Address.fromString('0x0000000000000000000000000000000000000020');
+    const blockchainCtx: BlockchainContext = {
+      timestamp: 0,
+      difficulty: BigInt(0),
+      blockGasLimit: BigInt(8000000),
+      chainId: 1,
+      hardfork: 'istanbul',
+      blockNumber: 0,
+      last256BlockHashes: [],
+      coinbase: Address.ZERO,
+    };
+
+    // PUSH1 0 DUP1 LOG0, MSTORE8 0xfe at 0, RETURN 1 byte from 0.
+    const initCode = '600080a060fe60005360016000f3';
+    // Places the 14 byte init code at memory offset 18, creates it, and stores the result in slot 0.
+    const storeInitCode = '6d' + initCode + '600052';
+    const storeResult = '600055' + '00';
+
+    let worldState: WorldState;
+
+    const deployFactory = async (code: string) => {
+      worldState.checkpoint();
+      await worldState.createAccount(sender, BigInt(0));
+      await worldState.createAccount(factory, BigInt(0), BigInt(1), Buffer.from(code, 'hex'));
+      await worldState.commit();
+    };
+
+    const callFactory = () =>
+      messageCall(
+        worldState,
+        blockchainCtx,
+        sender,
+        sender,
+        factory,
+        factory,
+        BigInt(1000000),
+        BigInt(0),
+        BigInt(0),
+        BigInt(0),
+        Buffer.of(),
+        0,
+        true,
+      );
+
+    const getCreatedAddress = async () => {
+      const factoryAccount = await worldState.loadImmutableAccount(factory);
+      const value = await factoryAccount!.storage.get(Buffer.alloc(32));
+      return new Address(value.slice(12));
+    };
+
+    beforeEach(async () => {
+      worldState = await WorldState.fromDb(levelup(memdown()));
+    });
+
+    it('should create contract at address derived from nonce', async () => {
+      await deployFactory(storeInitCode + '600e60126000f0' + storeResult);
+
+      const { reverted, txSubstrate } = await callFactory();
+      expect(reverted).toBe(false);
+
+      const expectedAddress = new Address(sha3Buffer(rlp.encode([factory.toBuffer(), new BN(1)])).slice(12));
+      expect(await getCreatedAddress()).toEqual(expectedAddress);
+
+      const created = await worldState.loadImmutableAccount(expectedAddress);
+      expect(created!.code).toEqual(Buffer.of(0xfe));
+      expect(created!.nonce).toBe(BigInt(1));
+
+      const factoryAccount = await worldState.loadImmutableAccount(factory);
+      expect(factoryAccount!.nonce).toBe(BigInt(2));
+
+      expect(txSubstrate!.logs).toHaveLength(1);
+      expect(txSubstrate!.logs[0].address).toEqual(expectedAddress);
+    });
+
+    it('should create contract at address derived from salt', async () => {
+      await deployFactory(storeInitCode + '602a600e60126000f5' + storeResult);
+
+      const { reverted } = await callFactory();
+      expect(reverted).toBe(false);
+
+      const salt = Buffer.alloc(32);
+      salt[31] = 42;
+      const expectedAddress = new Address(
+        sha3Buffer(
+          Buffer.concat([Buffer.of(0xff), factory.toBuffer(), salt, sha3Buffer(Buffer.from(initCode, 'hex'))]),
+        ).slice(12),
+      );
+      expect(await getCreatedAddress()).toEqual(expectedAddress);
+
+      const created = await worldState.loadImmutableAccount(expectedAddress);
+      expect(created!.code).toEqual(Buffer.of(0xfe));
+    });
+
+    it('should fail to create contract twice with same salt', async () => {
+      await deployFactory(storeInitCode + '602a600e60126000f5' + storeResult);
+
+      await callFactory();
+      expect(toBigIntBE((await getCreatedAddress()).toBuffer())).not.toBe(BigInt(0));
+
+      const { reverted } = await callFactory();
+      expect(reverted).toBe(false);
+      expect(await getCreatedAddress()).toEqual(Address.ZERO);
+    });
+
+    it('should only return data from init code that reverts', async () => {
+      await deployFactory('00');
+      const create = (code: string, gas: number) =>
+        contractCreation(
+          worldState,
+          blockchainCtx,
+          sender,
+          sender,
+          BigInt(gas),
+          BigInt(0),
+          BigInt(0),
+          Buffer.from(code, 'hex'),
+          0,
+          true,
+        );
+
+      // MSTORE8 0xfe at 0, REVERT 1 byte from 0.
+      const reverted = await create('60fe60005360016000fd', 100);
+      expect(reverted).toMatchObject({ reverted: true, returned: Buffer.of(0xfe), error: undefined });
+
+      // Returns 1 byte of code, without the gas to deposit it.
+      const aborted = await create('60fe60005360016000f3', 100);
+      expect(aborted).toMatchObject({ reverted: true, returned: Buffer.of() });
+      expect(aborted.error!.message).toBe('Out of gas depositing contract code.');
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { toBigIntBE } from 'bigint-buffer';
+import { OpCode } from '.';
+import { contractCreation } from '../vm/contract-creation';
+import { EvmContext } from '../vm/evm-context';
+import { allButOne64th, MAX_CALL_DEPTH } from '../vm/gas';
+
+class CreateOp implements OpCode {
+  public readonly code = 0xf0;
+  public readonly mnemonic = 'CREATE';
+  public readonly description = 'Create a new account with associated code';
+  public readonly gas = 32000;
+  public readonly bytes = 1;
+
+  public toString(params: Buffer): string {
+    return `${this.mnemonic}`;
+  }
+
+  public async handle(context: EvmContext) {
+    const { stack, worldState, blockchainCtx, memory, origin, executor, gasPrice, callDepth, modify, tracer } = context;
+
+    const [value, offset, length] = stack.popN(3);
+
+    if (!modify) {
+      throw new Error('Cannot create contract in a static context.');
+    }
+
+    context.useMemory(offset, length);
+    const initCode = memory.loadN(offset, Number(length));
+
+    const childGas = allButOne64th(context.availableGas);
+    context.useGas(childGas);
+
+    const executorAccount = (await worldState.loadAccount(executor))!;
+    if (callDepth >= MAX_CALL_DEPTH || executorAccount.balance < value) {
+      context.availableGas += childGas;
+      context.stack.push(BigInt(0));
+      context.lastReturned = Buffer.of();
+      context.ip += this.bytes;
+      return;
+    }
+
+    executorAccount.nonce++;
+
+    if (tracer) {
+      tracer.onCallEnter({
+        type: 'CREATE',
+        from: executor,
+        value,
+        gas: childGas,
+        input: initCode,
+        depth: callDepth + 1,
+      });
+    }
+
+    const { contractAddress, txSubstrate, reverted, returned, remainingGas } = await contractCreation(
+      worldState,
+      blockchainCtx,
+      executor,
+      origin,
+      childGas,
+      gasPrice,
+      value,
+      initCode,
+      callDepth + 1,
+      modify,
+      undefined,
+      tracer,
+    );
+
+    if (tracer) {
+      tracer.onCallExit({ gasUsed: childGas - remainingGas, output: returned, reverted, contractAddress });
+    }
+
+    context.availableGas += remainingGas;
+    context.stack.push(reverted ? BigInt(0) : toBigIntBE(contractAddress.toBuffer()));
+
+    if (txSubstrate) {
+      context.txSubstrate.merge(txSubstrate);
+    }
+
+    context.lastReturned = returned;
+
+    context.ip += this.bytes;
+  }
+}
+
+export const Create = new CreateOp();
@@ -9,6 +9,7 @@ import { toBufferBE } from 'bigint-buffer';
 import { Address } from 'web3x/address';
 import { OpCode } from '.';
 import { EvmContext } from '../vm/evm-context';
+import { callGas, MAX_CALL_DEPTH } from '../vm/gas';
 import { messageCall } from '../vm/message-call';
 
 class DelegateCallOp implements OpCode {
@@ -35,6 +36,7 @@ class DelegateCallOp implements OpCode {
       callDepth,
       modify,
       executionValue,
+      tracer,
     } = context;
 
     const gas = stack.pop();
@@ -44,29 +46,63 @@ class DelegateCallOp implements OpCode {
     const retOffset = stack.pop();
     const retSize = stack.pop();
 
+    context.useMemory(inOffset, inSize);
+    context.useMemory(retOffset, retSize);
+
     const recipient = new Address(toBufferBE(addr, 20));
+    context.useAccountAccessGas(recipient, context.gasSchedule.call);
+
+    const childGas = callGas(gas, context.availableGas);
+    context.useGas(childGas);
+
+    if (callDepth >= MAX_CALL_DEPTH) {
+      context.availableGas += childGas;
+      context.stack.push(BigInt(0));
+      context.lastReturned = Buffer.of();
+      context.ip += this.bytes;
+      return;
+    }
+
     const calldata = memory.loadN(inOffset, Number(inSize));
 
-    const { txSubstrate, reverted, returned } = await messageCall(
+    if (tracer) {
+      tracer.onCallEnter({
+        type: 'DELEGATECALL',
+        from: executor,
+        to: recipient,
+        value: executionValue,
+        gas: childGas,
+        input: calldata,
+        depth: callDepth + 1,
+      });
+    }
+
+    const { txSubstrate, reverted, returned, remainingGas } = await messageCall(
       worldState,
       blockchainCtx,
       caller,
       origin,
       executor,
       recipient,
-      gas,
+      childGas,
       gasPrice,
       BigInt(0),
       executionValue,
       calldata,
       callDepth + 1,
       modify,
+      tracer,
     );
 
+    if (tracer) {
+      tracer.onCallExit({ gasUsed: childGas - remainingGas, output: returned, reverted });
+    }
+
+    context.availableGas += remainingGas;
     context.stack.push(BigInt(reverted ? 0 : 1));
 
     if (txSubstrate) {
-      context.txSubstrate.logs.push(...txSubstrate.logs);
+      context.txSubstrate.merge(txSubstrate);
     }
 
     context.memory.storeN(retOffset, returned.slice(0, Number(retSize)));
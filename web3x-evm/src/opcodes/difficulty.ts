@@ -12,7 +12,7 @@ class DifficultyOp implements OpCode {
   public readonly code = 0x44;
   public readonly mnemonic = 'DIFFICULTY';
   public readonly description = 'Get the blocks difficulty.';
-  public readonly gas = 1;
+  public readonly gas = 2;
   public readonly bytes = 1;
 
   public toString(params: Buffer): string {
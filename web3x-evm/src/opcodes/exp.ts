@@ -9,6 +9,7 @@ import { toBigIntBE, toBufferBE } from 'bigint-buffer';
 import BN from 'bn.js';
 import { OpCode } from '.';
 import { EvmContext } from '../vm/evm-context';
+import { Gas } from '../vm/gas';
 
 const TWO_POW256 = new BN('10000000000000000000000000000000000000000000000000000000000000000', 16);
 
@@ -25,6 +26,7 @@ class ExpOp implements OpCode {
 
   public handle(context: EvmContext) {
     const [base, exponent] = context.stack.popN(2);
+    context.useGas(BigInt(Gas.GEXPBYTE * byteLength(exponent)));
 
     const m = BN.red(TWO_POW256);
     const bnBase = new BN(toBufferBE(base, 32)).toRed(m);
@@ -36,6 +38,10 @@ class ExpOp implements OpCode {
   }
 }
 
+function byteLength(value: bigint) {
+  return value === BigInt(0) ? 0 : Math.ceil(value.toString(16).length / 2);
+}
+
 /*
 function pow(a: bigint, num: bigint) {
   if (num === BigInt(0)) {
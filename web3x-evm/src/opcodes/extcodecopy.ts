@@ -0,0 +1,44 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { toBufferBE } from 'bigint-buffer';
+import { Address } from 'web3x/address';
+import { OpCode } from '.';
+import { EvmContext } from '../vm/evm-context';
+import { copyCost } from '../vm/gas';
+
+class ExtCodeCopyOp implements OpCode {
+  public readonly code = 0x3c;
+  public readonly mnemonic = 'EXTCODECOPY';
+  public readonly description = "Copy an account's code to memory";
+  public readonly gas = 0;
+  public readonly bytes = 1;
+
+  public toString(params: Buffer): string {
+    return `${this.mnemonic}`;
+  }
+
+  public async handle(context: EvmContext) {
+    const address = new Address(toBufferBE(context.stack.pop() % BigInt(2) ** BigInt(160), 20));
+    const destIndex = context.stack.pop();
+    const codeOffset = Number(context.stack.pop());
+    const length = context.stack.pop();
+    context.useAccountAccessGas(address, context.gasSchedule.extCode);
+    context.useGas(copyCost(length));
+    context.useMemory(destIndex, length);
+
+    const account = await context.worldState.loadImmutableAccount(address);
+    const code = Buffer.alloc(Number(length));
+    if (account) {
+      account.code.slice(codeOffset, codeOffset + code.length).copy(code);
+    }
+    context.memory.storeN(destIndex, code);
+    context.ip += this.bytes;
+  }
+}
+
+export const ExtCodeCopy = new ExtCodeCopyOp();
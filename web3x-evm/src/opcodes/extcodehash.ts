@@ -0,0 +1,38 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { toBigIntBE, toBufferBE } from 'bigint-buffer';
+import { Address } from 'web3x/address';
+import { sha3Buffer } from 'web3x/utils';
+import { OpCode } from '.';
+import { EvmContext } from '../vm/evm-context';
+
+class ExtCodeHashOp implements OpCode {
+  public readonly code = 0x3f;
+  public readonly mnemonic = 'EXTCODEHASH';
+  public readonly description = "Get hash of an account's code";
+  public readonly gas = 0;
+  public readonly bytes = 1;
+
+  public toString(params: Buffer): string {
+    return `${this.mnemonic}`;
+  }
+
+  public async handle(context: EvmContext) {
+    const address = new Address(toBufferBE(context.stack.pop() % BigInt(2) ** BigInt(160), 20));
+    context.useAccountAccessGas(address, context.gasSchedule.extCodeHash);
+    const account = await context.worldState.loadImmutableAccount(address);
+    if (!account || account.isEmpty()) {
+      context.stack.push(BigInt(0));
+    } else {
+      context.stack.push(toBigIntBE(sha3Buffer(account.code)));
+    }
+    context.ip += this.bytes;
+  }
+}
+
+export const ExtCodeHash = new ExtCodeHashOp();
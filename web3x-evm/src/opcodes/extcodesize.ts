@@ -5,6 +5,8 @@
   https://opensource.org/licenses/MIT
 */
 
+import { toBufferBE } from 'bigint-buffer';
+import { Address } from 'web3x/address';
 import { OpCode } from '.';
 import { EvmContext } from '../vm/evm-context';
 
@@ -12,7 +14,7 @@ class ExtCodeSizeOp implements OpCode {
   public readonly code = 0x3b;
   public readonly mnemonic = 'EXTCODESIZE';
   public readonly description = 'Get size of an accounts code';
-  public readonly gas = 700;
+  public readonly gas = 0;
   public readonly bytes = 1;
 
   public toString(params: Buffer): string {
@@ -20,9 +22,10 @@ class ExtCodeSizeOp implements OpCode {
   }
 
   public async handle(context: EvmContext) {
-    const address = context.stack.pop() % BigInt(2) ** BigInt(160);
-    const account = await context.worldState.loadAccount(address);
-    context.stack.push(BigInt(account!.code.length));
+    const address = new Address(toBufferBE(context.stack.pop() % BigInt(2) ** BigInt(160), 20));
+    context.useAccountAccessGas(address, context.gasSchedule.extCode);
+    const account = await context.worldState.loadImmutableAccount(address);
+    context.stack.push(BigInt(account ? account.code.length : 0));
     context.ip += this.bytes;
   }
 }
@@ -12,7 +12,7 @@ class GasLimitOp implements OpCode {
   public readonly code = 0x45;
   public readonly mnemonic = 'GASLIMIT';
   public readonly description = 'Get the blocks gas limit.';
-  public readonly gas = 1;
+  public readonly gas = 2;
   public readonly bytes = 1;
 
   public toString(params: Buffer): string {
@@ -12,7 +12,7 @@ class GasPriceOp implements OpCode {
   public readonly code = 0x3a;
   public readonly mnemonic = 'GASPRICE';
   public readonly description = 'Get the transaction gas price.';
-  public readonly gas = 1;
+  public readonly gas = 2;
   public readonly bytes = 1;
 
   public toString(params: Buffer): string {
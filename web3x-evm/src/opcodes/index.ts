@@ -6,26 +6,36 @@
 */
 
 import { EvmContext } from '../vm/evm-context';
+import { Hardfork, hardforkAtLeast, HARDFORKS } from '../vm/hardfork';
 import { Add } from './add';
 import { AddMod } from './addmod';
 import { Address } from './address';
 import { And } from './and';
+import { Balance } from './balance';
+import { BaseFee } from './basefee';
+import { BlockHash } from './blockhash';
 import { Byte } from './byte';
 import { Call } from './call';
+import { CallCode } from './callcode';
 import { CallDataCopy } from './calldatacopy';
 import { CallDataLoad } from './calldataload';
 import { CallDataSize } from './calldatasize';
 import { Caller } from './caller';
 import { CallValue } from './callvalue';
+import { ChainId } from './chainid';
 import { CodeSize } from './codesize';
 import { Coinbase } from './coinbase';
 import { CopyCode } from './copycode';
+import { Create } from './create';
+import { Create2 } from './create2';
 import { DelegateCall } from './delegatecall';
 import { Difficulty } from './difficulty';
 import { Div } from './div';
 import { DupOps } from './dup';
 import { Eq } from './eq';
 import { Exp } from './exp';
+import { ExtCodeCopy } from './extcodecopy';
+import { ExtCodeHash } from './extcodehash';
 import { ExtCodeSize } from './extcodesize';
 import { Gas } from './gas';
 import { GasLimit } from './gaslimit';
@@ -56,9 +66,10 @@ import { Return } from './return';
 import { ReturnDataCopy } from './returndatacopy';
 import { ReturnDataSize } from './returndatasize';
 import { Revert } from './revert';
-import { Rol } from './rol';
-import { Ror } from './ror';
+import { Sar } from './sar';
 import { Sdiv } from './sdiv';
+import { SelfBalance } from './selfbalance';
+import { SelfDestruct } from './selfdestruct';
 import { Sgt } from './sgt';
 import { Sha3 } from './sha3';
 import { Shl } from './shl';
@@ -95,9 +106,14 @@ const opCodes: OpCode[] = [
   AddMod,
   Address,
   And,
+  Balance,
+  BaseFee,
+  BlockHash,
   Byte,
   Call,
+  CallCode,
   Caller,
+  ChainId,
   CallDataCopy,
   CallDataLoad,
   CallDataSize,
@@ -105,11 +121,15 @@ const opCodes: OpCode[] = [
   CodeSize,
   Coinbase,
   CopyCode,
+  Create,
+  Create2,
   DelegateCall,
   Difficulty,
   Div,
   Eq,
   Exp,
+  ExtCodeCopy,
+  ExtCodeHash,
   ExtCodeSize,
   Gas,
   GasLimit,
@@ -131,9 +151,10 @@ const opCodes: OpCode[] = [
   Origin,
   Pc,
   Pop,
-  Rol,
-  Ror,
+  Sar,
   Sdiv,
+  SelfBalance,
+  SelfDestruct,
   Sgt,
   Shl,
   Shr,
@@ -158,3 +179,44 @@ const opCodes: OpCode[] = [
 ];
 
 export const OpCodes: { [code: number]: OpCode } = opCodes.reduce((a, c) => ({ ...a, [c.code]: c }), {});
+
+// Opcodes added after byzantium, and the hardfork they were added in.
+const addedIn: { [code: number]: Hardfork } = {
+  [Shl.code]: 'constantinople',
+  [Shr.code]: 'constantinople',
+  [Sar.code]: 'constantinople',
+  [Create2.code]: 'constantinople',
+  [ExtCodeHash.code]: 'constantinople',
+  [ChainId.code]: 'istanbul',
+  [SelfBalance.code]: 'istanbul',
+  [BaseFee.code]: 'london',
+};
+
+const hardforkOpCodes = HARDFORKS.reduce(
+  (a, hardfork) => ({
+    ...a,
+    [hardfork]: opCodes
+      .filter(op => !addedIn[op.code] || hardforkAtLeast(hardfork, addedIn[op.code]))
+      .reduce((ops, c) => ({ ...ops, [c.code]: c }), {}),
+  }),
+  {} as { [hardfork in Hardfork]: { [code: number]: OpCode } },
+);
+
+/**
+ * The opcodes available under the given hardfork.
+ */
+export function getOpCodes(hardfork: Hardfork) {
+  return hardforkOpCodes[hardfork];
+}
+
+/**
+ * The index of the instruction at the given byte offset in the code, counting push data as part of its instruction.
+ */
+export function getInstructionIndex(code: Buffer, pc: number) {
+  let instruction = 0;
+  for (let bytes = 0; bytes < pc; ++instruction) {
+    const opCode = OpCodes[code[bytes]];
+    bytes += opCode ? opCode.bytes : 1;
+  }
+  return instruction;
+}
@@ -8,6 +8,7 @@
 import { toBufferBE } from 'bigint-buffer';
 import { OpCode } from '.';
 import { EvmContext } from '../vm/evm-context';
+import { Gas } from '../vm/gas';
 
 class LogOp implements OpCode {
   public readonly mnemonic: string;
@@ -17,7 +18,7 @@ class LogOp implements OpCode {
 
   constructor(readonly code: number, private topics: number) {
     this.bytes = 1;
-    this.gas = 375 * (topics + 1);
+    this.gas = Gas.GLOG + Gas.GLOGTOPIC * topics;
     this.mnemonic = 'LOG' + topics;
     this.description = `Append log record with ${topics} topics`;
   }
@@ -29,6 +30,8 @@ class LogOp implements OpCode {
   public handle(context: EvmContext) {
     const offset = context.stack.pop();
     const length = context.stack.pop();
+    context.useGas(BigInt(Gas.GLOGDATA) * length);
+    context.useMemory(offset, length);
     const data = context.memory.loadN(offset, Number(length));
 
     const topics: Buffer[] = [];
@@ -21,6 +21,7 @@ class MloadOp implements OpCode {
 
   public handle(context: EvmContext) {
     const address = context.stack.pop()!;
+    context.useMemory(address, BigInt(32));
     context.stack.push(context.memory.loadWord(address));
     context.ip += this.bytes;
   }
@@ -12,7 +12,7 @@ class ModOp implements OpCode {
   public readonly code = 0x06;
   public readonly mnemonic = 'MOD';
   public readonly description = 'Modulo remainder operation';
-  public readonly gas = 3;
+  public readonly gas = 5;
   public readonly bytes = 1;
 
   public toString(params: Buffer): string {
@@ -22,6 +22,7 @@ class MstoreOp implements OpCode {
   public handle(context: EvmContext) {
     const address = context.stack.pop()!;
     const value = context.stack.pop()!;
+    context.useMemory(address, BigInt(32));
     context.memory.storeWord(address, value);
     context.ip += this.bytes;
   }
@@ -22,6 +22,7 @@ class Mstore8Op implements OpCode {
 
   public handle(context: EvmContext) {
     const [address, value] = context.stack.popN(2);
+    context.useMemory(address, BigInt(1));
     context.memory.storeN(address, toBufferBE(value % BigInt(256), 1));
     context.ip += this.bytes;
   }
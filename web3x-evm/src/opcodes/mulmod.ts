@@ -12,7 +12,7 @@ class MulModOp implements OpCode {
   public readonly code = 0x09;
   public readonly mnemonic = 'MULMOD';
   public readonly description = 'Modulo multiplication operation';
-  public readonly gas = 5;
+  public readonly gas = 8;
   public readonly bytes = 1;
 
   public toString(params: Buffer): string {
@@ -0,0 +1,109 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { toBigIntBE } from 'bigint-buffer';
+import levelup from 'levelup';
+import memdown from 'memdown';
+import { Address } from 'web3x/address';
+import { BlockchainContext } from '../blockchain';
+import { messageCall } from '../vm/message-call';
+import { WorldState } from '../world/world-state';
+
+describe('opcodes', () => {
+  const sender = Address.fromString('0x0000000000000000000000000000000000000010');
+  const contract = Address.fromString('0x0000000000000000000000000000000000000020');
+  const library = Address.fromString('0x0000000000000000000000000000000000000030');
+  const blockHash = Buffer.alloc(32, 0xab);
+  const blockchainCtx: BlockchainContext = {
+    timestamp: 0,
+    difficulty: BigInt(0),
+    blockGasLimit: BigInt(8000000),
+    blockNumber: 1,
+    last256BlockHashes: [blockHash],
+    coinbase: Address.ZERO,
+    chainId: 1,
+    hardfork: 'istanbul',
+  };
+
+  let worldState: WorldState;
+
+  const deploy = async (address: Address, code: string) => {
+    worldState.checkpoint();
+    await worldState.createAccount(address, BigInt(0), BigInt(1), Buffer.from(code, 'hex'));
+    await worldState.commit();
+  };
+
+  const call = () =>
+    messageCall(
+      worldState,
+      blockchainCtx,
+      sender,
+      sender,
+      contract,
+      contract,
+      BigInt(1000000),
+      BigInt(0),
+      BigInt(0),
+      BigInt(0),
+      Buffer.of(),
+      0,
+      true,
+    );
+
+  const getStorage = async (address: Address, slot: number) => {
+    const account = await worldState.loadImmutableAccount(address);
+    const key = Buffer.alloc(32);
+    key[31] = slot;
+    const value = await account!.storage.get(key);
+    return value ? toBigIntBE(value) : BigInt(0);
+  };
+
+  beforeEach(async () => {
+    worldState = await WorldState.fromDb(levelup(memdown()));
+    worldState.checkpoint();
+    await worldState.createAccount(sender, BigInt(0));
+    await worldState.commit();
+  });
+
+  describe('callcode', () => {
+    it('should run code of other account against own storage', async () => {
+      // SSTORE CALLER at 0.
+      await deploy(library, '33600055');
+      // CALLCODE library with all gas, SSTORE result at 1.
+      await deploy(contract, '6000600060006000600073' + library.toBuffer().toString('hex') + '5af2600155');
+
+      const { reverted } = await call();
+      expect(reverted).toBe(false);
+      expect(await getStorage(contract, 1)).toBe(BigInt(1));
+      expect(await getStorage(contract, 0)).toBe(toBigIntBE(contract.toBuffer()));
+      expect(await getStorage(library, 0)).toBe(BigInt(0));
+    });
+  });
+
+  describe('blockhash', () => {
+    it('should return hash of recent block and zero otherwise', async () => {
+      // SSTORE BLOCKHASH(0) at 0, SSTORE BLOCKHASH(1) at 1.
+      await deploy(contract, '600040600055600140600155');
+
+      const { reverted } = await call();
+      expect(reverted).toBe(false);
+      expect(await getStorage(contract, 0)).toBe(toBigIntBE(blockHash));
+      expect(await getStorage(contract, 1)).toBe(BigInt(0));
+    });
+  });
+
+  describe('returndatacopy', () => {
+    it('should fault when reading beyond return data', async () => {
+      // RETURNDATACOPY 1 byte from offset 0 with no return data.
+      await deploy(contract, '6001600060003e');
+
+      const { reverted, remainingGas } = await call();
+      expect(reverted).toBe(true);
+      expect(remainingGas).toBe(BigInt(0));
+    });
+  });
+});
@@ -13,7 +13,7 @@ class OriginOp implements OpCode {
   public readonly code = 0x32;
   public readonly mnemonic = 'ORIGIN';
   public readonly description = 'Get the origin address.';
-  public readonly gas = 1;
+  public readonly gas = 2;
   public readonly bytes = 1;
 
   public toString(params: Buffer): string {
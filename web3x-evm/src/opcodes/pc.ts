@@ -12,7 +12,7 @@ class PcOp implements OpCode {
   public readonly code = 0x58;
   public readonly mnemonic = 'PC';
   public readonly description = 'Get program counter prior to this instructions incrementing';
-  public readonly gas = 1;
+  public readonly gas = 2;
   public readonly bytes = 1;
 
   public toString(params: Buffer): string {
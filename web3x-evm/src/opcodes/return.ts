@@ -20,10 +20,11 @@ class ReturnOp implements OpCode {
   }
 
   public handle(context: EvmContext) {
-    context.halt = true;
     const index = context.stack.pop()!;
-    const length = Number(context.stack.pop()!);
-    context.returned = context.memory.loadN(index, length);
+    const length = context.stack.pop()!;
+    context.useMemory(index, length);
+    context.halt = true;
+    context.returned = context.memory.loadN(index, Number(length));
     context.ip += this.bytes;
   }
 }
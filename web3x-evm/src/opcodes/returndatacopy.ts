@@ -7,6 +7,7 @@
 
 import { OpCode } from '.';
 import { EvmContext } from '../vm/evm-context';
+import { copyCost } from '../vm/gas';
 
 class ReturnDataCopyOp implements OpCode {
   public readonly code = 0x3e;
@@ -21,9 +22,14 @@ class ReturnDataCopyOp implements OpCode {
 
   public handle(context: EvmContext) {
     const target = context.stack.pop();
-    const source = Number(context.stack.pop());
-    const length = Number(context.stack.pop());
-    const buf = context.lastReturned.slice(source, source + length);
+    const source = context.stack.pop();
+    const length = context.stack.pop();
+    context.useGas(copyCost(length));
+    context.useMemory(target, length);
+    if (source + length > BigInt(context.lastReturned.length)) {
+      throw new Error('Return data copy out of bounds.');
+    }
+    const buf = context.lastReturned.slice(Number(source), Number(source + length));
     context.memory.storeN(target, buf);
     context.ip += this.bytes;
   }
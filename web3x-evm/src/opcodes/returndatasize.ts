@@ -12,7 +12,7 @@ class ReturnDataSizeOp implements OpCode {
   public readonly code = 0x3d;
   public readonly mnemonic = 'RETURNDATASIZE';
   public readonly description = 'Return size of returned data from last call';
-  public readonly gas = 0;
+  public readonly gas = 2;
   public readonly bytes = 1;
 
   public toString(params: Buffer): string {
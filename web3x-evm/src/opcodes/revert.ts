@@ -22,6 +22,7 @@ class RevertOp implements OpCode {
 
   public handle(context: EvmContext) {
     const [offset, length] = context.stack.popN(2);
+    context.useMemory(offset, length);
     context.returned = context.memory.loadN(offset, Number(length));
     context.halt = true;
     context.reverted = true;
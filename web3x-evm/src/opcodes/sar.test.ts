@@ -0,0 +1,71 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { toBigIntBE } from 'bigint-buffer';
+import { Sar } from './sar';
+
+describe('opcodes', () => {
+  // Test vectors from EIP-145: [value, shift, result].
+  const tests = [
+    [
+      '0000000000000000000000000000000000000000000000000000000000000001',
+      '00',
+      '0000000000000000000000000000000000000000000000000000000000000001',
+    ],
+    [
+      '0000000000000000000000000000000000000000000000000000000000000001',
+      '01',
+      '0000000000000000000000000000000000000000000000000000000000000000',
+    ],
+    [
+      '8000000000000000000000000000000000000000000000000000000000000000',
+      '01',
+      'c000000000000000000000000000000000000000000000000000000000000000',
+    ],
+    [
+      '8000000000000000000000000000000000000000000000000000000000000000',
+      'ff',
+      'ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff',
+    ],
+    [
+      '8000000000000000000000000000000000000000000000000000000000000000',
+      '0100',
+      'ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff',
+    ],
+    [
+      'ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff',
+      '01',
+      'ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff',
+    ],
+    [
+      '4000000000000000000000000000000000000000000000000000000000000000',
+      'fe',
+      '0000000000000000000000000000000000000000000000000000000000000001',
+    ],
+    [
+      '7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff',
+      'f8',
+      '000000000000000000000000000000000000000000000000000000000000007f',
+    ],
+    [
+      '7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff',
+      '0100',
+      '0000000000000000000000000000000000000000000000000000000000000000',
+    ],
+  ];
+
+  describe('sar', () => {
+    tests.forEach(test => {
+      it('should produce correct result', () => {
+        const value = toBigIntBE(Buffer.from(test[0], 'hex'));
+        const shift = toBigIntBE(Buffer.from(test[1], 'hex'));
+        const r = toBigIntBE(Buffer.from(test[2], 'hex'));
+        expect(Sar.sar(shift, value)).toBe(r);
+      });
+    });
+  });
+});
@@ -0,0 +1,41 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { OpCode } from '.';
+import { EvmContext } from '../vm/evm-context';
+
+class SarOp implements OpCode {
+  public readonly code = 0x1d;
+  public readonly mnemonic = 'SAR';
+  public readonly description = 'Arithmetic (signed) shift right';
+  public readonly gas = 3;
+  public readonly bytes = 1;
+
+  public toString(params: Buffer): string {
+    return `${this.mnemonic}`;
+  }
+
+  public sar(shift: bigint, value: bigint) {
+    const tt256 = BigInt(2) ** BigInt(256);
+    const negative = value >= BigInt(2) ** BigInt(255);
+    if (shift >= 256) {
+      return negative ? tt256 - BigInt(1) : BigInt(0);
+    }
+    const signed = negative ? value - tt256 : value;
+    const result = signed >> shift;
+    return result < 0 ? result + tt256 : result;
+  }
+
+  public handle(context: EvmContext) {
+    const shift = context.stack.pop()!;
+    const value = context.stack.pop()!;
+    context.stack.push(this.sar(shift, value));
+    context.ip += this.bytes;
+  }
+}
+
+export const Sar = new SarOp();
@@ -0,0 +1,29 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { OpCode } from '.';
+import { EvmContext } from '../vm/evm-context';
+
+class SelfBalanceOp implements OpCode {
+  public readonly code = 0x47;
+  public readonly mnemonic = 'SELFBALANCE';
+  public readonly description = 'Get balance of currently executing account';
+  public readonly gas = 5;
+  public readonly bytes = 1;
+
+  public toString(params: Buffer): string {
+    return `${this.mnemonic}`;
+  }
+
+  public async handle(context: EvmContext) {
+    const account = await context.worldState.loadImmutableAccount(context.executor);
+    context.stack.push(account ? account.balance : BigInt(0));
+    context.ip += this.bytes;
+  }
+}
+
+export const SelfBalance = new SelfBalanceOp();
@@ -0,0 +1,113 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import levelup from 'levelup';
+import memdown from 'memdown';
+import { Address } from 'web3x/address';
+import { BlockchainContext } from '../blockchain';
+import { Tx } from '../tx';
+import { executeTransaction } from '../vm/execute-transaction';
+import { WorldState } from '../world/world-state';
+
+describe('opcodes', () => {
+  describe('selfdestruct', () => {
+    const sender = Address.fromString('0x0000000000000000000000000000000000000010');
+    const contract = Address.fromString('0x0000000000000000000000000000000000000020');
+    const beneficiary = Address.fromString('0x0000000000000000000000000000000000000040');
+    const blockchainCtx: BlockchainContext = {
+      timestamp: 0,
+      difficulty: BigInt(0),
+      blockGasLimit: BigInt(8000000),
+      chainId: 1,
+      hardfork: 'istanbul',
+      blockNumber: 0,
+      last256BlockHashes: [],
+      coinbase: Address.ZERO,
+    };
+
+    let worldState: WorldState;
+
+    const sendTx = (nonce: number) => {
+      const tx: Tx = {
+        nonce: BigInt(nonce),
+        to: contract,
+        dataOrInit: Buffer.of(),
+        gasPrice: BigInt(0),
+        gasLimit: BigInt(100000),
+        value: BigInt(0),
+        v: '0x',
+        r: '0x',
+        s: '0x',
+      };
+      return executeTransaction({ worldState, blockchainContext: blockchainCtx, sender }, tx);
+    };
+
+    beforeEach(async () => {
+      worldState = await WorldState.fromDb(levelup(memdown()));
+    });
+
+    it('should transfer balance and delete account at end of transaction', async () => {
+      // SSTORE 1 at 0, SELFDESTRUCT to beneficiary.
+      const code = Buffer.from('6001600055' + '73' + beneficiary.toBuffer().toString('hex') + 'ff', 'hex');
+      worldState.checkpoint();
+      await worldState.createAccount(sender, BigInt(0));
+      await worldState.createAccount(contract, BigInt(1000), BigInt(1), code);
+      await worldState.commit();
+
+      const { reverted, txSubstrate } = await sendTx(0);
+      expect(reverted).toBe(false);
+      expect(txSubstrate!.selfDestructSet).toHaveLength(1);
+
+      expect(await worldState.loadImmutableAccount(contract)).toBeUndefined();
+      const beneficiaryAccount = await worldState.loadImmutableAccount(beneficiary);
+      expect(beneficiaryAccount!.balance).toBe(BigInt(1000));
+    });
+
+    it('should delete account that self destructs to itself', async () => {
+      // SELFDESTRUCT to ADDRESS.
+      const code = Buffer.from('30ff', 'hex');
+      worldState.checkpoint();
+      await worldState.createAccount(sender, BigInt(0));
+      await worldState.createAccount(contract, BigInt(1000), BigInt(1), code);
+      await worldState.commit();
+
+      const { reverted } = await sendTx(0);
+      expect(reverted).toBe(false);
+      expect(await worldState.loadImmutableAccount(contract)).toBeUndefined();
+    });
+
+    it('should refund once per account when self destructing in several calls', async () => {
+      const caller = Address.fromString('0x0000000000000000000000000000000000000030');
+      // CALL contract with all gas, discarding the result.
+      const call = '6000600060006000600073' + contract.toBuffer().toString('hex') + '5af150';
+      worldState.checkpoint();
+      await worldState.createAccount(sender, BigInt(0));
+      await worldState.createAccount(caller, BigInt(0), BigInt(1), Buffer.from(call + call + '00', 'hex'));
+      await worldState.createAccount(contract, BigInt(1000), BigInt(1), Buffer.from('30ff', 'hex'));
+      await worldState.commit();
+
+      const tx: Tx = {
+        nonce: BigInt(0),
+        to: caller,
+        dataOrInit: Buffer.of(),
+        gasPrice: BigInt(0),
+        gasLimit: BigInt(100000),
+        value: BigInt(0),
+        v: '0x',
+        r: '0x',
+        s: '0x',
+      };
+      const { reverted, txSubstrate } = await executeTransaction(
+        { worldState, blockchainContext: blockchainCtx, sender },
+        tx,
+      );
+      expect(reverted).toBe(false);
+      expect(txSubstrate!.refundBalance).toBe(BigInt(24000));
+      expect(await worldState.loadImmutableAccount(contract)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,64 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { toBufferBE } from 'bigint-buffer';
+import { Address } from 'web3x/address';
+import { OpCode } from '.';
+import { EvmContext } from '../vm/evm-context';
+import { Gas } from '../vm/gas';
+
+class SelfDestructOp implements OpCode {
+  public readonly code = 0xff;
+  public readonly mnemonic = 'SELFDESTRUCT';
+  public readonly description = 'Halt execution and register account for later deletion';
+  public readonly gas = 5000;
+  public readonly bytes = 1;
+
+  public toString(params: Buffer): string {
+    return `${this.mnemonic}`;
+  }
+
+  public async handle(context: EvmContext) {
+    const { worldState, executor, txSubstrate } = context;
+    const address = context.stack.pop() % BigInt(2) ** BigInt(160);
+    const beneficiary = new Address(toBufferBE(address, 20));
+
+    if (!context.modify) {
+      throw new Error('Cannot self destruct in a static context.');
+    }
+
+    const { accessLists, coldAccountAccess } = context.gasSchedule;
+    if (worldState.accessAccount(beneficiary) && accessLists) {
+      context.useGas(BigInt(coldAccountAccess));
+    }
+
+    const account = (await worldState.loadAccount(executor))!;
+
+    const beneficiaryAccount = await worldState.loadImmutableAccount(beneficiary);
+    if (account.balance > BigInt(0) && (!beneficiaryAccount || beneficiaryAccount.isEmpty())) {
+      context.useGas(BigInt(Gas.GNEWACCOUNT));
+    }
+
+    // The refund is given once per account in the transaction, not per call frame.
+    if (worldState.selfDestructAccount(executor)) {
+      txSubstrate.refundBalance += BigInt(context.gasSchedule.selfDestructRefund);
+    }
+    if (!txSubstrate.selfDestructSet.some(a => a.address.equals(executor))) {
+      txSubstrate.selfDestructSet.push(account);
+    }
+
+    // The balance is transferred immediately. The account itself is deleted at the end of the transaction.
+    const balance = account.balance;
+    account.balance = BigInt(0);
+    (await worldState.loadOrCreateAccount(beneficiary)).balance += balance;
+
+    context.halt = true;
+    context.ip += this.bytes;
+  }
+}
+
+export const SelfDestruct = new SelfDestructOp();
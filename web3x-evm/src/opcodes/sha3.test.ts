@@ -22,11 +22,15 @@ describe('opcodes', () => {
       timestamp: 0,
       difficulty: BigInt(0),
       blockGasLimit: BigInt(0),
+      chainId: 1,
+      hardfork: 'istanbul',
       blockNumber: 0,
       last256BlockHashes: [],
       coinbase: Address.ZERO,
     };
     const context = new EvmContext(await WorldState.fromDb(db), blockchainCtx);
+    // Expanding memory to such high addresses would never be affordable, but we're only testing the hash.
+    context.availableGas = BigInt(2) ** BigInt(512);
 
     const buffer1 = Buffer.from('00112233445566778899aabbccddeeff000102030405060708090a0b0c0d0e0f', 'hex');
     const buffer2 = Buffer.from('deadbeef00000000000000000000000000000000000000000000000000000000', 'hex');
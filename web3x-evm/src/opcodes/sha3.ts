@@ -9,6 +9,7 @@ import { toBigIntBE } from 'bigint-buffer';
 import { sha3 } from 'web3x/utils';
 import { OpCode } from '.';
 import { EvmContext } from '../vm/evm-context';
+import { Gas, toWords } from '../vm/gas';
 
 class Sha3Op implements OpCode {
   public readonly code = 0x20;
@@ -24,6 +25,8 @@ class Sha3Op implements OpCode {
   public handle(context: EvmContext) {
     const address = context.stack.pop()!;
     const length = context.stack.pop()!;
+    context.useGas(BigInt(Gas.GSHA3WORD) * toWords(length));
+    context.useMemory(address, length);
     const data = context.memory.loadN(address, Number(length));
     const result = toBigIntBE(Buffer.from(sha3(data).slice(2), 'hex'));
     context.stack.push(result);
@@ -13,7 +13,7 @@ class SloadOp implements OpCode {
   public readonly code = 0x54;
   public readonly mnemonic = 'SLOAD';
   public readonly description = 'Load word from storage';
-  public readonly gas = 200;
+  public readonly gas = 0;
   public readonly bytes = 1;
 
   public toString(params: Buffer): string {
@@ -22,7 +22,9 @@ class SloadOp implements OpCode {
 
   public async handle(context: EvmContext) {
     const address = context.stack.pop()!;
-    const value = await context.storage.get(toBufferBE(address, 32));
+    const key = toBufferBE(address, 32);
+    context.useStorageAccessGas(key);
+    const value = await context.storage.get(key);
     context.stack.push(value ? toBigIntBE(value) : BigInt(0));
     context.ip += this.bytes;
   }
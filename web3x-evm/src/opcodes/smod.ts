@@ -16,7 +16,7 @@ class SmodOp implements OpCode {
   public readonly code = 0x07;
   public readonly mnemonic = 'SMOD';
   public readonly description = 'Signed modulo remainder operation';
-  public readonly gas = 3;
+  public readonly gas = 5;
   public readonly bytes = 1;
 
   public toString(params: Buffer): string {
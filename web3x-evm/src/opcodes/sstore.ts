@@ -5,15 +5,16 @@
   https://opensource.org/licenses/MIT
 */
 
-import { toBufferBE } from 'bigint-buffer';
+import { toBigIntBE, toBufferBE } from 'bigint-buffer';
 import { OpCode } from '.';
 import { EvmContext } from '../vm/evm-context';
+import { Gas, SstoreMetering } from '../vm/gas';
 
 class SstoreOp implements OpCode {
   public readonly code = 0x55;
   public readonly mnemonic = 'SSTORE';
   public readonly description = 'Store word in storage';
-  public readonly gas = 20000;
+  public readonly gas = 0;
   public readonly bytes = 1;
 
   public toString(params: Buffer): string {
@@ -23,9 +24,82 @@ class SstoreOp implements OpCode {
   public async handle(context: EvmContext) {
     const address = context.stack.pop()!;
     const value = context.stack.pop()!;
-    await context.storage.put(toBufferBE(address, 32), toBufferBE(value, 32));
+    const key = toBufferBE(address, 32);
+    const { worldState, executor } = context;
+    const { sstoreMetering, sstoreSentry, accessLists, coldSload } = context.gasSchedule;
+
+    if (sstoreSentry && context.availableGas <= BigInt(Gas.GCALLSTIPEND)) {
+      throw new Error('Out of gas.');
+    }
+
+    if (worldState.accessStorage(executor, key) && accessLists) {
+      context.useGas(BigInt(coldSload));
+    }
+
+    const currentBuf = await context.storage.get(key);
+    const current = currentBuf ? toBigIntBE(currentBuf) : BigInt(0);
+
+    if (sstoreMetering === SstoreMetering.LEGACY) {
+      this.chargeLegacy(context, current, value);
+    } else {
+      const originalBuf = worldState.getOriginalStorage(executor, key, currentBuf);
+      const original = originalBuf ? toBigIntBE(originalBuf) : BigInt(0);
+      this.chargeNetMetered(context, original, current, value);
+    }
+
+    await context.storage.put(key, toBufferBE(value, 32));
     context.ip += this.bytes;
   }
+
+  private chargeLegacy(context: EvmContext, current: bigint, value: bigint) {
+    const zero = BigInt(0);
+    if (value !== zero && current === zero) {
+      context.useGas(BigInt(Gas.GSSET));
+    } else {
+      context.useGas(BigInt(context.gasSchedule.sstoreReset));
+    }
+
+    if (value === zero && current !== zero) {
+      context.txSubstrate.refundBalance += BigInt(context.gasSchedule.sstoreClearRefund);
+    }
+  }
+
+  // EIP-2200, of which EIP-1283 is the special case with no sentry.
+  private chargeNetMetered(context: EvmContext, original: bigint, current: bigint, value: bigint) {
+    const zero = BigInt(0);
+    const { sload, sstoreReset, sstoreClearRefund } = context.gasSchedule;
+    const { txSubstrate } = context;
+
+    if (current === value) {
+      context.useGas(BigInt(sload));
+      return;
+    }
+
+    if (original === current) {
+      if (original === zero) {
+        context.useGas(BigInt(Gas.GSSET));
+      } else {
+        context.useGas(BigInt(sstoreReset));
+        if (value === zero) {
+          txSubstrate.refundBalance += BigInt(sstoreClearRefund);
+        }
+      }
+      return;
+    }
+
+    // The slot is dirty, having already been changed in this transaction.
+    context.useGas(BigInt(sload));
+    if (original !== zero) {
+      if (current === zero) {
+        txSubstrate.refundBalance -= BigInt(sstoreClearRefund);
+      } else if (value === zero) {
+        txSubstrate.refundBalance += BigInt(sstoreClearRefund);
+      }
+    }
+    if (original === value) {
+      txSubstrate.refundBalance += BigInt((original === zero ? Gas.GSSET : sstoreReset) - sload);
+    }
+  }
 }
 
 export const Sstore = new SstoreOp();
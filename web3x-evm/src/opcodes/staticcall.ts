@@ -9,6 +9,7 @@ import { toBufferBE } from 'bigint-buffer';
 import { Address } from 'web3x/address';
 import { OpCode } from '.';
 import { EvmContext } from '../vm/evm-context';
+import { callGas, MAX_CALL_DEPTH } from '../vm/gas';
 import { messageCall } from '../vm/message-call';
 
 class StaticCallOp implements OpCode {
@@ -23,7 +24,7 @@ class StaticCallOp implements OpCode {
   }
 
   public async handle(context: EvmContext) {
-    const { stack, worldState, blockchainCtx, memory, origin, executor, gasPrice, callDepth } = context;
+    const { stack, worldState, blockchainCtx, memory, origin, executor, gasPrice, callDepth, tracer } = context;
 
     const gas = stack.pop();
     const addr = stack.pop();
@@ -32,29 +33,63 @@ class StaticCallOp implements OpCode {
     const retOffset = stack.pop();
     const retSize = stack.pop();
 
+    context.useMemory(inOffset, inSize);
+    context.useMemory(retOffset, retSize);
+
     const recipient = new Address(toBufferBE(addr, 20));
+    context.useAccountAccessGas(recipient, context.gasSchedule.call);
+
+    const childGas = callGas(gas, context.availableGas);
+    context.useGas(childGas);
+
+    if (callDepth >= MAX_CALL_DEPTH) {
+      context.availableGas += childGas;
+      context.stack.push(BigInt(0));
+      context.lastReturned = Buffer.of();
+      context.ip += this.bytes;
+      return;
+    }
+
     const calldata = memory.loadN(inOffset, Number(inSize));
 
-    const { txSubstrate, reverted, returned } = await messageCall(
+    if (tracer) {
+      tracer.onCallEnter({
+        type: 'STATICCALL',
+        from: executor,
+        to: recipient,
+        value: BigInt(0),
+        gas: childGas,
+        input: calldata,
+        depth: callDepth + 1,
+      });
+    }
+
+    const { txSubstrate, reverted, returned, remainingGas } = await messageCall(
       worldState,
       blockchainCtx,
       executor,
       origin,
       recipient,
       recipient,
-      gas,
+      childGas,
       gasPrice,
       BigInt(0),
       BigInt(0),
       calldata,
       callDepth + 1,
       false,
+      tracer,
     );
 
+    if (tracer) {
+      tracer.onCallExit({ gasUsed: childGas - remainingGas, output: returned, reverted });
+    }
+
+    context.availableGas += remainingGas;
     context.stack.push(BigInt(reverted ? 0 : 1));
 
     if (txSubstrate) {
-      context.txSubstrate.logs.push(...txSubstrate.logs);
+      context.txSubstrate.merge(txSubstrate);
     }
 
     context.memory.storeN(retOffset, returned.slice(0, Number(retSize)));
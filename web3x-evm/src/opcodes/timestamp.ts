@@ -12,7 +12,7 @@ class TimestampOp implements OpCode {
   public readonly code = 0x42;
   public readonly mnemonic = 'TIMESTAMP';
   public readonly description = 'Get the blocks timestamp.';
-  public readonly gas = 1;
+  public readonly gas = 2;
   public readonly bytes = 1;
 
   public toString(params: Buffer): string {
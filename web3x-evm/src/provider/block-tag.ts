@@ -0,0 +1,98 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { hexToNumber } from 'web3x/utils';
+import { Blockchain, BlockchainContext } from '../blockchain';
+import { evaluatePooledTxs, TxPool } from '../tx-pool';
+import { WorldState } from '../world';
+
+/**
+ * Resolves a block tag ('earliest', 'latest', 'pending' or a hex block number) to a block number.
+ */
+export function resolveBlockNumber(blockchain: Blockchain, block: string = 'latest') {
+  switch (block) {
+    case 'earliest':
+      return 0;
+    case 'latest':
+    case 'pending':
+      return Math.max(blockchain.getBlockCount() - 1, 0);
+    default:
+      return hexToNumber(block);
+  }
+}
+
+/**
+ * Returns the world state after the given block was mined. The latest state is the current world state, including
+ * any changes made outside of blocks. If a pool is given, the pending state is that after its pending transactions.
+ */
+export async function getWorldStateAtBlock(
+  worldState: WorldState,
+  blockchain: Blockchain,
+  block: string = 'latest',
+  txPool?: TxPool,
+) {
+  if (block === 'pending' && txPool && (await txPool.getPending()).length) {
+    return await getPendingWorldState(worldState, blockchain, txPool);
+  }
+
+  if (block === 'latest' || block === 'pending') {
+    return worldState;
+  }
+
+  const minedBlock = blockchain.getBlock(resolveBlockNumber(blockchain, block));
+  if (!minedBlock) {
+    throw new Error(`Unknown block ${block}.`);
+  }
+
+  return worldState.detach(minedBlock.header.stateRoot);
+}
+
+/**
+ * Returns the context in which transactions are executed against the state at the given block tag. The latest and
+ * pending states are executed against as if in the next block. Earlier states are those after a mined block, so are
+ * executed against in that block's context.
+ */
+export function getBlockchainContextAtBlock(blockchain: Blockchain, block: string = 'latest'): BlockchainContext {
+  if (block === 'latest' || block === 'pending') {
+    return blockchain.getContext();
+  }
+
+  const blockNumber = resolveBlockNumber(blockchain, block);
+  if (!blockchain.getBlock(blockNumber)) {
+    throw new Error(`Unknown block ${block}.`);
+  }
+
+  return blockchain.getBlockContext(blockNumber);
+}
+
+/**
+ * Returns the context of the block after the given block tag, in which transactions are executed on top of its state.
+ * After the latest block, that's the next block to be mined.
+ */
+export function getBlockchainContextAfterBlock(blockchain: Blockchain, block: string = 'latest'): BlockchainContext {
+  if (block === 'latest' || block === 'pending') {
+    return blockchain.getContext();
+  }
+
+  const blockNumber = resolveBlockNumber(blockchain, block);
+  if (!blockchain.getBlock(blockNumber)) {
+    throw new Error(`Unknown block ${block}.`);
+  }
+
+  return blockchain.getBlock(blockNumber + 1) ? blockchain.getBlockContext(blockNumber + 1) : blockchain.getContext();
+}
+
+/**
+ * Returns the world state as if the pool's pending transactions were mined into the next block. Its checkpoint is
+ * never committed, so the persisted state is unaffected.
+ */
+async function getPendingWorldState(worldState: WorldState, blockchain: Blockchain, txPool: TxPool) {
+  const pendingWorldState = worldState.detach(worldState.getStateRoot());
+  pendingWorldState.checkpoint();
+  await evaluatePooledTxs(pendingWorldState, blockchain.getContext(), txPool);
+  return pendingWorldState;
+}
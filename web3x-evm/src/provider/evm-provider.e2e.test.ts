@@ -5,11 +5,30 @@
   https://opensource.org/licenses/MIT
 */
 
+import BN from 'bn.js';
 import levelup from 'levelup';
 import memdown from 'memdown';
+import * as rlp from 'rlp';
+import { Address } from 'web3x/address';
+import { ContractRevertError, Tx } from 'web3x/contract';
 import { Eth } from 'web3x/eth';
-import { toWei, utf8ToHex } from 'web3x/utils';
+import { LogResponse } from 'web3x/formatters';
+import {
+  bufferToHex,
+  hexToBuffer,
+  hexToNumber,
+  hexToNumberString,
+  numberToHex,
+  sha3,
+  sha3Buffer,
+  testAddress,
+  toWei,
+  utf8ToHex,
+} from 'web3x/utils';
 import { Wallet } from 'web3x/wallet';
+import { Blockchain, BlockHeader, BlockState, serializeBlockHeader } from '../blockchain';
+import { deserializeTx, serializeTx } from '../tx';
+import { WorldState } from '../world';
 import { EvmProvider } from './evm-provider';
 import { DaiContract } from './fixtures/DaiContract';
 
@@ -91,6 +110,11 @@ describe('evm provider e2e tests', () => {
     expect(logs[1].returnValues.src).toEqual(account1);
     expect(logs[1].returnValues.dst).toEqual(account2);
     expect(logs[1].returnValues.wad).toEqual(toWei('400', 'ether'));
+
+    const block = await eth.getBlock(transferReceipt.blockNumber);
+    expect(block.gasUsed).toBe(transferReceipt.cumulativeGasUsed);
+    expect(testAddress(bufferToHex(block.logsBloom!), daiContract.address!.toString())).toBe(true);
+    expect(testAddress(bufferToHex(block.logsBloom!), account1.toString())).toBe(false);
   }, 10000);
 
   it('should receive Transfer event', async done => {
@@ -120,4 +144,593 @@ describe('evm provider e2e tests', () => {
       .send()
       .getReceipt();
   });
+
+  it('should throw revert errors from calls and transactions', async () => {
+    await daiContract
+      .deploy(utf8ToHex('xf00f'))
+      .send()
+      .getReceipt();
+
+    // Calling a non constant method to see if it would succeed.
+    const transfer = daiContract.methods.transfer(account2, toWei('1', 'ether')) as Tx;
+
+    const callError = await transfer.call().catch(err => err);
+    expect(callError).toBeInstanceOf(ContractRevertError);
+
+    const sendError = await transfer
+      .send({})
+      .getReceipt()
+      .catch(err => err);
+    expect(sendError).toBeInstanceOf(ContractRevertError);
+    expect(sendError.message).toBe(callError.message);
+  });
+
+  it('should revert to snapshots', async () => {
+    const deployTx = daiContract.deploy(utf8ToHex('xf00f')).send();
+    await deployTx.getReceipt();
+    const snapshotId = await provider.send('evm_snapshot');
+
+    const mintTx = daiContract.methods.mint(toWei('1000', 'ether')).send();
+    await mintTx.getReceipt();
+    const subscriptionId = await provider.send('eth_subscribe', ['newHeads']);
+    expect(await daiContract.methods.balanceOf(account1).call()).toBe(toWei('1000', 'ether'));
+
+    expect(await provider.send('evm_revert', [snapshotId])).toBe(true);
+
+    expect(await daiContract.methods.balanceOf(account1).call()).toBe('0');
+    expect(await eth.getTransactionCount(account1)).toBe(1);
+    expect(await eth.getTransactionReceipt(await mintTx.getTxHash())).toBeNull();
+    expect(await eth.getTransactionReceipt(await deployTx.getTxHash())).not.toBeNull();
+    expect(await provider.send('eth_unsubscribe', [subscriptionId])).toBe(false);
+
+    // A snapshot can only be reverted to once.
+    expect(await provider.send('evm_revert', [snapshotId])).toBe(false);
+
+    // The chain continues from the snapshot.
+    await daiContract.methods
+      .mint(toWei('1', 'ether'))
+      .send()
+      .getReceipt();
+    expect(await daiContract.methods.balanceOf(account1).call()).toBe(toWei('1', 'ether'));
+  });
+
+  it('should restore pooled transactions and mark logs as removed when reverting to a snapshot', async () => {
+    await daiContract
+      .deploy(utf8ToHex('xf00f'))
+      .send()
+      .getReceipt();
+    await provider.send('evm_setAutomine', [false]);
+    const transferTx = eth.sendTransaction({ from: account2, to: account1, value: 1, gas: 21000, gasPrice });
+    const transferHash = await transferTx.getTxHash();
+    const removedLogs: LogResponse[] = [];
+    const sub = eth.subscribe('logs').on('changed', log => removedLogs.push(log));
+    const snapshotId = await provider.send('evm_snapshot');
+
+    const mintTx = daiContract.methods.mint(toWei('1', 'ether')).send({ gas: 200000 });
+    await mintTx.getTxHash();
+    await provider.send('evm_mine');
+    const mintReceipt = await mintTx.getReceipt();
+    expect(await provider.send('eth_pendingTransactions')).toEqual([]);
+
+    await provider.send('evm_revert', [snapshotId]);
+
+    expect(removedLogs.length).toBeGreaterThan(0);
+    expect(removedLogs.every(log => !!log.removed && log.blockHash === mintReceipt.blockHash)).toBe(true);
+    expect((await provider.send('eth_pendingTransactions')).map(tx => tx.hash)).toEqual([transferHash]);
+    await provider.send('evm_mine');
+    expect(await transferTx.getReceipt()).not.toBeNull();
+    sub.unsubscribe();
+  });
+
+  it('should reorganise onto a longer branch, marking orphaned logs as removed', async () => {
+    const db = levelup(memdown());
+    const blockchain = await Blockchain.fromDb(db);
+    const otherProvider = new EvmProvider(await WorldState.fromDb(db), blockchain);
+    await otherProvider.loadWallet(wallet);
+    const otherDaiContract = new DaiContract(new Eth(otherProvider), undefined, { gasPrice, from: account1 });
+    const getBlockState = async (blockNumber: number) =>
+      (await blockchain.getBlockState(blockchain.getBlock(blockNumber)!.blockHash))!;
+
+    // Both chains share the block deploying the contract.
+    await otherDaiContract
+      .deploy(utf8ToHex('xf00f'))
+      .send()
+      .getReceipt();
+    await provider.importBlock(await getBlockState(0));
+    daiContract.address = otherDaiContract.address;
+
+    const removedLogs: LogResponse[] = [];
+    const sub = eth.subscribe('logs').on('changed', log => removedLogs.push(log));
+
+    const orphanedMint = daiContract.methods.mint(toWei('1', 'ether')).send();
+    const orphanedReceipt = await orphanedMint.getReceipt();
+
+    // The other chain mines two different blocks on the shared block.
+    for (let i = 0; i < 2; i++) {
+      await otherDaiContract.methods
+        .mint(toWei('5', 'ether'))
+        .send()
+        .getReceipt();
+    }
+
+    // A branch of the same length doesn't replace the chain.
+    await provider.importBlock(await getBlockState(1));
+    expect(await daiContract.methods.balanceOf(account1).call()).toBe(toWei('1', 'ether'));
+
+    await provider.importBlock(await getBlockState(2));
+    expect(await eth.getBlockNumber()).toBe(2);
+    expect((await eth.getBlock('latest')).hash).toEqual(blockchain.getBlock(2)!.blockHash);
+    expect(await daiContract.methods.balanceOf(account1).call()).toBe(toWei('10', 'ether'));
+    expect(await eth.getTransactionReceipt(await orphanedMint.getTxHash())).toBeNull();
+    expect(removedLogs.length).toBeGreaterThan(0);
+    expect(removedLogs.every(log => !!log.removed && log.blockHash === orphanedReceipt.blockHash)).toBe(true);
+
+    // The orphaned block can still be chosen explicitly.
+    await provider.setHead(hexToBuffer(orphanedReceipt.blockHash));
+    expect(await eth.getBlockNumber()).toBe(1);
+    expect(await daiContract.methods.balanceOf(account1).call()).toBe(toWei('1', 'ether'));
+    expect(await eth.getTransactionReceipt(await orphanedMint.getTxHash())).not.toBeNull();
+    sub.unsubscribe();
+  });
+
+  it('should queue transactions into one block when automine is disabled', async () => {
+    await daiContract
+      .deploy(utf8ToHex('xf00f'))
+      .send()
+      .getReceipt();
+    await provider.send('evm_setAutomine', [false]);
+
+    // Without a gas limit, each would reserve the whole block.
+    const mintTx = daiContract.methods.mint(toWei('1000', 'ether')).send({ gas: 200000 });
+    const transferTx = daiContract.methods.transfer(account2, toWei('400', 'ether')).send({ gas: 200000 });
+    expect(await eth.getTransactionReceipt(await transferTx.getTxHash())).toBeNull();
+
+    await provider.send('evm_mine');
+
+    const mintReceipt = await mintTx.getReceipt();
+    const transferReceipt = await transferTx.getReceipt();
+    expect(transferReceipt.blockNumber).toBe(mintReceipt.blockNumber);
+    expect(await daiContract.methods.balanceOf(account2).call()).toBe(toWei('400', 'ether'));
+  });
+
+  it('should pool pending transactions, replacing them by fee', async () => {
+    await provider.send('evm_setAutomine', [false]);
+    const signTransfer = (nonce: number, txGasPrice: number) =>
+      wallet.get(0)!.signTransaction({ to: account2, value: 1, gas: 21000, gasPrice: txGasPrice, nonce }, eth);
+
+    const { rawTransaction: replacedTx } = await signTransfer(0, gasPrice);
+    const replacedHash = await eth.sendSignedTransaction(replacedTx).getTxHash();
+    const { rawTransaction: underpricedTx } = await signTransfer(0, gasPrice + 1);
+    await expect(eth.sendSignedTransaction(underpricedTx).getTxHash()).rejects.toThrow('underpriced');
+    const { rawTransaction: replacementTx } = await signTransfer(0, gasPrice * 2);
+    const replacementHash = await eth.sendSignedTransaction(replacementTx).getTxHash();
+
+    const transferTx = eth.sendTransaction({ from: account2, to: account1, value: 1, gas: 21000, gasPrice });
+    const transferHash = await transferTx.getTxHash();
+    const pendingTxs = await provider.send('eth_pendingTransactions');
+    expect(pendingTxs.map(tx => tx.hash)).toEqual([replacementHash, transferHash]);
+    expect((await eth.getTransaction(replacementHash)).blockNumber).toBeNull();
+
+    // The pending state includes the pooled transactions.
+    expect(await eth.getTransactionCount(account1, 'pending')).toBe(1);
+    expect(await eth.getTransactionCount(account1)).toBe(0);
+
+    await provider.send('evm_mine');
+
+    expect(await provider.send('eth_pendingTransactions')).toEqual([]);
+    expect(await eth.getTransactionReceipt(replacedHash)).toBeNull();
+    const replacementReceipt = await eth.getTransactionReceipt(replacementHash);
+    const transferReceipt = await transferTx.getReceipt();
+    expect(transferReceipt.blockNumber).toBe(replacementReceipt!.blockNumber);
+    expect(transferReceipt.transactionIndex).toBe(1);
+    expect(transferReceipt.gasUsed).toBe(21000);
+    expect(transferReceipt.cumulativeGasUsed).toBe(42000);
+  });
+
+  it('should leave transactions that do not fit in the block for a later one', async () => {
+    await provider.send('evm_setAutomine', [false]);
+    const transfer = (from: Address, gas: number, txGasPrice: number) =>
+      eth.sendTransaction({ from, to: account1, value: 1, gas, gasPrice: txGasPrice });
+
+    await expect(transfer(account1, 8000001, gasPrice).getTxHash()).rejects.toThrow('exceeds block gas limit');
+    // The second needs all of the block's gas, but the first, mined before it as it pays more, has used some.
+    const firstTx = transfer(account1, 21000, gasPrice * 2);
+    const secondTx = transfer(account2, 8000000, gasPrice);
+    await secondTx.getTxHash();
+
+    await provider.send('evm_mine');
+    const { blockNumber } = await firstTx.getReceipt();
+    expect(await eth.getTransactionReceipt(await secondTx.getTxHash())).toBeNull();
+
+    await provider.send('evm_mine');
+    expect((await secondTx.getReceipt()).blockNumber).toBe(blockNumber + 1);
+  });
+
+  it('should queue transactions with a nonce gap until it is filled', async () => {
+    const signTransfer = (nonce: number) =>
+      wallet.get(0)!.signTransaction({ to: account2, value: 1, gas: 21000, gasPrice, nonce }, eth);
+
+    const { rawTransaction: queuedTx } = await signTransfer(1);
+    const queuedHash = await eth.sendSignedTransaction(queuedTx).getTxHash();
+    expect(await eth.getTransactionReceipt(queuedHash)).toBeNull();
+    expect(await eth.getTransactionCount(account1, 'pending')).toBe(0);
+
+    const { rawTransaction: gapTx } = await signTransfer(0);
+    await eth.sendSignedTransaction(gapTx).getReceipt();
+
+    expect(await eth.getTransactionReceipt(queuedHash)).not.toBeNull();
+    expect(await eth.getTransactionCount(account1)).toBe(2);
+  });
+
+  it('should return the hash of raw transactions as sent', async () => {
+    const { rawTransaction } = await wallet
+      .get(0)!
+      .signTransaction({ to: account2, value: 0, gas: 21000, gasPrice, nonce: 0 }, eth);
+
+    const txHash = await provider.send('eth_sendRawTransaction', [rawTransaction]);
+    expect(txHash).toBe(sha3(rawTransaction));
+    expect((await provider.send('eth_getTransactionByHash', [txHash])).hash).toBe(txHash);
+    expect(await eth.getTransactionReceipt(txHash)).not.toBeNull();
+  });
+
+  it('should simulate bundles without committing them', async () => {
+    await daiContract
+      .deploy(utf8ToHex('xf00f'))
+      .send()
+      .getReceipt();
+    const nonce = await eth.getTransactionCount(account1);
+    const sign = (index: number, tx: any) => wallet.get(index)!.signTransaction({ gas: 100000, gasPrice, ...tx }, eth);
+
+    const { rawTransaction: fundTx } = await sign(0, { to: account2, value: toWei('1', 'ether'), nonce });
+    const { rawTransaction: bribeTx } = await sign(1, { to: Address.ZERO, value: 1000, gas: 21000, nonce: 0 });
+    const { rawTransaction: revertTx } = await sign(0, {
+      to: daiContract.address,
+      data: daiContract.methods.transfer(account2, toWei('1', 'ether')).encodeABI(),
+      nonce: nonce + 1,
+    });
+
+    const bundle = await provider.send('eth_callBundle', [
+      {
+        txs: [fundTx, bribeTx, revertTx],
+        blockNumber: numberToHex((await eth.getBlockNumber()) + 1),
+        balanceAddresses: [account2.toString()],
+      },
+    ]);
+
+    const [fundResult, bribeResult, revertResult] = bundle.results;
+    expect(fundResult).toMatchObject({ fromAddress: account1.toString(), gasUsed: 21000, value: '0x' });
+    expect(bribeResult).toMatchObject({
+      gasUsed: 21000,
+      coinbaseDiff: numberToHex(21000 * gasPrice + 1000),
+      ethSentToCoinbase: numberToHex(1000),
+    });
+    expect(revertResult.error).toBeDefined();
+    expect(bundle.ethSentToCoinbase).toBe(numberToHex(1000));
+    expect(bundle.balanceDeltas[account2.toString()]).toBe(
+      numberToHex(
+        new BN(toWei('1', 'ether'))
+          .subn(1000)
+          .sub(new BN(21000 * gasPrice))
+          .toString(),
+      ),
+    );
+
+    // Nothing was committed.
+    expect(await eth.getTransactionCount(account1)).toBe(nonce);
+    expect(await eth.getBalance(account2)).toBe(toWei('10', 'ether'));
+
+    // Once the nonce is used, the bundle can only be simulated on top of an earlier block.
+    const stateBlockNumber = numberToHex(await eth.getBlockNumber());
+    await eth.sendTransaction({ to: account2, value: 1, gas: 21000, gasPrice }).getReceipt();
+    const fund = deserializeTx(hexToBuffer(fundTx));
+    await expect(provider.simulateBundle([fund])).rejects.toThrow();
+    const { results } = await provider.simulateBundle([fund], [], stateBlockNumber);
+    expect(results[0].success).toBe(true);
+  });
+
+  it('should control block timestamps', async () => {
+    // Returns TIMESTAMP.
+    const initCode = '6009600c60003960096000f3' + '4260005260206000f3';
+    const { contractAddress } = await eth.sendTransaction({ data: Buffer.from(initCode, 'hex') }).getReceipt();
+    const getTimestamp = async () => hexToNumber(await eth.call({ to: contractAddress!, data: Buffer.of(0) }));
+
+    const now = Math.floor(Date.now() / 1000);
+    const snapshotId = await provider.send('evm_snapshot');
+    await provider.send('evm_increaseTime', [3600]);
+    expect(await getTimestamp()).toBeGreaterThanOrEqual(now + 3600);
+
+    await provider.send('evm_setNextBlockTimestamp', [now + 86400]);
+    expect(await getTimestamp()).toBe(now + 86400);
+
+    // Later blocks continue from the set timestamp.
+    await provider.send('evm_mine');
+    expect(await getTimestamp()).toBeGreaterThanOrEqual(now + 86400);
+    expect(await getTimestamp()).toBeLessThan(now + 86400 + 60);
+
+    // Reverting to a snapshot undoes the adjustments to time.
+    await provider.send('evm_setNextBlockTimestamp', [now + 2 * 86400]);
+    await provider.send('evm_revert', [snapshotId]);
+    expect(await getTimestamp()).toBeLessThan(now + 3600);
+  });
+
+  it('should send transactions from impersonated accounts', async () => {
+    const whale = Address.fromString('0x00000000000000000000000000000000000000ff');
+    await provider.send('evm_setBalance', [whale.toString(), numberToHex(toWei('1', 'ether'))]);
+    expect(await provider.send('evm_impersonateAccount', [whale.toString()])).toBe(true);
+
+    const deployReceipt = await daiContract
+      .deploy(utf8ToHex('xf00f'))
+      .send({ from: whale })
+      .getReceipt();
+    expect(deployReceipt.from).toEqual(whale);
+
+    await daiContract.methods
+      .mint(toWei('1000', 'ether'))
+      .send({ from: whale })
+      .getReceipt();
+    expect(await daiContract.methods.balanceOf(whale).call()).toBe(toWei('1000', 'ether'));
+    expect(await eth.getTransactionCount(whale)).toBe(2);
+
+    expect(await provider.send('evm_stopImpersonatingAccount', [whale.toString()])).toBe(true);
+    await expect(eth.sendTransaction({ from: whale, to: account1 }).getTxHash()).rejects.toThrow();
+
+    // Unsigned transactions can only be sent from impersonated accounts, not raw with the sender in the signature.
+    const forgedTx = {
+      nonce: BigInt(2),
+      to: account1,
+      dataOrInit: Buffer.of(),
+      gasPrice: BigInt(gasPrice),
+      gasLimit: BigInt(21000),
+      value: BigInt(1),
+      v: '0x',
+      r: whale.toString(),
+      s: '0x',
+    };
+    await expect(provider.send('eth_sendRawTransaction', [bufferToHex(serializeTx(forgedTx))])).rejects.toThrow(
+      'Transaction is unsigned.',
+    );
+  });
+
+  it('should reject blocks containing transactions from impersonated accounts', async () => {
+    const db = levelup(memdown());
+    const blockchain = await Blockchain.fromDb(db);
+    const otherProvider = new EvmProvider(await WorldState.fromDb(db), blockchain);
+    const whale = Address.fromString('0x00000000000000000000000000000000000000ff');
+    await otherProvider.send('evm_setBalance', [whale.toString(), numberToHex(toWei('1', 'ether'))]);
+    await otherProvider.send('evm_impersonateAccount', [whale.toString()]);
+    await new Eth(otherProvider).sendTransaction({ from: whale, to: account1, value: 1, gasPrice }).getReceipt();
+
+    const blockState = (await blockchain.getBlockState(blockchain.getBlock(0)!.blockHash))!;
+    await expect(provider.importBlock(blockState)).rejects.toThrow('Block contains an unsigned transaction.');
+  });
+
+  it('should reject blocks whose header does not match their transactions', async () => {
+    const db = levelup(memdown());
+    const blockchain = await Blockchain.fromDb(db);
+    const otherProvider = new EvmProvider(await WorldState.fromDb(db), blockchain);
+    await otherProvider.loadWallet(wallet);
+    const otherDaiContract = new DaiContract(new Eth(otherProvider), undefined, { gasPrice, from: account1 });
+    await otherDaiContract
+      .deploy(utf8ToHex('xf00f'))
+      .send()
+      .getReceipt();
+    const blockState = (await blockchain.getBlockState(blockchain.getBlock(0)!.blockHash))!;
+
+    const withHeader = (changes: Partial<BlockHeader>): BlockState => {
+      const header = { ...blockState.header, ...changes };
+      const serializedHeader = serializeBlockHeader(header);
+      return { ...blockState, header, serializedHeader, blockHash: sha3Buffer(serializedHeader) };
+    };
+    const invalidBlocks: [BlockState, string][] = [
+      [{ ...blockState, blockHash: Buffer.alloc(32, 1) }, 'Invalid block hash.'],
+      [withHeader({ transactionsRoot: Buffer.alloc(32) }), 'Invalid transactions root.'],
+      [withHeader({ receiptsRoot: Buffer.alloc(32) }), 'Invalid receipts root.'],
+      [withHeader({ logsBloom: Buffer.alloc(256) }), 'Invalid logs bloom.'],
+      [withHeader({ gasUsed: blockState.header.gasUsed + BigInt(1) }), 'Invalid gas used.'],
+    ];
+    for (const [invalidBlock, error] of invalidBlocks) {
+      await expect(provider.importBlock(invalidBlock)).rejects.toThrow(error);
+    }
+
+    await provider.importBlock(blockState);
+    expect(await eth.getBlockNumber()).toBe(0);
+  });
+
+  it('should set account state', async () => {
+    const contract = Address.fromString('0x0000000000000000000000000000000000000020');
+    // PUSH1 1 SLOAD PUSH1 0 MSTORE PUSH1 32 PUSH1 0 RETURN
+    await provider.send('evm_setCode', [contract.toString(), '0x60015460005260206000f3']);
+    await provider.send('evm_setStorageAt', [contract.toString(), '0x1', '0x2a']);
+    await provider.send('evm_setNonce', [contract.toString(), '0x5']);
+
+    expect(hexToNumber(await eth.call({ to: contract, data: Buffer.of(0) }))).toBe(42);
+    expect(await eth.getTransactionCount(contract)).toBe(5);
+  });
+
+  it('should call with state and block overrides', async () => {
+    const contract = Address.fromString('0x0000000000000000000000000000000000000020');
+    // PUSH1 1 SLOAD PUSH1 0 MSTORE PUSH1 32 PUSH1 0 RETURN
+    const code = hexToBuffer('0x60015460005260206000f3');
+    await provider.send('evm_setCode', [contract.toString(), bufferToHex(code)]);
+    await provider.send('evm_setStorageAt', [contract.toString(), '0x1', '0x2a']);
+    const callSlot = (overrides?: any) => eth.call({ to: contract, data: Buffer.of(0) }, 'latest', overrides);
+
+    expect(hexToNumber(await callSlot({ state: { [contract.toString()]: { stateDiff: { '0x1': '0x7' } } } }))).toBe(7);
+    expect(hexToNumber(await callSlot({ state: { [contract.toString()]: { state: { '0x2': '0x7' } } } }))).toBe(0);
+    // The overrides are discarded after the call.
+    expect(hexToNumber(await callSlot())).toBe(42);
+
+    // TIMESTAMP PUSH1 0 MSTORE PUSH1 32 PUSH1 0 RETURN
+    const other = Address.fromString('0x0000000000000000000000000000000000000030');
+    const timestamp = await eth.call({ to: other, data: Buffer.of(0) }, 'latest', {
+      state: { [other.toString()]: { code: hexToBuffer('0x4260005260206000f3') } },
+      block: { timestamp: 1234 },
+    });
+    expect(hexToNumber(timestamp)).toBe(1234);
+    expect(await eth.getCode(other)).toBe('0x');
+  });
+
+  it('should call and trace calls in the context of the given block', async () => {
+    // Deploys NUMBER PUSH1 0 MSTORE PUSH1 32 PUSH1 0 RETURN.
+    const initCode = hexToBuffer('0x684360005260206000f360005260096017f3');
+    const { contractAddress, blockNumber } = await eth.sendTransaction({ data: initCode, gasPrice }).getReceipt();
+    await provider.send('evm_mine');
+
+    const call = { to: contractAddress!.toString(), data: '0x00' };
+    const callAt = async (block: string) => hexToNumber(await provider.send('eth_call', [call, block]));
+    const traceCallAt = async (block: string) =>
+      hexToNumber((await provider.send('debug_traceCall', [call, block, { tracer: 'callTracer' }])).output);
+
+    expect(await callAt(numberToHex(blockNumber))).toBe(blockNumber);
+    expect(await traceCallAt(numberToHex(blockNumber))).toBe(blockNumber);
+    // The latest state is called as if in the next block.
+    expect(await callAt('latest')).toBe(blockNumber + 2);
+    expect(await traceCallAt('latest')).toBe(blockNumber + 2);
+  });
+
+  it('should answer chain and state queries', async () => {
+    expect(await eth.getId()).toBe(1);
+    expect(await eth.getNodeInfo()).toBe('web3x-evm');
+
+    const deployReceipt = await daiContract
+      .deploy(utf8ToHex('xf00f'))
+      .send()
+      .getReceipt();
+    const deployBlockNumber = await eth.getBlockNumber();
+    expect(deployBlockNumber).toBe(deployReceipt.blockNumber);
+
+    const block = await eth.getBlock(deployBlockNumber, true);
+    expect(block.hash).toEqual(hexToBuffer(deployReceipt.blockHash));
+    expect(block.transactions[0].hash).toBe(deployReceipt.transactionHash);
+    expect((await eth.getBlock(deployReceipt.blockHash)).number).toBe(deployBlockNumber);
+    expect(await eth.getBlockTransactionCount(deployReceipt.blockHash)).toBe(1);
+    expect((await eth.getTransactionFromBlock(deployBlockNumber, 0)).hash).toBe(deployReceipt.transactionHash);
+
+    expect(await eth.estimateGas({ to: account2, value: 1 })).toBe(21000);
+
+    // Send a raw transaction signed outside of the provider.
+    const { rawTransaction } = await wallet
+      .get(0)!
+      .signTransaction({ to: account2, value: 1, gas: 21000, gasPrice }, eth);
+    await eth.sendSignedTransaction(rawTransaction).getReceipt();
+
+    const initialBalance = toWei('10', 'ether');
+    expect(await eth.getBalance(account2, deployBlockNumber)).toBe(initialBalance);
+    expect(await eth.getBalance(account2)).toBe(new BN(initialBalance).addn(1).toString());
+
+    await provider.send('evm_setStorageAt', [daiContract.address!.toString(), '0x1', '0x2a']);
+    expect(hexToNumber(await eth.getStorageAt(daiContract.address!, '1'))).toBe(42);
+  });
+
+  it('should burn the base fee and adjust it each block in london', async () => {
+    const londonProvider = await EvmProvider.fromDb(levelup(memdown()), { hardfork: 'london' });
+    await londonProvider.loadWallet(wallet);
+    const londonEth = new Eth(londonProvider);
+    const getBaseFee = async (blockNumber: number) =>
+      hexToNumber((await londonProvider.send('eth_getBlockByNumber', [numberToHex(blockNumber), false])).baseFeePerGas);
+
+    const coinbaseBalance = new BN(await londonEth.getBalance(Address.ZERO));
+    const txGasPrice = hexToNumber(await londonProvider.send('eth_gasPrice'));
+    const { blockNumber } = await londonEth
+      .sendTransaction({ from: account1, to: account2, value: 1, gas: 21000 })
+      .getReceipt();
+    const baseFee = await getBaseFee(blockNumber);
+
+    expect(baseFee).toBeGreaterThan(0);
+    expect(txGasPrice).toBeGreaterThan(baseFee);
+    expect(new BN(await londonEth.getBalance(Address.ZERO)).sub(coinbaseBalance).toString()).toBe(
+      new BN(txGasPrice - baseFee).muln(21000).toString(),
+    );
+
+    // The block used less than its gas target, so the base fee falls.
+    await londonProvider.send('evm_mine');
+    expect(await getBaseFee(blockNumber + 1)).toBeLessThan(baseFee);
+  });
+
+  it('should estimate the lowest gas limit with which a transaction succeeds', async () => {
+    const contract = Address.fromString('0x0000000000000000000000000000000000000020');
+    // PUSH1 0 PUSH1 0 SSTORE STOP. Clearing the slot refunds gas, so the gas used is less than the gas required.
+    await provider.send('evm_setCode', [contract.toString(), '0x600060005500']);
+    await provider.send('evm_setStorageAt', [contract.toString(), '0x0', '0x1']);
+
+    const gas = await eth.estimateGas({ to: contract });
+    expect(gas).toBe(21000 + 6 + 5000);
+
+    const { gasUsed } = await eth.sendTransaction({ to: contract, gas, gasPrice }).getReceipt();
+    expect(gasUsed).toBeLessThan(gas);
+
+    await daiContract
+      .deploy(utf8ToHex('xf00f'))
+      .send()
+      .getReceipt();
+    const transfer = daiContract.methods.transfer(account2, toWei('1', 'ether'));
+    await expect(transfer.estimateGas()).rejects.toBeInstanceOf(ContractRevertError);
+
+    // Estimates are made on the state of the given block.
+    const { blockNumber } = await daiContract.methods
+      .mint(toWei('1', 'ether'))
+      .send()
+      .getReceipt();
+    const request = {
+      from: account1.toString(),
+      to: daiContract.address!.toString(),
+      data: bufferToHex(transfer.encodeABI()),
+    };
+    expect(hexToNumber(await provider.send('eth_estimateGas', [request, 'latest']))).toBeGreaterThan(21000);
+    await expect(provider.send('eth_estimateGas', [request, numberToHex(blockNumber - 1)])).rejects.toThrow();
+
+    // And in the context of that block, rather than the next. NUMBER PUSH1 blockNumber EQ PUSH1 0x0b JUMPI PUSH1 0
+    // DUP1 REVERT JUMPDEST STOP.
+    const blockNumberByte = blockNumber.toString(16).padStart(2, '0');
+    const checkBlockNumber = { from: account1.toString(), data: `0x4360${blockNumberByte}14600b57600080fd5b00` };
+    const estimate = await provider.send('eth_estimateGas', [checkBlockNumber, numberToHex(blockNumber)]);
+    expect(hexToNumber(estimate)).toBeGreaterThan(53000);
+    await expect(provider.send('eth_estimateGas', [checkBlockNumber, 'latest'])).rejects.toThrow();
+  });
+
+  it('should trace transactions', async () => {
+    await daiContract
+      .deploy(utf8ToHex('xf00f'))
+      .send()
+      .getReceipt();
+
+    const { transactionHash } = await daiContract.methods
+      .mint(toWei('1000', 'ether'))
+      .send()
+      .getReceipt();
+
+    const trace = await provider.send('debug_traceTransaction', [transactionHash]);
+    expect(trace.failed).toBe(false);
+    expect(trace.structLogs.length).toBeGreaterThan(0);
+    expect(trace.structLogs[0]).toMatchObject({ pc: 0, op: 'PUSH1', depth: 1 });
+
+    const callTrace = await provider.send('debug_traceTransaction', [transactionHash, { tracer: 'callTracer' }]);
+    expect(callTrace.type).toBe('CALL');
+    expect(callTrace.to).toBe(daiContract.address!.toString());
+    expect(callTrace.error).toBeUndefined();
+
+    // Tracing must not have changed the latest state.
+    expect(await daiContract.methods.balanceOf(account1).call()).toBe(toWei('1000', 'ether'));
+
+    // Calls are traced on the state of the given block.
+    const call = {
+      to: daiContract.address!.toString(),
+      data: bufferToHex(daiContract.methods.balanceOf(account1).encodeABI()),
+    };
+    const traceBalanceAt = async (block: string) =>
+      hexToNumberString((await provider.send('debug_traceCall', [call, block, { tracer: 'callTracer' }])).output);
+    expect(await traceBalanceAt('0x0')).toBe('0');
+    expect(await traceBalanceAt('latest')).toBe(toWei('1000', 'ether'));
+  });
+
+  it('should reject a db with headers of an earlier format', async () => {
+    const db = levelup(memdown());
+    // Earlier versions stored the parent hash, state root, transactions root, receipts root and number.
+    const header = rlp.encode([Buffer.alloc(32), Buffer.alloc(32), Buffer.alloc(32), Buffer.alloc(32), 0]);
+    const blockHash = Buffer.alloc(32, 1);
+    await db.put(blockHash, header);
+    await db.put(Buffer.from('chainTip'), blockHash);
+
+    await expect(EvmProvider.fromDb(db)).rejects.toThrow('Unsupported block header format.');
+  });
 });
@@ -5,46 +5,116 @@
   https://opensource.org/licenses/MIT
 */
 
-import { toBufferBE } from 'bigint-buffer';
 import { EventEmitter } from 'events';
 import levelup, { LevelUp } from 'levelup';
 import { Address } from 'web3x/address';
 import {
-  BlockHeaderResponse,
+  fromRawBlockOverrides,
   fromRawCallRequest,
+  fromRawEstimateRequest,
   fromRawLogRequest,
+  fromRawStateOverrides,
   fromRawTransactionRequest,
   LogResponse,
   toRawBlockHeaderResponse,
   toRawLogResponse,
+  TransactionRequest,
 } from 'web3x/formatters';
 import { EthereumProvider, EthereumProviderNotifications } from 'web3x/providers';
-import { bufferToHex, numberToHex } from 'web3x/utils';
+import { bufferToHex, hexToBuffer, hexToNumber, numberToHex } from 'web3x/utils';
 import { Wallet } from 'web3x/wallet';
-import { Blockchain, BlockHeader, deserializeBlockState } from '../blockchain';
+import { MessagePort } from 'worker_threads';
+import { Blockchain, BlockchainClock, BlockHeader, BlockState } from '../blockchain';
+import { simulateBundle } from '../blockchain/simulate-bundle';
 import { validateBlock } from '../blockchain/validate-block';
-import { getAccountCode } from '../vm';
+import { CoverageCollector } from '../coverage';
+import { GasReporter } from '../gas-reporter';
+import { ContractArtifact, SourceMapper } from '../source-map';
+import { BlockSync, fromBroadcastChannel, fromMessagePort } from '../sync';
+import { deserializeTx, isUnsignedTx, recoverTransactionSender, Tx } from '../tx';
+import { PooledTx, TxPool } from '../tx-pool';
+import { getAccountCode, Hardfork } from '../vm';
+import { getAccountBalance } from '../vm/get-account-balance';
+import { getAccountStorage } from '../vm/get-account-storage';
 import { getAccountTransactions } from '../vm/get-account-transactions';
-import { WorldState } from '../world';
+import { ForkSource, WorldState } from '../world';
+import {
+  getBlockchainContextAfterBlock,
+  getBlockchainContextAtBlock,
+  getWorldStateAtBlock,
+  resolveBlockNumber,
+} from './block-tag';
 import { handleCall } from './handle-call';
+import { handleCallBundle } from './handle-call-bundle';
+import { handleTraceCall, handleTraceTransaction } from './handle-debug-trace';
+import { handleEstimateGas } from './handle-estimate-gas';
+import {
+  handleGetBlock,
+  handleGetBlockTransactionCount,
+  handleGetTransactionFromBlock,
+  toBlockHeaderResponse,
+} from './handle-get-block';
 import { getLogs } from './handle-get-logs';
-import { handleGetTransactionByHash } from './handle-get-transaction';
+import {
+  handleGetPooledTransaction,
+  handleGetTransactionByHash,
+  handlePendingTransactions,
+} from './handle-get-transaction';
 import { handleGetTransactionReceipt } from './handle-get-transaction-receipt';
-import { handleSendTransaction } from './handle-send-transaction';
+import { handleMine } from './handle-mine';
+import {
+  createImpersonatedTransaction,
+  handleSendTransaction,
+  handleSignTransaction,
+  signTransaction,
+} from './handle-send-transaction';
+import { handleSetBalance, handleSetCode, handleSetNonce, handleSetStorageAt } from './handle-set-account-state';
 
 const newBlockChannel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel('newBlock') : undefined;
 
 export interface EvmProviderOptions {
+  // Compiler artifacts used to report reverts with Solidity stack traces.
+  artifacts?: ContractArtifact[];
+  // Whether each transaction is mined into a block as soon as it's sent. If disabled, transactions are queued until
+  // evm_mine is called. Defaults to true.
+  automine?: boolean;
   blockDelay?: number;
+  // Records the code executed by transactions and calls, from which Solidity coverage can be reported. Gas estimates,
+  // bundle simulations and traces are not recorded.
+  coverage?: CoverageCollector;
+  // Records the gas used by deployments and method calls of known contracts in mined transactions.
+  gasReporter?: GasReporter;
+  // The hardfork whose EVM rules are applied. Defaults to istanbul.
+  hardfork?: Hardfork;
   wallet?: Wallet;
+  // Whether to sync with other tabs over the newBlock BroadcastChannel, delivering blocks mined locally, importing
+  // theirs and serving their requests. Only one provider per chain should, as each delivers every block added to it.
   listenForBlocks?: boolean;
 }
 
+interface Snapshot {
+  stateRoot: Buffer;
+  // Hash of the chain tip, or undefined if the chain was empty.
+  headHash?: Buffer;
+  pooledTxs: PooledTx[];
+  clock: BlockchainClock;
+  subscriptionIds: string[];
+}
+
 export class EvmProvider extends EventEmitter implements EthereumProvider {
   public wallet?: Wallet;
+  private sourceMapper?: SourceMapper;
   private subscriptions: { [id: string]: any } = {};
   private nextSubscriptionId = 0;
-  private blockHandler = e => this.handleBlock(new Buffer(e.data));
+  private snapshots: { [id: string]: Snapshot } = {};
+  private nextSnapshotId = 1;
+  // Accounts from which transactions can be sent without their private keys.
+  private impersonatedAccounts = new Set<string>();
+  // Transactions waiting to be mined, either because automine is disabled or because of a gap in their nonces.
+  private txPool: TxPool;
+  // Transactions are queued one at a time, so each is assigned the next nonce of its sender.
+  private queueing: Promise<any> = Promise.resolve();
+  private sync: BlockSync;
 
   constructor(
     public readonly worldState: WorldState,
@@ -53,9 +123,15 @@ export class EvmProvider extends EventEmitter implements EthereumProvider {
   ) {
     super();
     this.wallet = options.wallet;
+    this.txPool = new TxPool(worldState);
+
+    if (options.artifacts) {
+      this.addArtifacts(options.artifacts);
+    }
 
+    this.sync = new BlockSync(blockchain, blockState => this.importBlock(blockState));
     if (options.listenForBlocks && newBlockChannel) {
-      newBlockChannel.onmessage = this.blockHandler;
+      this.sync.addTransport(fromBroadcastChannel(newBlockChannel));
     }
   }
 
@@ -65,7 +141,23 @@ export class EvmProvider extends EventEmitter implements EthereumProvider {
 
   public static async fromDb(db: LevelUp, options?: EvmProviderOptions) {
     const worldState = await WorldState.fromDb(db);
-    const blockchain = await Blockchain.fromDb(db);
+    const blockchain = await Blockchain.fromDb(db, options && options.hardfork);
+    return new EvmProvider(worldState, blockchain, options);
+  }
+
+  /**
+   * Creates a provider whose state is forked from the upstream provider at the given block. Accounts, code and storage
+   * are fetched from upstream when first accessed, and cached in the given db. Local blocks are mined on top of the
+   * fork's state, numbered on from the fork block, whose hash and those of the 255 blocks before it are available to
+   * BLOCKHASH.
+   */
+  public static async fork(upstream: EthereumProvider, blockNumber: number, db: LevelUp, options?: EvmProviderOptions) {
+    const fork = new ForkSource(db, upstream, blockNumber);
+    const worldState = await WorldState.fromDb(db, fork);
+    const blockchain = await Blockchain.fromDb(db, options && options.hardfork, undefined, {
+      forkBlockNumber: blockNumber,
+      blockHashes: await fork.getBlockHashes(256),
+    });
     return new EvmProvider(worldState, blockchain, options);
   }
 
@@ -94,6 +186,17 @@ export class EvmProvider extends EventEmitter implements EthereumProvider {
     this.wallet = wallet;
   }
 
+  /**
+   * Registers compiler artifacts (source maps and sources). Failed transactions in their code will throw errors with
+   * Solidity stack traces.
+   */
+  public addArtifacts(artifacts: ContractArtifact[]) {
+    if (!this.sourceMapper) {
+      this.sourceMapper = new SourceMapper();
+    }
+    this.sourceMapper.addArtifacts(artifacts);
+  }
+
   public setBlockDelay(blockDelay: number) {
     this.options.blockDelay = blockDelay;
   }
@@ -106,9 +209,43 @@ export class EvmProvider extends EventEmitter implements EthereumProvider {
       case 'eth_accounts':
         return this.wallet ? this.wallet.currentAddresses() : [];
       case 'eth_gasPrice':
-        return numberToHex(50000);
+        return numberToHex(this.getGasPrice().toString());
       case 'net_version':
-        return numberToHex(666);
+        return this.blockchain.chainId.toString();
+      case 'eth_chainId':
+        return numberToHex(this.blockchain.chainId);
+      case 'web3_clientVersion':
+        return 'web3x-evm';
+      case 'eth_protocolVersion':
+        return '63';
+      case 'eth_coinbase':
+        return this.blockchain.getContext().coinbase.toString();
+      case 'eth_mining':
+        return this.options.automine !== false;
+      case 'eth_hashrate':
+        return '0x0';
+      case 'eth_syncing':
+        return false;
+      case 'eth_blockNumber':
+        return numberToHex(resolveBlockNumber(this.blockchain, 'latest'));
+      case 'eth_pendingTransactions':
+        return handlePendingTransactions(this.txPool);
+      case 'evm_snapshot':
+        return this.snapshot();
+      case 'evm_mine':
+        if (params && params[0] !== undefined) {
+          this.blockchain.setNextBlockTimestamp(Number(params[0]));
+        }
+        await this.mine();
+        return '0x0';
+      case 'evm_increaseTime':
+        return this.blockchain.increaseTime(Number(params![0]));
+      case 'evm_setNextBlockTimestamp':
+        this.blockchain.setNextBlockTimestamp(Number(params![0]));
+        return numberToHex(params![0]);
+      case 'evm_setAutomine':
+        await this.setAutomine(params![0]);
+        return true;
     }
 
     if (!params || !params[0]) {
@@ -117,29 +254,126 @@ export class EvmProvider extends EventEmitter implements EthereumProvider {
 
     switch (method) {
       case 'eth_sendTransaction':
-        if (!this.wallet) {
-          throw new Error('No wallet available for signing transactions.');
-        }
-        return await handleSendTransaction(
-          this.worldState,
-          this.blockchain,
-          fromRawTransactionRequest(params[0]),
-          this.wallet,
-          newBlockChannel,
-          this.options.blockDelay,
-        );
+        return await this.sendTransaction(fromRawTransactionRequest(params[0]));
+      case 'eth_sendRawTransaction':
+        return await this.sendRawTransaction(deserializeTx(hexToBuffer(params[0])));
+      case 'eth_signTransaction':
+        return await this.signTransaction(fromRawTransactionRequest(params[0]));
+      case 'eth_sign':
+        return this.sign(Address.fromString(params[0]), params[1]);
       case 'eth_call':
-        return bufferToHex(await handleCall(this.worldState, this.blockchain, fromRawCallRequest(params[0])));
+        return bufferToHex(
+          await handleCall(
+            await this.getWorldState(params[1]),
+            getBlockchainContextAtBlock(this.blockchain, params[1]),
+            fromRawCallRequest(params[0]),
+            {
+              state: params[2] && fromRawStateOverrides(params[2]),
+              block: params[3] && fromRawBlockOverrides(params[3]),
+            },
+            this.options.coverage,
+          ),
+        );
+      case 'eth_callBundle':
+        return await handleCallBundle(await this.getWorldState(params[0].stateBlockNumber), this.blockchain, params[0]);
+      case 'eth_estimateGas':
+        return numberToHex(
+          (
+            await handleEstimateGas(
+              await this.getWorldState(params[1]),
+              getBlockchainContextAtBlock(this.blockchain, params[1]),
+              fromRawEstimateRequest(params[0]),
+            )
+          ).toString(),
+        );
+      case 'eth_getBalance':
+        return numberToHex(
+          (await getAccountBalance(await this.getWorldState(params[1]), Address.fromString(params[0]))).toString(),
+        );
+      case 'eth_getStorageAt':
+        return bufferToHex(
+          await getAccountStorage(
+            await this.getWorldState(params[2]),
+            Address.fromString(params[0]),
+            BigInt(params[1]),
+          ),
+        );
       case 'eth_getTransactionCount':
-        return numberToHex(await getAccountTransactions(this.worldState, Address.fromString(params![0])));
+        return numberToHex(
+          await getAccountTransactions(await this.getWorldState(params[1]), Address.fromString(params[0])),
+        );
       case 'eth_getTransactionReceipt':
         return await handleGetTransactionReceipt(this.blockchain, params[0]);
       case 'eth_getTransactionByHash':
-        return await handleGetTransactionByHash(this.blockchain, params[0]);
+        return (
+          (await handleGetTransactionByHash(this.blockchain, params[0])) ||
+          handleGetPooledTransaction(this.txPool, params[0])
+        );
+      case 'eth_getTransactionByBlockNumberAndIndex':
+        return await handleGetTransactionFromBlock(
+          this.blockchain,
+          resolveBlockNumber(this.blockchain, params[0]),
+          hexToNumber(params[1]),
+        );
+      case 'eth_getTransactionByBlockHashAndIndex':
+        return await handleGetTransactionFromBlock(
+          this.blockchain,
+          this.blockchain.getBlockNumber(hexToBuffer(params[0])),
+          hexToNumber(params[1]),
+        );
+      case 'eth_getBlockByNumber':
+        return await handleGetBlock(this.blockchain, resolveBlockNumber(this.blockchain, params[0]), params[1]);
+      case 'eth_getBlockByHash':
+        return await handleGetBlock(this.blockchain, this.blockchain.getBlockNumber(hexToBuffer(params[0])), params[1]);
+      case 'eth_getBlockTransactionCountByNumber':
+        return await handleGetBlockTransactionCount(this.blockchain, resolveBlockNumber(this.blockchain, params[0]));
+      case 'eth_getBlockTransactionCountByHash':
+        return await handleGetBlockTransactionCount(
+          this.blockchain,
+          this.blockchain.getBlockNumber(hexToBuffer(params[0])),
+        );
+      case 'eth_getUncleByBlockNumberAndIndex':
+      case 'eth_getUncleByBlockHashAndIndex':
+        return null;
+      case 'eth_getUncleCountByBlockNumber':
+      case 'eth_getUncleCountByBlockHash':
+        return '0x0';
       case 'eth_getCode':
-        return bufferToHex(await getAccountCode(this.worldState, Address.fromString(params![0])));
+        return bufferToHex(await getAccountCode(await this.getWorldState(params[1]), Address.fromString(params[0])));
       case 'eth_getLogs':
-        return (await getLogs(this.blockchain, fromRawLogRequest(params![0]))).map(toRawLogResponse);
+        return (await getLogs(this.blockchain, fromRawLogRequest(params[0]))).map(toRawLogResponse);
+      case 'debug_traceTransaction':
+        return await handleTraceTransaction(this.blockchain, params[0], params[1], this.worldState.fork);
+      case 'debug_traceCall':
+        return await handleTraceCall(
+          await this.getWorldState(params[1]),
+          getBlockchainContextAtBlock(this.blockchain, params[1]),
+          fromRawCallRequest(params[0]),
+          params[2],
+        );
+      case 'evm_revert':
+        return await this.revertToSnapshot(numberToHex(params[0]));
+      case 'evm_impersonateAccount':
+        this.impersonatedAccounts.add(Address.fromString(params[0]).toString());
+        return true;
+      case 'evm_stopImpersonatingAccount':
+        return this.impersonatedAccounts.delete(Address.fromString(params[0]).toString());
+      case 'evm_setBalance':
+        return await this.setAccountState(() =>
+          handleSetBalance(this.worldState, Address.fromString(params[0]), BigInt(params[1])),
+        );
+      case 'evm_setCode':
+        return await this.setAccountState(() =>
+          handleSetCode(this.worldState, Address.fromString(params[0]), hexToBuffer(params[1])),
+        );
+      case 'evm_setNonce':
+        return await this.setAccountState(() =>
+          handleSetNonce(this.worldState, Address.fromString(params[0]), BigInt(params[1])),
+        );
+      case 'evm_setStorageAt':
+        return await this.setAccountState(() =>
+          handleSetStorageAt(this.worldState, Address.fromString(params[0]), BigInt(params[1]), BigInt(params[2])),
+        );
       case 'eth_subscribe':
         return numberToHex(this.subscribe(params[0], params[1]));
       case 'eth_unsubscribe':
@@ -149,6 +383,246 @@ export class EvmProvider extends EventEmitter implements EthereumProvider {
     }
   }
 
+  /**
+   * Simulates the transactions in order on top of the given block, without committing them, as if in the block after
+   * it. Returns the outcome of each, and the balance changes of the given addresses.
+   */
+  public async simulateBundle(txs: Tx[], balanceAddresses?: Address[], block: string = 'latest') {
+    return await simulateBundle(
+      await this.getWorldState(block),
+      getBlockchainContextAfterBlock(this.blockchain, block),
+      txs,
+      balanceAddresses,
+    );
+  }
+
+  /**
+   * Syncs the chain with the provider holding the other end of the port's MessageChannel, which may be in another
+   * worker thread. Each keeps the other's blocks, catching up on any it's missing.
+   */
+  public addSyncPort(port: MessagePort) {
+    this.sync.addTransport(fromMessagePort(port));
+  }
+
+  /**
+   * Resolves once blocks received from peers so far have been imported. Rejects with the first error importing them,
+   * if any failed since the last flush.
+   */
+  public async flushSync() {
+    await this.sync.flush();
+  }
+
+  /**
+   * Validates a block mined elsewhere and adds it to the chain. It may extend the chain tip or any other known block,
+   * in which case the chain is reorganised onto its branch if that's now the longest.
+   */
+  public async importBlock(blockState: BlockState) {
+    await validateBlock(this.worldState, this.blockchain, blockState);
+    await this.txPool.prune();
+  }
+
+  /**
+   * Reorganises the chain so the given known block is its tip, rewinding the world state to that block's state.
+   */
+  public async setHead(blockHash: Buffer) {
+    await this.blockchain.setHead(blockHash);
+    await this.worldState.setStateRoot(this.blockchain.getChaintip().stateRoot);
+    await this.txPool.prune();
+  }
+
+  /**
+   * Enables or disables automine. Any pending transactions are mined when it's enabled.
+   */
+  public async setAutomine(automine: boolean) {
+    this.options.automine = automine;
+    if (automine) {
+      await this.minePendingTxs();
+    }
+  }
+
+  private async sendTransaction(txRequest: TransactionRequest) {
+    if (this.options.automine === false) {
+      return await this.queueTransaction(txRequest);
+    }
+    return await this.mineTransaction(await this.createTransaction(txRequest), txRequest.from);
+  }
+
+  private async sendRawTransaction(tx: Tx) {
+    // Only transactions sent with eth_sendTransaction may be unsigned, from impersonated accounts.
+    if (isUnsignedTx(tx)) {
+      throw new Error('Transaction is unsigned.');
+    }
+    const sender = recoverTransactionSender(tx);
+    if (this.options.automine === false || tx.nonce > (await this.worldState.getTransactionCount(sender))) {
+      return bufferToHex((await this.txPool.add(tx, sender)).txHash);
+    }
+    return await this.mineTransaction(tx, sender);
+  }
+
+  private async mineTransaction(tx: Tx, sender: Address) {
+    try {
+      return await handleSendTransaction(
+        this.worldState,
+        this.blockchain,
+        tx,
+        sender,
+        this.options.blockDelay,
+        this.sourceMapper,
+        this.options.coverage,
+        this.options.gasReporter,
+      );
+    } finally {
+      // The transaction may have filled a nonce gap before transactions queued in the pool.
+      await this.minePendingTxs();
+    }
+  }
+
+  /**
+   * Applies a change to account state made outside of any block. The chain tip's state root no longer matches the world
+   * state, so peers would reject the next block, and it's not allowed while syncing with them. Reorganising the chain
+   * discards the change.
+   */
+  private async setAccountState(update: () => Promise<void>) {
+    if (this.sync.hasTransports()) {
+      throw new Error('Account state cannot be set while syncing with peers.');
+    }
+    await update();
+    return true;
+  }
+
+  private async signTransaction(txRequest: TransactionRequest) {
+    if (!this.wallet) {
+      throw new Error('No wallet available for signing transactions.');
+    }
+    return await handleSignTransaction(this.worldState, this.blockchain, txRequest, this.wallet);
+  }
+
+  private sign(address: Address, data: string) {
+    const account = this.wallet && this.wallet.get(address);
+    if (!account) {
+      throw new Error(`Unknown address: ${address}`);
+    }
+    return account.sign(data).signature;
+  }
+
+  /**
+   * Returns the world state at the given block tag, against which state queries and calls are made.
+   */
+  private async getWorldState(block?: string) {
+    return await getWorldStateAtBlock(this.worldState, this.blockchain, block, this.txPool);
+  }
+
+  /**
+   * Returns the suggested gas price. With a fee market, this allows for the base fee doubling before the transaction
+   * is mined.
+   */
+  private getGasPrice() {
+    const { baseFee = BigInt(0) } = this.blockchain.getContext();
+    return BigInt(2) * baseFee + BigInt(50000);
+  }
+
+  /**
+   * Signs the transaction with the wallet, or if the sender is being impersonated, creates it unsigned. Peers reject
+   * blocks containing unsigned transactions, so they can't be sent while syncing with them.
+   */
+  private async createTransaction(txRequest: TransactionRequest) {
+    if (this.impersonatedAccounts.has(txRequest.from.toString())) {
+      if (this.sync.hasTransports()) {
+        throw new Error('Impersonated transactions cannot be sent while syncing with peers.');
+      }
+      return await createImpersonatedTransaction(this.worldState, txRequest);
+    }
+    if (!this.wallet) {
+      throw new Error('No wallet available for signing transactions.');
+    }
+    return await signTransaction(this.worldState, this.blockchain, txRequest, this.wallet);
+  }
+
+  private queueTransaction(txRequest: TransactionRequest) {
+    const txHash = this.queueing.then(() => this.createAndQueueTransaction(txRequest));
+    this.queueing = txHash.catch(() => undefined);
+    return txHash;
+  }
+
+  private async createAndQueueTransaction(txRequest: TransactionRequest) {
+    // Account for the nonces of transactions already pending from the same sender.
+    if (txRequest.nonce === undefined) {
+      const nonce = await this.txPool.getNextNonce(txRequest.from);
+      txRequest = { ...txRequest, nonce: nonce.toString() };
+    }
+    const tx = await this.createTransaction(txRequest);
+    return bufferToHex((await this.txPool.add(tx, txRequest.from)).txHash);
+  }
+
+  private async mine() {
+    const evaluatedTxs = await handleMine(this.worldState, this.blockchain, this.txPool, this.options.coverage);
+    if (this.options.gasReporter) {
+      this.options.gasReporter.addEvaluatedTxs(evaluatedTxs);
+    }
+    return evaluatedTxs;
+  }
+
+  /**
+   * Mines blocks until no pending transactions remain, or those remaining can't be mined.
+   */
+  private async minePendingTxs() {
+    while ((await this.txPool.getPending()).length) {
+      const poolSize = this.txPool.getTransactions().length;
+      await this.mine();
+      if (this.txPool.getTransactions().length === poolSize) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Records the current world state, chain tip, pooled transactions, time adjustments and subscriptions, returning an
+   * id with which to revert to them.
+   */
+  private snapshot() {
+    const id = numberToHex(this.nextSnapshotId++);
+    const head = this.blockchain.getBlock(this.blockchain.getBlockCount() - 1);
+    this.snapshots[id] = {
+      stateRoot: this.worldState.getStateRoot(),
+      headHash: head && head.blockHash,
+      pooledTxs: this.txPool.getTransactions(),
+      clock: this.blockchain.getClock(),
+      subscriptionIds: Object.keys(this.subscriptions),
+    };
+    return id;
+  }
+
+  /**
+   * Reverts to the given snapshot. The snapshot, and any taken after it, can't be reverted to again.
+   */
+  private async revertToSnapshot(id: string) {
+    const snapshot = this.snapshots[id];
+    if (!snapshot) {
+      return false;
+    }
+
+    Object.keys(this.snapshots)
+      .filter(snapshotId => Number(snapshotId) >= Number(id))
+      .forEach(snapshotId => delete this.snapshots[snapshotId]);
+
+    const { stateRoot, headHash, pooledTxs, clock, subscriptionIds } = snapshot;
+    Object.keys(this.subscriptions)
+      .filter(subscriptionId => !subscriptionIds.includes(subscriptionId))
+      .forEach(subscriptionId => this.unsubscribe(subscriptionId));
+
+    // Blocks mined since are removed, and their logs emitted again marked as removed.
+    if (headHash) {
+      await this.blockchain.setHead(headHash);
+    } else {
+      await this.blockchain.truncate(0);
+    }
+    await this.worldState.setStateRoot(stateRoot);
+    this.txPool.restore(pooledTxs);
+    this.blockchain.setClock(clock);
+
+    return true;
+  }
+
   private subscribe(event: string, params: any) {
     const id = numberToHex(this.nextSubscriptionId++);
 
@@ -182,20 +656,7 @@ export class EvmProvider extends EventEmitter implements EthereumProvider {
   }
 
   private handleNewHead(subscription: string, block: BlockHeader, hash: Buffer) {
-    const blockResponse: BlockHeaderResponse = {
-      hash,
-      ...block,
-      difficulty: block.difficulty.toString(),
-      gasLimit: Number(block.gasLimit),
-      gasUsed: Number(block.gasUsed),
-      nonce: toBufferBE(BigInt(block.nonce), 8),
-    };
-    this.emit('notification', { subscription, result: toRawBlockHeaderResponse(blockResponse) });
-  }
-
-  private async handleBlock(serializedBlockState: Buffer) {
-    const blockState = deserializeBlockState(serializedBlockState);
-    await validateBlock(this.worldState, this.blockchain, blockState);
+    this.emit('notification', { subscription, result: toRawBlockHeaderResponse(toBlockHeaderResponse(block, hash)) });
   }
 
   public on(notification: 'notification', listener: (result: any) => void): this;
@@ -221,8 +682,6 @@ export class EvmProvider extends EventEmitter implements EthereumProvider {
   }
 
   public close() {
-    if (newBlockChannel) {
-      newBlockChannel.removeEventListener('message', this.blockHandler);
-    }
+    this.sync.close();
   }
 }
@@ -0,0 +1,87 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { Address } from 'web3x/address';
+import { bufferToHex, hexToBuffer, hexToNumber, numberToHex, sha3 } from 'web3x/utils';
+import { Blockchain } from '../blockchain';
+import { simulateBundle } from '../blockchain/simulate-bundle';
+import { deserializeTx } from '../tx';
+import { WorldState } from '../world';
+import { getBlockchainContextAfterBlock, resolveBlockNumber } from './block-tag';
+
+export interface RawCallBundleRequest {
+  txs: string[];
+  blockNumber: string;
+  stateBlockNumber?: string;
+  timestamp?: number;
+  // Addresses whose balance changes over the bundle are reported. Not part of the Flashbots API.
+  balanceAddresses?: string[];
+}
+
+const toHex = (n: bigint) => numberToHex(n.toString());
+
+/**
+ * Simulates the bundle of signed raw transactions as eth_callBundle does. The world state is that of the state block,
+ * and the bundle is executed in the context of the block after it, numbered as the given block number.
+ */
+export async function handleCallBundle(worldState: WorldState, blockchain: Blockchain, request: RawCallBundleRequest) {
+  const { txs: rawTxs, blockNumber, stateBlockNumber = 'latest', timestamp, balanceAddresses = [] } = request;
+  const blockchainContext = {
+    ...getBlockchainContextAfterBlock(blockchain, stateBlockNumber),
+    blockNumber: hexToNumber(blockNumber),
+    ...(timestamp !== undefined ? { timestamp } : {}),
+  };
+
+  const { results, totalGasUsed, coinbasePayment, balanceDeltas } = await simulateBundle(
+    worldState,
+    blockchainContext,
+    rawTxs.map(rawTx => deserializeTx(hexToBuffer(rawTx))),
+    balanceAddresses.map(address => Address.fromString(address)),
+  );
+
+  // Gas fees are those paid to the coinbase, so exclude any base fee.
+  const { baseFee = BigInt(0) } = blockchainContext;
+  const gasFees = results.reduce((sum, { gasUsed, gasPrice }) => sum + gasUsed * (gasPrice - baseFee), BigInt(0));
+
+  return {
+    bundleHash: sha3(Buffer.concat(results.map(({ txHash }) => txHash))),
+    bundleGasPrice: toHex(totalGasUsed ? coinbasePayment / totalGasUsed : BigInt(0)),
+    coinbaseDiff: toHex(coinbasePayment),
+    ethSentToCoinbase: toHex(coinbasePayment - gasFees),
+    gasFees: toHex(gasFees),
+    totalGasUsed: Number(totalGasUsed),
+    stateBlockNumber: resolveBlockNumber(blockchain, stateBlockNumber),
+    balanceDeltas: Object.entries(balanceDeltas).reduce(
+      (deltas, [address, delta]) => ({ ...deltas, [address]: toHex(delta) }),
+      {} as { [address: string]: string },
+    ),
+    results: results.map(result => {
+      const txGasFees = result.gasUsed * (result.gasPrice - baseFee);
+      return {
+        txHash: bufferToHex(result.txHash),
+        fromAddress: result.sender.toString(),
+        toAddress: result.to ? result.to.toString() : '0x',
+        gasUsed: Number(result.gasUsed),
+        gasPrice: toHex(result.gasPrice),
+        gasFees: toHex(txGasFees),
+        coinbaseDiff: toHex(result.coinbasePayment),
+        ethSentToCoinbase: toHex(result.coinbasePayment - txGasFees),
+        logs: result.logs.map(({ address, topics, data }) => ({
+          address: address.toString(),
+          topics: topics.map(bufferToHex),
+          data: bufferToHex(data),
+        })),
+        ...(result.success
+          ? { value: bufferToHex(result.returned) }
+          : {
+              error: result.error ? result.error.message : 'execution reverted',
+              revert: bufferToHex(result.returned),
+            }),
+      };
+    }),
+  };
+}
@@ -5,19 +5,112 @@
   https://opensource.org/licenses/MIT
 */
 
+import { toBufferBE } from 'bigint-buffer';
 import { Address } from 'web3x/address';
-import { CallRequest } from 'web3x/formatters';
-import { Blockchain } from '../blockchain';
-import { staticMessageCall } from '../vm';
+import { ContractRevertError } from 'web3x/contract';
+import { AccountOverride, BlockOverrides, CallOverrides, CallRequest, StateOverrides } from 'web3x/formatters';
+import { BlockchainContext } from '../blockchain';
+import { Tracer } from '../tracer';
+import { staticMessageCall, warmTransactionAccounts } from '../vm';
 import { WorldState } from '../world/world-state';
 
-export async function handleCall(worldState: WorldState, blockchain: Blockchain, callRequest: CallRequest) {
+/**
+ * Executes the call against the world state, in the given block context. Any state overrides are applied within a
+ * checkpoint that is reverted afterwards, and block overrides replace fields of the block context.
+ */
+export async function handleCall(
+  worldState: WorldState,
+  blockContext: BlockchainContext,
+  callRequest: CallRequest,
+  overrides: CallOverrides = {},
+  tracer?: Tracer,
+) {
+  const blockchainContext = applyBlockOverrides(blockContext, overrides.block);
+
+  if (!overrides.state) {
+    return await executeCall(worldState, blockchainContext, callRequest, tracer);
+  }
+
+  worldState.checkpoint();
+  try {
+    await applyStateOverrides(worldState, overrides.state);
+    return await executeCall(worldState, blockchainContext, callRequest, tracer);
+  } finally {
+    await worldState.revert();
+  }
+}
+
+async function executeCall(
+  worldState: WorldState,
+  blockchainContext: BlockchainContext,
+  callRequest: CallRequest,
+  tracer?: Tracer,
+) {
   const { to, data, from = Address.ZERO } = callRequest;
+  const gas = callRequest.gas ? BigInt(callRequest.gas) : blockchainContext.blockGasLimit;
 
   if (data) {
-    const { returned } = await staticMessageCall(worldState, blockchain.getContext(), from, from, to, to, data, 0);
+    worldState.startTransaction();
+    warmTransactionAccounts(worldState, blockchainContext.hardfork, from, to);
+    const { returned, reverted, error } = await staticMessageCall(
+      worldState,
+      blockchainContext,
+      from,
+      from,
+      to,
+      to,
+      data,
+      gas,
+      0,
+      tracer,
+    );
+    if (reverted) {
+      throw error || new ContractRevertError(returned);
+    }
     return returned;
   }
 
   return Buffer.of();
 }
+
+function applyBlockOverrides(blockchainContext: BlockchainContext, overrides: BlockOverrides = {}): BlockchainContext {
+  const { number: blockNumber, timestamp, coinbase } = overrides;
+  return {
+    ...blockchainContext,
+    blockNumber: blockNumber !== undefined ? blockNumber : blockchainContext.blockNumber,
+    timestamp: timestamp !== undefined ? timestamp : blockchainContext.timestamp,
+    coinbase: coinbase || blockchainContext.coinbase,
+  };
+}
+
+async function applyStateOverrides(worldState: WorldState, overrides: StateOverrides) {
+  for (const [address, override] of Object.entries(overrides)) {
+    await applyAccountOverride(worldState, Address.fromString(address), override);
+  }
+}
+
+async function applyAccountOverride(worldState: WorldState, address: Address, override: AccountOverride) {
+  const { balance, nonce, code, state, stateDiff } = override;
+  let account = await worldState.loadOrCreateAccount(address);
+
+  if (state) {
+    // Recreate the account so it starts with empty storage.
+    await worldState.deleteAccount(address);
+    account = await worldState.createAccount(address, account.balance, account.nonce, account.code);
+  }
+
+  if (balance !== undefined) {
+    account.balance = BigInt(balance);
+  }
+  if (nonce !== undefined) {
+    account.nonce = BigInt(nonce);
+  }
+  if (code) {
+    account.code = code;
+  }
+
+  // Zero values are stored rather than deleted, as by SSTORE.
+  for (const [slot, value] of Object.entries({ ...state, ...stateDiff })) {
+    await account.storage.put(toBufferBE(BigInt(slot), 32), toBufferBE(BigInt(value), 32));
+  }
+}
@@ -0,0 +1,113 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { Address } from 'web3x/address';
+import { CallRequest } from 'web3x/formatters';
+import { TransactionHash } from 'web3x/types';
+import { hexToBuffer } from 'web3x/utils';
+import { Blockchain, BlockchainContext } from '../blockchain';
+import { CallTracer, StructLogger, StructLoggerOptions } from '../tracer';
+import { Trie } from '../trie';
+import { executeTransaction, staticMessageCall, warmTransactionAccounts } from '../vm';
+import { ForkSource, WorldState } from '../world';
+
+export interface TraceOptions extends StructLoggerOptions {
+  // Set to 'callTracer' for a tree of calls rather than a log of every step.
+  tracer?: string;
+}
+
+function createTracer({ tracer, ...options }: TraceOptions) {
+  if (!tracer) {
+    return new StructLogger(options);
+  } else if (tracer === 'callTracer') {
+    return new CallTracer();
+  } else {
+    throw new Error(`Unsupported tracer: ${tracer}`);
+  }
+}
+
+function formatTrace(tracer: StructLogger | CallTracer, gasUsed: bigint, reverted: boolean, returned: Buffer) {
+  if (tracer instanceof CallTracer) {
+    return tracer.getResult();
+  }
+  return {
+    gas: Number(gasUsed),
+    failed: reverted,
+    returnValue: returned.toString('hex'),
+    structLogs: tracer.getStructLogs(),
+  };
+}
+
+/**
+ * Replays a mined transaction against the state it was originally executed on, tracing its execution.
+ */
+export async function handleTraceTransaction(
+  blockchain: Blockchain,
+  transactionHash: TransactionHash,
+  options: TraceOptions = {},
+  fork?: ForkSource,
+) {
+  const txDetails = await blockchain.getMinedTransaction(hexToBuffer(transactionHash)).catch(() => undefined);
+  if (!txDetails) {
+    throw new Error(`Transaction not found: ${transactionHash}`);
+  }
+
+  const { blockHeader, tx, from, preStateRoot } = txDetails;
+  if (!preStateRoot) {
+    throw new Error(`State prior to transaction is not available: ${transactionHash}`);
+  }
+
+  const tracer = createTracer(options);
+  const worldState = new WorldState(blockchain.db, new Trie(blockchain.db, preStateRoot), fork);
+  const blockchainContext = blockchain.getBlockContext(blockHeader.number);
+
+  // Execute within a checkpoint that is then discarded, so nothing is persisted.
+  worldState.checkpoint();
+  try {
+    const { remainingGas, reverted, returned = Buffer.of() } = await executeTransaction(
+      { worldState, blockchainContext, sender: from, tracer },
+      tx,
+    );
+    return formatTrace(tracer, tx.gasLimit - remainingGas, reverted, returned);
+  } finally {
+    await worldState.revert();
+  }
+}
+
+/**
+ * Traces a call against the world state, in the given block context.
+ */
+export async function handleTraceCall(
+  worldState: WorldState,
+  blockchainContext: BlockchainContext,
+  callRequest: CallRequest,
+  options: TraceOptions = {},
+) {
+  const { to, data = Buffer.of(), from = Address.ZERO } = callRequest;
+  const gas = callRequest.gas ? BigInt(callRequest.gas) : blockchainContext.blockGasLimit;
+  const tracer = createTracer(options);
+
+  worldState.startTransaction();
+  warmTransactionAccounts(worldState, blockchainContext.hardfork, from, to);
+
+  tracer.onCallEnter({ type: 'CALL', from, to, value: BigInt(0), gas, input: data, depth: 0 });
+  const { returned, remainingGas, reverted } = await staticMessageCall(
+    worldState,
+    blockchainContext,
+    from,
+    from,
+    to,
+    to,
+    data,
+    gas,
+    0,
+    tracer,
+  );
+  tracer.onCallExit({ gasUsed: gas - remainingGas, output: returned, reverted });
+
+  return formatTrace(tracer, gas - remainingGas, reverted, returned);
+}
@@ -0,0 +1,89 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { Address } from 'web3x/address';
+import { ContractRevertError } from 'web3x/contract';
+import { EstimateRequest } from 'web3x/formatters';
+import { BlockchainContext } from '../blockchain';
+import { Tx } from '../tx';
+import { executeTransaction } from '../vm';
+import { WorldState } from '../world';
+
+/**
+ * Returns the lowest gas limit with which the transaction succeeds against the world state, in the given block
+ * context. Because of gas refunds and the 63/64ths rule for calls, this can be more than the gas the transaction uses.
+ * Reverts throw the same errors as sending the transaction would.
+ */
+export async function handleEstimateGas(
+  worldState: WorldState,
+  blockContext: BlockchainContext,
+  request: EstimateRequest,
+) {
+  // Gas is priced at zero, so the base fee is waived.
+  const blockchainContext = { ...blockContext, baseFee: undefined };
+  const gasCap = request.gas ? BigInt(request.gas) : blockchainContext.blockGasLimit;
+
+  const result = await executeEstimate(worldState, blockchainContext, request, gasCap);
+  if (result.reverted) {
+    throw result.error || new ContractRevertError(result.returned || Buffer.of());
+  }
+
+  const succeeds = async (gasLimit: bigint) => {
+    try {
+      return !(await executeEstimate(worldState, blockchainContext, request, gasLimit)).reverted;
+    } catch (err) {
+      // Gas limits below the intrinsic gas are rejected.
+      return false;
+    }
+  };
+
+  // The gas used after refunds is a lower bound, so the search starts just below it.
+  let lo = gasCap - result.remainingGas - BigInt(1);
+  let hi = gasCap;
+  while (lo + BigInt(1) < hi) {
+    const mid = (lo + hi) / BigInt(2);
+    if (await succeeds(mid)) {
+      hi = mid;
+    } else {
+      lo = mid;
+    }
+  }
+
+  return hi;
+}
+
+/**
+ * Executes the transaction with the given gas limit, within a checkpoint that is then discarded so nothing is
+ * persisted. Gas is priced at zero, so the sender needn't exist or be able to pay for it.
+ */
+async function executeEstimate(
+  worldState: WorldState,
+  blockchainContext: BlockchainContext,
+  request: EstimateRequest,
+  gasLimit: bigint,
+) {
+  const { from = Address.ZERO, to, data = Buffer.of(), value = 0 } = request;
+
+  worldState.checkpoint();
+  try {
+    const sender = await worldState.loadOrCreateAccount(from);
+    const tx: Tx = {
+      nonce: sender.nonce,
+      to,
+      dataOrInit: data,
+      gasPrice: BigInt(0),
+      gasLimit,
+      value: BigInt(value),
+      v: '0x',
+      r: '0x',
+      s: '0x',
+    };
+    return await executeTransaction({ worldState, blockchainContext, sender: from }, tx);
+  } finally {
+    await worldState.revert();
+  }
+}
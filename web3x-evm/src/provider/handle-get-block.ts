@@ -0,0 +1,79 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { toBufferBE } from 'bigint-buffer';
+import {
+  BlockHeaderResponse,
+  RawBlockResponse,
+  RawTransactionResponse,
+  toRawBlockHeaderResponse,
+} from 'web3x/formatters';
+import { bufferToHex, numberToHex, sha3Buffer } from 'web3x/utils';
+import { Blockchain, BlockHeader, serializeBlockHeader } from '../blockchain';
+import { handleGetTransactionByHash } from './handle-get-transaction';
+
+export function toBlockHeaderResponse(header: BlockHeader, hash: Buffer): BlockHeaderResponse {
+  return {
+    hash,
+    ...header,
+    difficulty: header.difficulty.toString(),
+    gasLimit: Number(header.gasLimit),
+    gasUsed: Number(header.gasUsed),
+    nonce: toBufferBE(BigInt(header.nonce), 8),
+    baseFeePerGas: header.baseFeePerGas !== undefined ? header.baseFeePerGas.toString() : undefined,
+  };
+}
+
+async function getBlockTransactionHashes(blockchain: Blockchain, header: BlockHeader) {
+  return (await blockchain.getBlockTransactions(header)).map(tx => bufferToHex(sha3Buffer(tx)));
+}
+
+export async function handleGetBlock(
+  blockchain: Blockchain,
+  blockNumber: number | undefined,
+  returnTransactionObjects: boolean = false,
+): Promise<RawBlockResponse | null> {
+  const block = blockNumber !== undefined ? blockchain.getBlock(blockNumber) : undefined;
+  if (!block) {
+    return null;
+  }
+
+  const { header, blockHash } = block;
+  const txHashes = await getBlockTransactionHashes(blockchain, header);
+  const transactions: (RawTransactionResponse | string)[] = returnTransactionObjects
+    ? await Promise.all(txHashes.map(async txHash => (await handleGetTransactionByHash(blockchain, txHash))!))
+    : txHashes;
+
+  return {
+    ...toRawBlockHeaderResponse(toBlockHeaderResponse(header, blockHash)),
+    totalDifficulty: '0x0',
+    size: numberToHex(serializeBlockHeader(header).length),
+    transactions,
+    uncles: [],
+  };
+}
+
+export async function handleGetBlockTransactionCount(blockchain: Blockchain, blockNumber: number | undefined) {
+  const block = blockNumber !== undefined ? blockchain.getBlock(blockNumber) : undefined;
+  if (!block) {
+    return null;
+  }
+  return numberToHex((await blockchain.getBlockTransactions(block.header)).length);
+}
+
+export async function handleGetTransactionFromBlock(
+  blockchain: Blockchain,
+  blockNumber: number | undefined,
+  index: number,
+) {
+  const block = blockNumber !== undefined ? blockchain.getBlock(blockNumber) : undefined;
+  if (!block) {
+    return null;
+  }
+  const txHashes = await getBlockTransactionHashes(blockchain, block.header);
+  return index < txHashes.length ? await handleGetTransactionByHash(blockchain, txHashes[index]) : null;
+}
@@ -5,14 +5,13 @@
   https://opensource.org/licenses/MIT
 */
 
-import { toBufferBE } from 'bigint-buffer';
+import BN from 'bn.js';
 import * as rlp from 'rlp';
 import { Address } from 'web3x/address';
 import { RawTransactionReceipt, toRawTransactionReceipt } from 'web3x/formatters';
 import { TransactionHash } from 'web3x/types';
 import { bufferToHex, hexToBuffer, sha3Buffer } from 'web3x/utils';
 import { Blockchain } from '../blockchain';
-import { recoverTransactionSender } from '../tx';
 
 export async function handleGetTransactionReceipt(
   blockchain: Blockchain,
@@ -26,12 +25,14 @@ export async function handleGetTransactionReceipt(
   }
 
   // If there is a receipt, we can assume tx exists.
-  const { blockHash, blockHeader, tx, txIndex } = (await blockchain.getMinedTransaction(txHash))!;
+  const { blockHash, blockHeader, tx, txIndex, from } = (await blockchain.getMinedTransaction(txHash))!;
   const { to, nonce } = tx;
-  // TODO: Store from in tx so no need to recover? This is slow.
-  const from = recoverTransactionSender(tx);
 
   const { cumulativeGasUsed, logs, status } = receipt;
+  // Gas used by the transaction is the increase over the cumulative gas used by the transaction before it.
+  const previousCumulativeGasUsed = txIndex
+    ? (await blockchain.getBlockReceipts(blockHeader))[txIndex - 1].cumulativeGasUsed
+    : BigInt(0);
 
   const receiptLogs = logs.map((log, logIndex) => ({
     id: null,
@@ -54,7 +55,7 @@ export async function handleGetTransactionReceipt(
     from,
     to,
     cumulativeGasUsed: Number(cumulativeGasUsed),
-    gasUsed: Number(cumulativeGasUsed),
+    gasUsed: Number(cumulativeGasUsed - previousCumulativeGasUsed),
     contractAddress: !to ? getContractAddress(from, nonce) : undefined,
     logs: receiptLogs,
     status,
@@ -64,5 +65,5 @@ export async function handleGetTransactionReceipt(
 }
 
 function getContractAddress(from: Address, nonce: bigint) {
-  return new Address(sha3Buffer(rlp.encode([from.toBuffer(), toBufferBE(nonce, 32)])).slice(12));
+  return new Address(sha3Buffer(rlp.encode([from.toBuffer(), new BN(nonce.toString())])).slice(12));
 }
@@ -9,6 +9,7 @@ import { RawTransactionResponse, toRawTransactionResponse, TransactionResponse }
 import { TransactionHash } from 'web3x/types';
 import { bufferToHex, hexToBuffer } from 'web3x/utils';
 import { Blockchain } from '../blockchain';
+import { PooledTx, TxPool } from '../tx-pool';
 
 export async function handleGetTransactionByHash(
   blockchain: Blockchain,
@@ -42,3 +43,37 @@ export async function handleGetTransactionByHash(
 
   return toRawTransactionResponse(txResponse);
 }
+
+/**
+ * Returns the transaction response of a transaction in the pool, which has no block.
+ */
+export function toPooledTransactionResponse({ tx, txHash, sender }: PooledTx): RawTransactionResponse {
+  return toRawTransactionResponse({
+    blockHash: null,
+    blockNumber: null,
+    from: sender,
+    gas: Number(tx.gasLimit),
+    gasPrice: tx.gasPrice.toString(),
+    hash: bufferToHex(txHash),
+    input: bufferToHex(tx.dataOrInit),
+    nonce: Number(tx.nonce),
+    to: tx.to || null,
+    transactionIndex: null,
+    value: tx.value.toString(),
+    v: tx.v,
+    r: tx.r,
+    s: tx.s,
+  });
+}
+
+export function handleGetPooledTransaction(txPool: TxPool, transactionHash: TransactionHash) {
+  const pooledTx = txPool.getTransaction(hexToBuffer(transactionHash));
+  return pooledTx ? toPooledTransactionResponse(pooledTx) : null;
+}
+
+/**
+ * Returns the transactions in the pool, both pending and queued.
+ */
+export function handlePendingTransactions(txPool: TxPool) {
+  return txPool.getTransactions().map(toPooledTransactionResponse);
+}
@@ -0,0 +1,20 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { Blockchain } from '../blockchain';
+import { Tracer } from '../tracer';
+import { mineTxPool, TxPool } from '../tx-pool';
+import { WorldState } from '../world';
+
+/**
+ * Mines the pool's pending transactions into a single block, up to the block gas limit. A block is mined even if there
+ * are no transactions. Transactions that revert are included with a failed receipt, as on a real chain.
+ */
+export async function handleMine(worldState: WorldState, blockchain: Blockchain, txPool: TxPool, tracer?: Tracer) {
+  const { evaluatedTxs } = await mineTxPool(worldState, blockchain, txPool, tracer);
+  return evaluatedTxs;
+}
@@ -6,25 +6,27 @@
 */
 
 import { sign } from 'web3x/account/sign-transaction';
-import { abiCoder } from 'web3x/contract/abi-coder';
+import { Address } from 'web3x/address';
+import { ContractRevertError } from 'web3x/contract';
 import { TransactionRequest } from 'web3x/formatters';
 import { TransactionHash } from 'web3x/types';
-import { sha3 } from 'web3x/utils';
+import { bufferToHex, numberToHex, sha3 } from 'web3x/utils';
 import { Wallet } from 'web3x/wallet';
-import { Blockchain, serializeBlockState } from '../blockchain';
+import { BLOCK_GAS_LIMIT, Blockchain } from '../blockchain';
 import { mineTxs } from '../blockchain/mine-txs';
+import { GasReporter } from '../gas-reporter';
+import { addSolidityStackTrace, SourceMapper, StackTraceTracer } from '../source-map';
+import { combineTracers, Tracer } from '../tracer';
 import { serializeTx, Tx } from '../tx';
 import { WorldState } from '../world';
 
-export async function handleSendTransaction(
+export async function signTransaction(
   worldState: WorldState,
   blockchain: Blockchain,
   txRequest: TransactionRequest,
   wallet: Wallet,
-  broadcastChannel?: BroadcastChannel,
-  blockDelay: number = 0,
-): Promise<TransactionHash> {
-  const { from: sender, to, gas = 200000, gasPrice, value = 0, data } = txRequest;
+) {
+  const { from: sender, to, gas = BLOCK_GAS_LIMIT.toString(), gasPrice, value = 0, data } = txRequest;
   const nonce = txRequest.nonce ? BigInt(txRequest.nonce) : await worldState.getTransactionCount(sender);
 
   const fromAccount = wallet.get(sender);
@@ -33,7 +35,7 @@ export async function handleSendTransaction(
   }
 
   const signTxRequest = {
-    chainId: 1,
+    chainId: blockchain.chainId,
     to,
     gas,
     gasPrice,
@@ -48,7 +50,7 @@ export async function handleSendTransaction(
   const tx: Tx = {
     nonce,
     to,
-    dataOrInit: data!,
+    dataOrInit: data || Buffer.of(),
     gasPrice: BigInt(gasPrice),
     gasLimit: BigInt(gas),
     value: BigInt(value),
@@ -57,12 +59,85 @@ export async function handleSendTransaction(
     s,
   };
 
+  return tx;
+}
+
+/**
+ * Signs the transaction without sending it. The raw transaction can later be sent with eth_sendRawTransaction.
+ */
+export async function handleSignTransaction(
+  worldState: WorldState,
+  blockchain: Blockchain,
+  txRequest: TransactionRequest,
+  wallet: Wallet,
+) {
+  const tx = await signTransaction(worldState, blockchain, txRequest, wallet);
+  const raw = serializeTx(tx);
+  return {
+    raw: bufferToHex(raw),
+    tx: {
+      nonce: numberToHex(tx.nonce.toString()),
+      gasPrice: numberToHex(tx.gasPrice.toString()),
+      gas: numberToHex(tx.gasLimit.toString()),
+      to: tx.to ? tx.to.toString().toLowerCase() : null,
+      value: numberToHex(tx.value.toString()),
+      input: bufferToHex(tx.dataOrInit),
+      v: tx.v,
+      r: tx.r,
+      s: tx.s,
+      hash: sha3(raw),
+    },
+  };
+}
+
+/**
+ * Creates an unsigned transaction from an impersonated account. Its sender can't be recovered, so is given alongside
+ * it when it's mined. Blocks containing it are rejected by peers, as its sender can't be verified.
+ */
+export async function createImpersonatedTransaction(worldState: WorldState, txRequest: TransactionRequest) {
+  const { from: sender, to, gas = BLOCK_GAS_LIMIT.toString(), gasPrice, value = 0, data = Buffer.of() } = txRequest;
+  const nonce = txRequest.nonce ? BigInt(txRequest.nonce) : await worldState.getTransactionCount(sender);
+
+  const tx: Tx = {
+    nonce,
+    to,
+    dataOrInit: data,
+    gasPrice: BigInt(gasPrice),
+    gasLimit: BigInt(gas),
+    value: BigInt(value),
+    v: '0x',
+    r: '0x',
+    s: '0x',
+  };
+
+  return tx;
+}
+
+export async function handleSendTransaction(
+  worldState: WorldState,
+  blockchain: Blockchain,
+  tx: Tx,
+  sender: Address,
+  blockDelay: number = 0,
+  sourceMapper?: SourceMapper,
+  tracer?: Tracer,
+  gasReporter?: GasReporter,
+): Promise<TransactionHash> {
   const txHash = sha3(serializeTx(tx));
 
+  // Records where execution failed, so reverts can be reported with a Solidity stack trace.
+  const stackTraceTracer = sourceMapper ? new StackTraceTracer() : undefined;
+
   const mine = async () => {
-    const { evaluatedTxs, blockState } = await mineTxs(worldState, blockchain, [tx], sender);
-    if (broadcastChannel) {
-      broadcastChannel.postMessage(serializeBlockState(blockState));
+    const { evaluatedTxs } = await mineTxs(
+      worldState,
+      blockchain,
+      [tx],
+      [sender],
+      combineTracers(stackTraceTracer, tracer),
+    );
+    if (gasReporter) {
+      gasReporter.addEvaluatedTxs(evaluatedTxs);
     }
     return evaluatedTxs;
   };
@@ -73,12 +148,11 @@ export async function handleSendTransaction(
     const evaluatedTxs = await mine();
     const { result } = evaluatedTxs[0];
     if (result.reverted) {
-      if (result.returned && result.returned.slice(0, 4).equals(Buffer.from('08c379a0', 'hex'))) {
-        const errorMessage = abiCoder.decodeParameter('string', result.returned!.slice(4).toString('hex'));
-        throw new Error(`Transaction failed: ${errorMessage}`);
-      } else if (result.error) {
-        throw result.error;
+      const error = result.error || new ContractRevertError(result.returned || Buffer.of());
+      if (sourceMapper && stackTraceTracer) {
+        addSolidityStackTrace(error, sourceMapper.getStackTrace(stackTraceTracer.getFailedCallSites()));
       }
+      throw error;
     }
   }
 
@@ -0,0 +1,52 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { toBufferBE } from 'bigint-buffer';
+import { Address } from 'web3x/address';
+import { WorldState } from '../world';
+import { EvmAccount } from '../world/evm-account';
+
+/**
+ * Applies the update to the account, creating it if it doesn't exist. The change is committed to the world state
+ * immediately, outside of any block, so isn't reflected in the chain tip's state root, and is lost if the world state
+ * is rewound to a block's state.
+ */
+async function updateAccount(worldState: WorldState, address: Address, update: (account: EvmAccount) => Promise<void>) {
+  worldState.checkpoint();
+  try {
+    await update(await worldState.loadOrCreateAccount(address));
+    await worldState.commit();
+  } catch (err) {
+    await worldState.revert();
+    throw err;
+  }
+}
+
+export async function handleSetBalance(worldState: WorldState, address: Address, balance: bigint) {
+  await updateAccount(worldState, address, async account => {
+    account.balance = balance;
+  });
+}
+
+export async function handleSetCode(worldState: WorldState, address: Address, code: Buffer) {
+  await updateAccount(worldState, address, async account => {
+    account.code = code;
+  });
+}
+
+export async function handleSetNonce(worldState: WorldState, address: Address, nonce: bigint) {
+  await updateAccount(worldState, address, async account => {
+    account.nonce = nonce;
+  });
+}
+
+export async function handleSetStorageAt(worldState: WorldState, address: Address, slot: bigint, value: bigint) {
+  await updateAccount(worldState, address, async account => {
+    // Zero values are stored rather than deleted, as by SSTORE.
+    await account.storage.put(toBufferBE(slot, 32), toBufferBE(value, 32));
+  });
+}
@@ -0,0 +1,40 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+export interface SourceFile {
+  path: string;
+  content: string;
+  // The compact json AST output by solc, used to resolve function names.
+  ast?: any;
+}
+
+export interface ContractArtifact {
+  contractName: string;
+  bytecode: string;
+  deployedBytecode: string;
+  sourceMap: string;
+  deployedSourceMap: string;
+  // Source files keyed by the file index used in the source maps.
+  sources: { [fileIndex: number]: SourceFile };
+}
+
+/**
+ * Creates a contract artifact from a truffle build file. The build file only contains the source of the contract
+ * itself, so sources of inherited contracts are resolved from the other artifacts of the same compilation.
+ */
+export function fromTruffleArtifact(json: any): ContractArtifact {
+  const { contractName, bytecode, deployedBytecode, sourceMap, deployedSourceMap, sourcePath, source, ast } = json;
+  const fileIndex = ast ? +ast.src.split(':')[2] : 0;
+  return {
+    contractName,
+    bytecode,
+    deployedBytecode,
+    sourceMap,
+    deployedSourceMap,
+    sources: { [fileIndex]: { path: sourcePath, content: source, ast } },
+  };
+}
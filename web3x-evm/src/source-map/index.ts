@@ -0,0 +1,12 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+export * from './contract-artifact';
+export * from './source-map';
+export * from './source-mapper';
+export * from './stack-trace';
+export * from './stack-trace-tracer';
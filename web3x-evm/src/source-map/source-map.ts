@@ -0,0 +1,38 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+export interface SourceMapEntry {
+  // Byte offset and length of the source range in the source file.
+  start: number;
+  length: number;
+  // Index of the source file, or -1 for compiler generated code.
+  fileIndex: number;
+  // 'i' into a function, 'o' out of a function, or '-' for a regular jump.
+  jump: string;
+}
+
+/**
+ * Decodes a compressed solc source map into one entry per instruction.
+ * Empty fields are inherited from the previous entry.
+ */
+export function decodeSourceMap(sourceMap: string) {
+  if (!sourceMap) {
+    return [];
+  }
+
+  let prev: SourceMapEntry = { start: -1, length: -1, fileIndex: -1, jump: '-' };
+  return sourceMap.split(';').map(item => {
+    const [start, length, fileIndex, jump] = item.split(':');
+    prev = {
+      start: start ? +start : prev.start,
+      length: length ? +length : prev.length,
+      fileIndex: fileIndex ? +fileIndex : prev.fileIndex,
+      jump: jump || prev.jump,
+    };
+    return prev;
+  });
+}
@@ -0,0 +1,195 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import levelup from 'levelup';
+import memdown from 'memdown';
+import { Address } from 'web3x/address';
+import { BlockchainContext } from '../blockchain';
+import { getInstructionIndex } from '../opcodes';
+import { Tx } from '../tx';
+import { executeTransaction } from '../vm/execute-transaction';
+import { WorldState } from '../world/world-state';
+import { fromTruffleArtifact } from './contract-artifact';
+import { decodeSourceMap } from './source-map';
+import { SourceMapper } from './source-mapper';
+import { addSolidityStackTrace } from './stack-trace';
+import { StackTraceTracer } from './stack-trace-tracer';
+
+const throwerSource = `pragma solidity ^0.5.0;
+
+contract Thrower {
+    function fail() public {
+        revert();
+    }
+}
+`;
+
+const callerSource = `pragma solidity ^0.5.0;
+
+contract Caller {
+    function callThrower() public {
+        thrower.fail();
+    }
+}
+`;
+
+// Builds a truffle artifact for a single contract and function, with all instructions mapped to the given statement.
+function truffleArtifact(
+  contractName: string,
+  functionName: string,
+  source: string,
+  fileIndex: number,
+  code: string,
+  statement: string,
+) {
+  const src = (text: string) => `${source.indexOf(text)}:${text.length}:${fileIndex}`;
+  const functionText = source.slice(source.indexOf('    function'), source.indexOf('    }\n') + 5);
+  const instructions = getInstructionIndex(Buffer.from(code, 'hex'), code.length / 2);
+  const sourceMap = `${src(statement)}:-` + ';'.repeat(instructions - 1);
+  return {
+    contractName,
+    bytecode: '0x00',
+    deployedBytecode: '0x' + code,
+    sourceMap: '',
+    deployedSourceMap: sourceMap,
+    sourcePath: `contracts/${contractName}.sol`,
+    source,
+    ast: {
+      nodeType: 'SourceUnit',
+      src: `0:${source.length}:${fileIndex}`,
+      nodes: [
+        {
+          nodeType: 'ContractDefinition',
+          name: contractName,
+          src: src(source.slice(source.indexOf('contract'))),
+          nodes: [{ nodeType: 'FunctionDefinition', name: functionName, kind: 'function', src: src(functionText) }],
+        },
+      ],
+    },
+  };
+}
+
+describe('source-map', () => {
+  const sender = Address.fromString('0x0000000000000000000000000000000000000010');
+  const caller = Address.fromString('0x0000000000000000000000000000000000000020');
+  const thrower = Address.fromString('0x0000000000000000000000000000000000000030');
+  const blockchainCtx: BlockchainContext = {
+    timestamp: 0,
+    difficulty: BigInt(0),
+    blockGasLimit: BigInt(8000000),
+    chainId: 1,
+    hardfork: 'istanbul',
+    blockNumber: 0,
+    last256BlockHashes: [],
+    coinbase: Address.ZERO,
+  };
+
+  // PUSH1 0, PUSH1 0, REVERT.
+  const throwerCode = '60006000fd';
+  // CALL thrower with all gas, then revert with its return data.
+  const callCode = '60006000600060006000' + '73' + thrower.toBuffer().toString('hex') + '5af1';
+  const bubbleCode = callCode + '503d600060003e3d6000fd';
+  // CALL thrower with all gas, then revert with different data.
+  const catchCode = callCode + '5060016000fd';
+
+  let worldState: WorldState;
+
+  const deploy = async (callerCode: string) => {
+    worldState.checkpoint();
+    await worldState.createAccount(sender, BigInt(0));
+    await worldState.createAccount(caller, BigInt(0), BigInt(1), Buffer.from(callerCode, 'hex'));
+    await worldState.createAccount(thrower, BigInt(0), BigInt(1), Buffer.from(throwerCode, 'hex'));
+    await worldState.commit();
+  };
+
+  const sendTx = (tracer: StackTraceTracer) => {
+    const tx: Tx = {
+      nonce: BigInt(0),
+      to: caller,
+      dataOrInit: Buffer.of(),
+      gasPrice: BigInt(0),
+      gasLimit: BigInt(100000),
+      value: BigInt(0),
+      v: '0x',
+      r: '0x',
+      s: '0x',
+    };
+    return executeTransaction({ worldState, blockchainContext: blockchainCtx, sender, tracer }, tx);
+  };
+
+  const createSourceMapper = (callerCode: string) =>
+    new SourceMapper([
+      fromTruffleArtifact(truffleArtifact('Thrower', 'fail', throwerSource, 0, throwerCode, 'revert()')),
+      fromTruffleArtifact(truffleArtifact('Caller', 'callThrower', callerSource, 1, callerCode, 'thrower.fail()')),
+    ]);
+
+  beforeEach(async () => {
+    worldState = await WorldState.fromDb(levelup(memdown()));
+  });
+
+  it('should decode compressed source maps', () => {
+    expect(decodeSourceMap('1:2:0:-;:3;;4::1:i')).toEqual([
+      { start: 1, length: 2, fileIndex: 0, jump: '-' },
+      { start: 1, length: 3, fileIndex: 0, jump: '-' },
+      { start: 1, length: 3, fileIndex: 0, jump: '-' },
+      { start: 4, length: 3, fileIndex: 1, jump: 'i' },
+    ]);
+  });
+
+  it('should resolve stack trace of bubbled revert', async () => {
+    await deploy(bubbleCode);
+    const tracer = new StackTraceTracer();
+    const { reverted } = await sendTx(tracer);
+    expect(reverted).toBe(true);
+
+    const stackTrace = createSourceMapper(bubbleCode).getStackTrace(tracer.getFailedCallSites());
+    expect(stackTrace).toEqual([
+      {
+        address: thrower,
+        contractName: 'Thrower',
+        functionName: 'fail',
+        sourcePath: 'contracts/Thrower.sol',
+        line: 5,
+        column: 9,
+      },
+      {
+        address: caller,
+        contractName: 'Caller',
+        functionName: 'callThrower',
+        sourcePath: 'contracts/Caller.sol',
+        line: 5,
+        column: 9,
+      },
+    ]);
+
+    const error = addSolidityStackTrace(new Error('Transaction failed'), stackTrace);
+    expect(error.stack!.split('\n').slice(0, 3)).toEqual([
+      'Error: Transaction failed',
+      '    at Thrower.fail (contracts/Thrower.sol:5:9)',
+      '    at Caller.callThrower (contracts/Caller.sol:5:9)',
+    ]);
+  });
+
+  it('should not include caught child failure in stack trace', async () => {
+    await deploy(catchCode);
+    const tracer = new StackTraceTracer();
+    await sendTx(tracer);
+
+    const stackTrace = createSourceMapper(catchCode).getStackTrace(tracer.getFailedCallSites());
+    expect(stackTrace).toHaveLength(1);
+    expect(stackTrace[0].contractName).toBe('Caller');
+  });
+
+  it('should resolve unknown code to its address', async () => {
+    await deploy(bubbleCode);
+    const tracer = new StackTraceTracer();
+    await sendTx(tracer);
+
+    const stackTrace = new SourceMapper().getStackTrace(tracer.getFailedCallSites());
+    expect(stackTrace).toEqual([{ address: thrower }, { address: caller }]);
+  });
+});
@@ -0,0 +1,213 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { Address } from 'web3x/address';
+import { getInstructionIndex } from '../opcodes';
+import { ContractArtifact, SourceFile } from './contract-artifact';
+import { decodeSourceMap, SourceMapEntry } from './source-map';
+import { FailedCallSite } from './stack-trace-tracer';
+
+export interface StackTraceEntry {
+  address: Address;
+  contractName?: string;
+  functionName?: string;
+  sourcePath?: string;
+  // One based line and column of the start of the source range.
+  line?: number;
+  column?: number;
+}
+
+interface Bytecode {
+  code: Buffer;
+  // Byte ranges of unlinked library addresses, which match any code.
+  placeholders: [number, number][];
+  sourceMap: SourceMapEntry[];
+}
+
+interface CompiledContract {
+  contractName: string;
+  creation: Bytecode;
+  deployed: Bytecode;
+}
+
+export interface FunctionRange {
+  contractName: string;
+  functionName: string;
+  start: number;
+  end: number;
+}
+
+function parseBytecode(bytecode: string, sourceMap: string): Bytecode {
+  const hex = bytecode.replace(/^0x/, '');
+  const placeholders: [number, number][] = [];
+  const placeholder = /__.{36}__/g;
+  for (let match = placeholder.exec(hex); match; match = placeholder.exec(hex)) {
+    placeholders.push([match.index / 2, match.index / 2 + 20]);
+  }
+  const code = Buffer.from(hex.replace(placeholder, '0'.repeat(40)), 'hex');
+  return { code, placeholders, sourceMap: decodeSourceMap(sourceMap) };
+}
+
+function matchesBytecode(code: Buffer, bytecode: Bytecode, isCreate: boolean) {
+  // Creation code has the constructor arguments appended.
+  if (!bytecode.code.length || code.length < bytecode.code.length) {
+    return false;
+  }
+  if (!isCreate && code.length !== bytecode.code.length) {
+    return false;
+  }
+  let offset = 0;
+  for (const [start, end] of bytecode.placeholders) {
+    if (!code.slice(offset, start).equals(bytecode.code.slice(offset, start))) {
+      return false;
+    }
+    offset = end;
+  }
+  return code.slice(offset, bytecode.code.length).equals(bytecode.code.slice(offset));
+}
+
+function getFunctionRanges(ast: any, contractName = ''): FunctionRange[] {
+  if (!ast || typeof ast !== 'object') {
+    return [];
+  }
+  if (ast.nodeType === 'ContractDefinition') {
+    contractName = ast.name;
+  }
+  const ranges: FunctionRange[] = [];
+  if (ast.nodeType === 'FunctionDefinition' || ast.nodeType === 'ModifierDefinition') {
+    const [start, length] = ast.src.split(':').map(Number);
+    ranges.push({ contractName, functionName: getFunctionName(ast), start, end: start + length });
+  }
+  for (const node of ast.nodes || []) {
+    ranges.push(...getFunctionRanges(node, contractName));
+  }
+  return ranges;
+}
+
+function getFunctionName(node: any) {
+  if (node.kind === 'constructor' || node.isConstructor) {
+    return 'constructor';
+  }
+  if (node.kind === 'receive') {
+    return '<receive>';
+  }
+  return node.name || '<fallback>';
+}
+
+/**
+ * Maps code locations to Solidity source locations, using the source maps of compiled contracts.
+ */
+export class SourceMapper {
+  private contracts: CompiledContract[] = [];
+  private sources: { [fileIndex: number]: SourceFile } = {};
+  private lineOffsets: { [fileIndex: number]: number[] } = {};
+  private functionRanges: { [fileIndex: number]: FunctionRange[] } = {};
+
+  constructor(artifacts: ContractArtifact[] = []) {
+    this.addArtifacts(artifacts);
+  }
+
+  public addArtifacts(artifacts: ContractArtifact[]) {
+    for (const artifact of artifacts) {
+      const { contractName, bytecode, sourceMap, deployedBytecode, deployedSourceMap, sources } = artifact;
+      this.contracts.push({
+        contractName,
+        creation: parseBytecode(bytecode, sourceMap),
+        deployed: parseBytecode(deployedBytecode, deployedSourceMap),
+      });
+      for (const fileIndex of Object.keys(sources)) {
+        this.sources[fileIndex] = sources[fileIndex];
+        delete this.lineOffsets[fileIndex];
+        delete this.functionRanges[fileIndex];
+      }
+    }
+  }
+
+  /**
+   * Resolves the source location of each call site. Call sites in unknown code resolve to just their address.
+   */
+  public getStackTrace(sites: FailedCallSite[]) {
+    return sites.map(site => this.getSourceLocation(site));
+  }
+
+  public getSourceLocation({ address, code, pc, isCreate }: FailedCallSite): StackTraceEntry {
+    const contract = this.findContract(code, isCreate);
+    if (!contract) {
+      return { address };
+    }
+
+    const { contractName } = contract;
+    const { sourceMap } = isCreate ? contract.creation : contract.deployed;
+    const entry = sourceMap[getInstructionIndex(code, pc)];
+    const source = entry && this.sources[entry.fileIndex];
+    if (!source) {
+      return { address, contractName };
+    }
+
+    const [line, column] = this.getLineAndColumn(entry.fileIndex, entry.start);
+    const fn = this.getFunctionRanges(entry.fileIndex)
+      .filter(range => range.start <= entry.start && entry.start + entry.length <= range.end)
+      .pop();
+
+    return {
+      address,
+      contractName: fn ? fn.contractName : contractName,
+      functionName: fn ? fn.functionName : undefined,
+      sourcePath: source.path,
+      line,
+      column,
+    };
+  }
+
+  /**
+   * Returns the source map of the compiled contract with the given code, or undefined if it's unknown.
+   */
+  public getSourceMap(code: Buffer, isCreate: boolean) {
+    const contract = this.findContract(code, isCreate);
+    if (contract) {
+      return isCreate ? contract.creation.sourceMap : contract.deployed.sourceMap;
+    }
+  }
+
+  public getSources() {
+    return this.sources;
+  }
+
+  /**
+   * Returns the one based line and column of the byte offset in the source file.
+   */
+  public getLineAndColumn(fileIndex: number, offset: number) {
+    if (!this.lineOffsets[fileIndex]) {
+      const offsets = [0];
+      // Source map offsets are in bytes of the utf8 encoded source.
+      const content = Buffer.from(this.sources[fileIndex].content);
+      for (let i = 0; i < content.length; ++i) {
+        if (content[i] === 0x0a) {
+          offsets.push(i + 1);
+        }
+      }
+      this.lineOffsets[fileIndex] = offsets;
+    }
+    const lineOffsets = this.lineOffsets[fileIndex];
+    let line = 0;
+    while (line + 1 < lineOffsets.length && lineOffsets[line + 1] <= offset) {
+      ++line;
+    }
+    return [line + 1, offset - lineOffsets[line] + 1];
+  }
+
+  public getFunctionRanges(fileIndex: number) {
+    if (!this.functionRanges[fileIndex]) {
+      this.functionRanges[fileIndex] = getFunctionRanges(this.sources[fileIndex].ast);
+    }
+    return this.functionRanges[fileIndex];
+  }
+
+  private findContract(code: Buffer, isCreate: boolean) {
+    return this.contracts.find(c => matchesBytecode(code, isCreate ? c.creation : c.deployed, isCreate));
+  }
+}
@@ -0,0 +1,77 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { Address } from 'web3x/address';
+import { TraceCall, TraceCallResult, Tracer, TraceStep } from '../tracer';
+
+/**
+ * The instruction a frame was executing when it failed.
+ */
+export interface FailedCallSite {
+  address: Address;
+  code: Buffer;
+  pc: number;
+  isCreate: boolean;
+}
+
+interface Frame {
+  isCreate: boolean;
+  site?: FailedCallSite;
+  // Failure of the last child call, and the data it returned.
+  childFailure?: { sites: FailedCallSite[]; output: Buffer };
+}
+
+/**
+ * Records the call sites leading to a failed execution, innermost first.
+ * A failed child call is only considered part of its parent's failure if the parent reverts with the same data,
+ * i.e. it bubbled up the revert, rather than catching it and failing for some other reason.
+ */
+export class StackTraceTracer implements Tracer {
+  private frames: Frame[] = [];
+  private failure: FailedCallSite[] = [];
+
+  public onStep(step: TraceStep) {
+    const frame = this.frames[this.frames.length - 1];
+    if (!frame) {
+      return;
+    }
+    const { pc, context } = step;
+    frame.site = { address: context.executor, code: context.code, pc, isCreate: frame.isCreate };
+  }
+
+  public onCallEnter(call: TraceCall) {
+    if (!this.frames.length) {
+      this.failure = [];
+    }
+    this.frames.push({ isCreate: call.type === 'CREATE' || call.type === 'CREATE2' });
+  }
+
+  public onCallExit(result: TraceCallResult) {
+    const frame = this.frames.pop();
+    if (!frame || !result.reverted) {
+      return;
+    }
+
+    const { site, childFailure } = frame;
+    const bubbled = childFailure && childFailure.output.equals(result.output) ? childFailure.sites : [];
+    const sites = site ? [...bubbled, site] : bubbled;
+
+    const parent = this.frames[this.frames.length - 1];
+    if (parent) {
+      parent.childFailure = { sites, output: result.output };
+    } else {
+      this.failure = sites;
+    }
+  }
+
+  /**
+   * The call sites of the last failed top level call, innermost first. Empty if it succeeded.
+   */
+  public getFailedCallSites() {
+    return this.failure;
+  }
+}
@@ -0,0 +1,33 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { StackTraceEntry } from './source-mapper';
+
+export function formatStackTraceEntry({
+  address,
+  contractName,
+  functionName,
+  sourcePath,
+  line,
+  column,
+}: StackTraceEntry) {
+  const name = `${contractName || '<unknown>'}${functionName ? '.' + functionName : ''}`;
+  const location = sourcePath ? `${sourcePath}:${line}:${column}` : address.toString();
+  return `    at ${name} (${location})`;
+}
+
+/**
+ * Prepends the Solidity stack trace to the javascript stack trace of the given error.
+ */
+export function addSolidityStackTrace(error: Error, entries: StackTraceEntry[]) {
+  if (!entries.length) {
+    return error;
+  }
+  const jsStack = error.stack ? error.stack.split('\n').filter(line => line.startsWith('    at ')) : [];
+  error.stack = [`${error.name}: ${error.message}`, ...entries.map(formatStackTraceEntry), ...jsStack].join('\n');
+  return error;
+}
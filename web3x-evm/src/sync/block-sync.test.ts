@@ -0,0 +1,136 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import levelup from 'levelup';
+import memdown from 'memdown';
+import { Eth } from 'web3x/eth';
+import { Wallet } from 'web3x/wallet';
+import { MessageChannel, MessagePort } from 'worker_threads';
+import { EvmProvider } from '../provider';
+
+describe('block-sync', () => {
+  const wallet = new Wallet(2);
+  const account1 = wallet.get(0)!.address;
+  const account2 = wallet.get(1)!.address;
+  const ports: MessagePort[] = [];
+  const providers: EvmProvider[] = [];
+
+  const createProvider = async (amount?: bigint) => {
+    const provider = await EvmProvider.fromDb(levelup(memdown()));
+    await provider.loadWallet(wallet, amount);
+    providers.push(provider);
+    return provider;
+  };
+
+  const connect = (provider1: EvmProvider, provider2: EvmProvider) => {
+    const { port1, port2 } = new MessageChannel();
+    ports.push(port1, port2);
+    provider1.addSyncPort(port1);
+    provider2.addSyncPort(port2);
+  };
+
+  const transfer = async (provider: EvmProvider) => {
+    await new Eth(provider).sendTransaction({ from: account1, to: account2, value: 1, gasPrice: 1 }).getReceipt();
+  };
+
+  const getTip = async (provider: EvmProvider) => {
+    const block = await provider.send('eth_getBlockByNumber', ['latest', false]);
+    return block ? (block.hash as string) : undefined;
+  };
+
+  // Messages between ports are delivered asynchronously, so wait until the providers agree on the tip.
+  const waitForSync = async (...syncProviders: EvmProvider[]) => {
+    for (let i = 0; i < 100; i++) {
+      await Promise.all(syncProviders.map(provider => provider.flushSync()));
+      const tips = await Promise.all(syncProviders.map(getTip));
+      if (tips[0] && tips.every(tip => tip === tips[0])) {
+        return tips[0];
+      }
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    throw new Error('Providers did not sync.');
+  };
+
+  afterEach(() => {
+    ports.splice(0).forEach(port => port.close());
+    providers.splice(0).forEach(provider => provider.close());
+  });
+
+  it('should catch up a provider that connects later, then exchange new blocks', async () => {
+    const provider1 = await createProvider();
+    for (let i = 0; i < 3; i++) {
+      await transfer(provider1);
+    }
+
+    const provider2 = await createProvider();
+    connect(provider1, provider2);
+    await waitForSync(provider1, provider2);
+
+    const eth2 = new Eth(provider2);
+    expect(await eth2.getBlockNumber()).toBe(2);
+    expect(await eth2.getTransactionCount(account1)).toBe(3);
+
+    await transfer(provider2);
+    await waitForSync(provider1, provider2);
+    expect(await new Eth(provider1).getTransactionCount(account1)).toBe(4);
+  });
+
+  it('should forward blocks between providers that are not directly connected', async () => {
+    const [provider1, provider2, provider3] = [await createProvider(), await createProvider(), await createProvider()];
+    connect(provider1, provider2);
+    connect(provider2, provider3);
+
+    await transfer(provider1);
+    await transfer(provider1);
+    const tip = await waitForSync(provider1, provider2, provider3);
+
+    expect(await new Eth(provider3).getBlockNumber()).toBe(1);
+    expect(await getTip(provider3)).toBe(tip);
+    expect(await new Eth(provider3).getBalance(account2)).toBe(await new Eth(provider1).getBalance(account2));
+  });
+
+  it('should surface blocks that fail to import', async () => {
+    const provider1 = await createProvider();
+    await transfer(provider1);
+    await transfer(provider1);
+
+    // Different balances, so the blocks' state roots don't match.
+    const provider2 = await createProvider(BigInt(10) ** BigInt(18));
+    connect(provider1, provider2);
+
+    const waitForError = async () => {
+      for (let i = 0; i < 100; i++) {
+        try {
+          await provider2.flushSync();
+        } catch (e) {
+          return e;
+        }
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+    };
+    expect(await waitForError()).toEqual(new Error('Invalid state root.'));
+    expect(await getTip(provider2)).toBeUndefined();
+  });
+
+  it('should not set account state while syncing', async () => {
+    const [provider1, provider2] = [await createProvider(), await createProvider()];
+    connect(provider1, provider2);
+
+    await expect(provider1.send('evm_setBalance', [account1.toString(), '0x1'])).rejects.toThrow(
+      'Account state cannot be set while syncing with peers.',
+    );
+  });
+
+  it('should not send transactions from impersonated accounts while syncing', async () => {
+    const [provider1, provider2] = [await createProvider(), await createProvider()];
+    connect(provider1, provider2);
+
+    await provider1.send('evm_impersonateAccount', [account2.toString()]);
+    const tx = new Eth(provider1).sendTransaction({ from: account2, to: account1, value: 1, gasPrice: 1 });
+    await expect(tx.getTxHash()).rejects.toThrow('Impersonated transactions cannot be sent while syncing with peers.');
+  });
+});
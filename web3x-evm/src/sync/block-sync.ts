@@ -0,0 +1,204 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { Blockchain, BlockHeader, BlockState } from '../blockchain';
+import { deserializeSyncMessage, serializeSyncMessage, SyncMessage, SyncMessageType } from './sync-message';
+import { SyncTransport } from './sync-transport';
+
+// Maximum number of blocks delivered in response to a request.
+const BATCH_SIZE = 64;
+// Maximum number of blocks held back until their parent arrives.
+const MAX_ORPHANED_BLOCKS = 4 * BATCH_SIZE;
+
+/**
+ * Keeps the chain consistent with those of peers sharing it. Blocks added to the local chain are delivered to every
+ * peer, other than the one they came from. When connected, peers exchange tips, and one on a shorter chain requests
+ * the blocks it's missing by hash, walking back in batches until it reaches a block it knows.
+ */
+export class BlockSync {
+  private transports: { transport: SyncTransport; stopListening?: () => void }[] = [];
+  // Blocks received before their parent, oldest first. Imported once the parent arrives. Beyond MAX_ORPHANED_BLOCKS,
+  // the newest are dropped. They're requested again when a later block is received, once the oldest are imported.
+  private orphanedBlocks: BlockState[] = [];
+  // Messages are handled one at a time, so blocks are imported in order.
+  private handling: Promise<void> = Promise.resolve();
+  // Errors handling messages, or reading blocks to deliver, since the last flush.
+  private errors: Error[] = [];
+  private importingFrom?: SyncTransport;
+  private newHeadsListener = (header: BlockHeader, blockHash: Buffer) => this.handleNewHead(blockHash);
+
+  constructor(private blockchain: Blockchain, private importBlock: (blockState: BlockState) => Promise<void>) {
+    blockchain.on('newHeads', this.newHeadsListener);
+  }
+
+  /**
+   * Delivers local blocks over the transport. If listening, also imports the blocks received over it, and announces
+   * the chain tip so a peer ahead of us sends theirs.
+   */
+  public addTransport(transport: SyncTransport, listen = true) {
+    const stopListening = listen
+      ? transport.listen(data => this.queue(() => this.handleMessage(transport, deserializeSyncMessage(data))))
+      : undefined;
+    this.transports.push({ transport, stopListening });
+    if (listen) {
+      this.announceTip(transport);
+    }
+  }
+
+  public removeTransport(transport: SyncTransport) {
+    const index = this.transports.findIndex(t => t.transport === transport);
+    if (index >= 0) {
+      const [{ stopListening }] = this.transports.splice(index, 1);
+      if (stopListening) {
+        stopListening();
+      }
+    }
+  }
+
+  public hasTransports() {
+    return this.transports.length > 0;
+  }
+
+  public close() {
+    this.transports.map(({ transport }) => transport).forEach(transport => this.removeTransport(transport));
+    this.blockchain.removeListener('newHeads', this.newHeadsListener);
+  }
+
+  /**
+   * Resolves once all messages received so far have been handled. Rejects with the first error handling them, such as
+   * a block that failed to import, if there were any since the last flush.
+   */
+  public async flush() {
+    await this.handling;
+    const [error] = this.errors.splice(0);
+    if (error) {
+      throw error;
+    }
+  }
+
+  private queue(fn: () => Promise<void>) {
+    this.handling = this.handling.then(fn).catch(error => {
+      this.errors.push(error);
+    });
+  }
+
+  private send(transport: SyncTransport, message: SyncMessage) {
+    transport.send(serializeSyncMessage(message));
+  }
+
+  private announceTip(transport: SyncTransport) {
+    const blockCount = this.blockchain.getBlockCount();
+    const tip = this.blockchain.getBlock(blockCount - 1);
+    const blockHash = tip ? tip.blockHash : Buffer.of();
+    this.send(transport, { type: SyncMessageType.ANNOUNCE_TIP, blockHash, blockCount });
+  }
+
+  private handleNewHead(blockHash: Buffer) {
+    const from = this.importingFrom;
+    const transports = this.transports.filter(({ transport }) => transport !== from);
+    if (!transports.length) {
+      return;
+    }
+    this.blockchain
+      .getBlockState(blockHash)
+      .then(blockState => {
+        if (blockState) {
+          transports.forEach(({ transport }) =>
+            this.send(transport, { type: SyncMessageType.BLOCKS, blockStates: [blockState] }),
+          );
+        }
+      })
+      .catch(error => {
+        this.errors.push(error);
+      });
+  }
+
+  private async handleMessage(transport: SyncTransport, message: SyncMessage) {
+    switch (message.type) {
+      case SyncMessageType.ANNOUNCE_TIP: {
+        const blockCount = this.blockchain.getBlockCount();
+        if (message.blockCount > blockCount && this.blockchain.getBlockNumber(message.blockHash) === undefined) {
+          this.send(transport, { type: SyncMessageType.REQUEST_BLOCKS, blockHash: message.blockHash });
+        } else if (message.blockCount < blockCount) {
+          this.announceTip(transport);
+        }
+        break;
+      }
+      case SyncMessageType.REQUEST_BLOCKS: {
+        const blockStates = await this.getBatch(message.blockHash);
+        if (blockStates.length) {
+          this.send(transport, { type: SyncMessageType.BLOCKS, blockStates });
+        }
+        break;
+      }
+      case SyncMessageType.BLOCKS:
+        await this.importBlocks(transport, message.blockStates);
+        break;
+    }
+  }
+
+  /**
+   * Returns the block with the given hash, preceded by up to BATCH_SIZE - 1 of its ancestors.
+   */
+  private async getBatch(blockHash: Buffer) {
+    const blockStates: BlockState[] = [];
+    while (blockStates.length < BATCH_SIZE) {
+      const blockState = await this.blockchain.getBlockState(blockHash);
+      if (!blockState) {
+        break;
+      }
+      blockStates.unshift(blockState);
+      if (blockState.header.number === this.blockchain.firstBlockNumber) {
+        break;
+      }
+      blockHash = blockState.header.parentHash;
+    }
+    return blockStates;
+  }
+
+  /**
+   * Imports the blocks in order, skipping those already on the chain. If the first block's parent is unknown, the
+   * blocks are held back and the parent is requested. A block that fails to import doesn't stop the rest, though its
+   * descendants are skipped, and its error is surfaced by flush.
+   */
+  private async importBlocks(transport: SyncTransport, blockStates: BlockState[]) {
+    if (!blockStates.length) {
+      return;
+    }
+    const [{ header }] = blockStates;
+    if (header.number > this.blockchain.firstBlockNumber && !(await this.blockchain.getHeader(header.parentHash))) {
+      this.orphanedBlocks = [...blockStates, ...this.orphanedBlocks].slice(0, MAX_ORPHANED_BLOCKS);
+      this.send(transport, { type: SyncMessageType.REQUEST_BLOCKS, blockHash: header.parentHash });
+      return;
+    }
+
+    const blocks = [...blockStates, ...this.orphanedBlocks];
+    this.orphanedBlocks = [];
+    const failed = new Set<string>();
+    this.importingFrom = transport;
+    try {
+      for (const blockState of blocks) {
+        const blockHash = blockState.blockHash.toString('hex');
+        if (failed.has(blockState.header.parentHash.toString('hex'))) {
+          failed.add(blockHash);
+          continue;
+        }
+        if (this.blockchain.getBlockNumber(blockState.blockHash) !== undefined) {
+          continue;
+        }
+        try {
+          await this.importBlock(blockState);
+        } catch (e) {
+          failed.add(blockHash);
+          this.errors.push(e);
+        }
+      }
+    } finally {
+      this.importingFrom = undefined;
+    }
+  }
+}
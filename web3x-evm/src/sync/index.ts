@@ -0,0 +1,10 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+export * from './block-sync';
+export * from './sync-message';
+export * from './sync-transport';
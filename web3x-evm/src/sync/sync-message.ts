@@ -0,0 +1,52 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { toBigIntBE } from 'bigint-buffer';
+import * as rlp from 'rlp';
+import { BlockState, deserializeBlockState, serializeBlockState } from '../blockchain';
+
+export enum SyncMessageType {
+  // The sender's chain tip, so peers on a shorter chain can request the blocks they're missing.
+  ANNOUNCE_TIP,
+  // Asks for the block with the given hash, and as many of its ancestors as fit in a batch.
+  REQUEST_BLOCKS,
+  // A batch of blocks, oldest first. Newly mined blocks are also delivered this way.
+  BLOCKS,
+}
+
+export type SyncMessage =
+  | { type: SyncMessageType.ANNOUNCE_TIP; blockHash: Buffer; blockCount: number }
+  | { type: SyncMessageType.REQUEST_BLOCKS; blockHash: Buffer }
+  | { type: SyncMessageType.BLOCKS; blockStates: BlockState[] };
+
+export function serializeSyncMessage(message: SyncMessage) {
+  switch (message.type) {
+    case SyncMessageType.ANNOUNCE_TIP:
+      return rlp.encode([message.type, message.blockHash, message.blockCount]);
+    case SyncMessageType.REQUEST_BLOCKS:
+      return rlp.encode([message.type, message.blockHash]);
+    case SyncMessageType.BLOCKS:
+      return rlp.encode([message.type, message.blockStates.map(serializeBlockState)]);
+  }
+}
+
+export function deserializeSyncMessage(data: Buffer): SyncMessage {
+  const bufs: any[] = rlp.decode(data) as any;
+  const type = toNumber(bufs[0]);
+  switch (type) {
+    case SyncMessageType.ANNOUNCE_TIP:
+      return { type, blockHash: bufs[1], blockCount: toNumber(bufs[2]) };
+    case SyncMessageType.REQUEST_BLOCKS:
+      return { type, blockHash: bufs[1] };
+    case SyncMessageType.BLOCKS:
+      return { type, blockStates: (bufs[1] as Buffer[]).map(deserializeBlockState) };
+    default:
+      throw new Error(`Unknown sync message type ${type}.`);
+  }
+}
+
+const toNumber = (buf: Buffer) => (buf.length ? Number(toBigIntBE(buf)) : 0);
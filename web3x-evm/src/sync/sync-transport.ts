@@ -0,0 +1,40 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { MessagePort } from 'worker_threads';
+
+/**
+ * Carries sync messages to and from peers. A BroadcastChannel reaches every other tab listening on it, while a
+ * MessagePort reaches the single provider holding the other end of its MessageChannel.
+ */
+export interface SyncTransport {
+  send(data: Buffer): void;
+  // Registers the handler, returning a function that removes it.
+  listen(handler: (data: Buffer) => void): () => void;
+}
+
+export function fromBroadcastChannel(channel: BroadcastChannel): SyncTransport {
+  return {
+    send: data => channel.postMessage(data),
+    listen: handler => {
+      const listener = (e: MessageEvent) => handler(Buffer.from(e.data));
+      channel.addEventListener('message', listener);
+      return () => channel.removeEventListener('message', listener);
+    },
+  };
+}
+
+export function fromMessagePort(port: MessagePort): SyncTransport {
+  return {
+    send: data => port.postMessage(data),
+    listen: handler => {
+      const listener = (data: Uint8Array) => handler(Buffer.from(data));
+      port.on('message', listener);
+      return () => port.removeListener('message', listener);
+    },
+  };
+}
@@ -22,15 +22,12 @@ const suites: { dir: string; include?: RegExp; exclude?: RegExp[] }[] = [
   { dir: 'vmBitwiseLogicOperation' },
   { dir: 'vmBlockInfoTest' },
   { dir: 'vmEnvironmentalInfo' },
-  {
-    dir: 'vmIOandFlowOperations',
-    exclude: [/foreverOutOfGas/, /^gas/],
-  },
+  { dir: 'vmIOandFlowOperations' },
   { dir: 'vmLogTest' },
-  { dir: 'vmPushDupSwapTest', exclude: [/Suicide/] },
+  { dir: 'vmPushDupSwapTest' },
   { dir: 'vmRandomTest' },
   { dir: 'vmSha3Test' },
-  { dir: 'vmSystemOperations', exclude: [/suicide/] },
+  { dir: 'vmSystemOperations' },
 ];
 
 function hexToBigInt(hex: string) {
@@ -51,6 +48,7 @@ interface Test {
   env: any;
   out: any;
   logs: any;
+  gas?: string;
   pre: {
     [acc: string]: TestAccount;
   };
@@ -79,7 +77,7 @@ for (const { include, exclude, dir } of suites) {
 
 function runTest([testName, testSpec]: [string, Test]) {
   it(testName, async () => {
-    const { pre, post, exec, env, out, logs } = testSpec;
+    const { pre, post, exec, env, out, logs, gas } = testSpec;
     const worldState = await WorldState.fromDb(levelup(memdown()));
 
     worldState.checkpoint();
@@ -103,9 +101,11 @@ function runTest([testName, testSpec]: [string, Test]) {
       blockNumber: hexToNumber(env.currentNumber),
       blockGasLimit: hexToBigInt(env.currentGasLimit),
       timestamp: hexToNumber(env.currentTimestamp),
+      chainId: 1,
+      hardfork: 'petersburg',
     };
 
-    const { error, status, returned, txSubstrate } = await messageCall(
+    const { error, status, returned, txSubstrate, remainingGas } = await messageCall(
       worldState,
       blockchainCtx,
       Address.fromString(exec.caller),
@@ -137,6 +137,10 @@ function runTest([testName, testSpec]: [string, Test]) {
     expect(error).toBeUndefined();
     expect(status).toBeTruthy();
 
+    if (gas) {
+      expect(remainingGas).toBe(hexToBigInt(gas));
+    }
+
     for (const [addressStr, { balance, nonce, code, storage }] of Object.entries(post)) {
       const address = Address.fromString(addressStr);
       const account = await worldState.loadImmutableAccount(address);
@@ -199,10 +203,15 @@ async function messageCall(
     await worldState.revert();
   } else {
     await worldState.commit();
+    worldState.checkpoint();
+    for (const account of txSubstrate.selfDestructSet) {
+      await worldState.deleteAccount(account.address);
+    }
+    await worldState.commit();
   }
 
   return {
-    remainingGas: BigInt(0),
+    remainingGas: callContext.availableGas,
     txSubstrate,
     status: !callContext.reverted,
     error: callContext.error,
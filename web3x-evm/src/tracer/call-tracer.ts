@@ -0,0 +1,76 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { bufferToHex } from 'web3x/utils';
+import { CallType, TraceCall, TraceCallResult, Tracer, TraceStep } from './tracer';
+
+const toHex = (value: bigint) => '0x' + value.toString(16);
+
+export interface CallFrame {
+  type: CallType;
+  from: string;
+  to?: string;
+  value: string;
+  gas: string;
+  gasUsed: string;
+  input: string;
+  output: string;
+  error?: string;
+  calls?: CallFrame[];
+}
+
+/**
+ * Builds a tree of the calls and creates made during execution, in the format of geth's callTracer.
+ */
+export class CallTracer implements Tracer {
+  private root?: CallFrame;
+  private frames: CallFrame[] = [];
+
+  public onStep(step: TraceStep) {}
+
+  public onCallEnter(call: TraceCall) {
+    const { type, from, to, value, gas, input } = call;
+    const frame: CallFrame = {
+      type,
+      from: from.toString(),
+      to: to ? to.toString() : undefined,
+      value: toHex(value),
+      gas: toHex(gas),
+      gasUsed: '0x0',
+      input: bufferToHex(input),
+      output: '0x',
+    };
+
+    const parent = this.frames[this.frames.length - 1];
+    if (parent) {
+      parent.calls = [...(parent.calls || []), frame];
+    } else {
+      this.root = frame;
+    }
+    this.frames.push(frame);
+  }
+
+  public onCallExit(result: TraceCallResult) {
+    const frame = this.frames.pop();
+    if (!frame) {
+      return;
+    }
+    const { gasUsed, output, reverted, contractAddress, error } = result;
+    frame.gasUsed = toHex(gasUsed);
+    frame.output = bufferToHex(output);
+    if (contractAddress) {
+      frame.to = contractAddress.toString();
+    }
+    if (reverted) {
+      frame.error = error ? error.message : 'execution reverted';
+    }
+  }
+
+  public getResult() {
+    return this.root;
+  }
+}
@@ -0,0 +1,23 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { Tracer } from './tracer';
+
+/**
+ * Returns a tracer that forwards events to each of the given tracers, or undefined if none are given.
+ */
+export function combineTracers(...tracers: (Tracer | undefined)[]): Tracer | undefined {
+  const defined = tracers.filter((tracer): tracer is Tracer => !!tracer);
+  if (defined.length < 2) {
+    return defined[0];
+  }
+  return {
+    onStep: step => defined.forEach(tracer => tracer.onStep(step)),
+    onCallEnter: call => defined.forEach(tracer => tracer.onCallEnter(call)),
+    onCallExit: result => defined.forEach(tracer => tracer.onCallExit(result)),
+  };
+}
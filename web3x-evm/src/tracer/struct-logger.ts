@@ -0,0 +1,107 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { toBigIntBE } from 'bigint-buffer';
+import { TraceCall, TraceCallResult, Tracer, TraceStep } from './tracer';
+
+export interface StructLoggerOptions {
+  disableStack?: boolean;
+  disableMemory?: boolean;
+  disableStorage?: boolean;
+}
+
+export interface StructLog {
+  pc: number;
+  op: string;
+  gas: number;
+  gasCost: number;
+  depth: number;
+  stack?: string[];
+  memory?: string[];
+  storage?: { [key: string]: string };
+  error?: string;
+}
+
+const toWord = (value: bigint) => value.toString(16).padStart(64, '0');
+
+/**
+ * Records every step of execution in the format of geth's default tracer.
+ */
+export class StructLogger implements Tracer {
+  private steps: { step: TraceStep; log: StructLog }[] = [];
+  // Storage slots seen so far for each contract, keyed by address.
+  private storage: { [address: string]: { [key: string]: string } } = {};
+  private pendingSload?: { log: StructLog; address: string; key: string; depth: number };
+
+  constructor(private options: StructLoggerOptions = {}) {}
+
+  public onStep(step: TraceStep) {
+    const { disableStack, disableMemory, disableStorage } = this.options;
+    const { pc, op, gas, depth, context } = step;
+    const { stack, memory } = context;
+
+    this.resolvePendingSload(depth, stack);
+
+    const log: StructLog = {
+      pc,
+      op: op.mnemonic,
+      gas: Number(gas),
+      gasCost: 0,
+      depth: depth + 1,
+    };
+
+    if (!disableStack) {
+      // Copy to a plain array first, as Stack can't be constructed by map.
+      log.stack = [...stack].map(toWord);
+    }
+
+    if (!disableMemory) {
+      const bytes = memory.loadN(BigInt(0), Number(memory.activeMemoryWords()) * 32).toString('hex');
+      log.memory = bytes.match(/.{64}/g) || [];
+    }
+
+    if (!disableStorage && (op.mnemonic === 'SSTORE' || op.mnemonic === 'SLOAD') && stack.length) {
+      const address = context.executor.toString();
+      const key = toWord(stack[stack.length - 1]);
+      if (op.mnemonic === 'SSTORE' && stack.length > 1) {
+        this.getStorage(address)[key] = toWord(stack[stack.length - 2]);
+        log.storage = { ...this.getStorage(address) };
+      } else {
+        this.pendingSload = { log, address, key, depth };
+      }
+    }
+
+    this.steps.push({ step, log });
+  }
+
+  public onCallEnter(call: TraceCall) {}
+
+  public onCallExit(result: TraceCallResult) {}
+
+  public getStructLogs() {
+    return this.steps.map(({ step, log }) => ({
+      ...log,
+      gasCost: Number(step.gasCost),
+      ...(step.error ? { error: step.error.message } : {}),
+    }));
+  }
+
+  private getStorage(address: string) {
+    return this.storage[address] || (this.storage[address] = {});
+  }
+
+  // The value loaded by an SLOAD is on top of the stack when the next instruction in the same frame begins.
+  private resolvePendingSload(depth: number, stack: bigint[]) {
+    if (!this.pendingSload || this.pendingSload.depth !== depth) {
+      return;
+    }
+    const { log, address, key } = this.pendingSload;
+    this.getStorage(address)[key] = toWord(stack[stack.length - 1]);
+    log.storage = { ...this.getStorage(address) };
+    this.pendingSload = undefined;
+  }
+}
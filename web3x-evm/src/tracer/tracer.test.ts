@@ -0,0 +1,130 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import levelup from 'levelup';
+import memdown from 'memdown';
+import { Address } from 'web3x/address';
+import { BlockchainContext } from '../blockchain';
+import { messageCall } from '../vm/message-call';
+import { WorldState } from '../world';
+import { CallTracer } from './call-tracer';
+import { StructLogger } from './struct-logger';
+import { Tracer } from './tracer';
+
+describe('tracer', () => {
+  const sender = Address.fromString('0x0000000000000000000000000000000000000010');
+  const contract = Address.fromString('0x0000000000000000000000000000000000000020');
+  const callee = Address.fromString('0x0000000000000000000000000000000000000030');
+  const blockchainCtx: BlockchainContext = {
+    timestamp: 0,
+    difficulty: BigInt(0),
+    blockGasLimit: BigInt(8000000),
+    blockNumber: 0,
+    last256BlockHashes: [],
+    coinbase: Address.ZERO,
+    chainId: 1,
+    hardfork: 'istanbul',
+  };
+  let worldState: WorldState;
+
+  const deployCode = async (address: Address, code: string) => {
+    worldState.checkpoint();
+    await worldState.createAccount(address, BigInt(0), BigInt(1), Buffer.from(code, 'hex'));
+    await worldState.commit();
+  };
+
+  const call = (tracer: Tracer) =>
+    messageCall(
+      worldState,
+      blockchainCtx,
+      sender,
+      sender,
+      contract,
+      contract,
+      BigInt(100000),
+      BigInt(0),
+      BigInt(0),
+      BigInt(0),
+      Buffer.of(),
+      0,
+      true,
+      tracer,
+    );
+
+  beforeEach(async () => {
+    worldState = await WorldState.fromDb(levelup(memdown()));
+    worldState.checkpoint();
+    await worldState.createAccount(sender, BigInt(0));
+    await worldState.commit();
+  });
+
+  it('should log each step', async () => {
+    // PUSH1 2 PUSH1 1 SSTORE PUSH1 1 SLOAD STOP
+    await deployCode(contract, '6002600155600154' + '00');
+
+    const structLogger = new StructLogger();
+    await call(structLogger);
+    const logs = structLogger.getStructLogs();
+
+    expect(logs.map(log => log.op)).toEqual(['PUSH1', 'PUSH1', 'SSTORE', 'PUSH1', 'SLOAD', 'STOP']);
+    expect(logs.map(log => log.pc)).toEqual([0, 2, 4, 5, 7, 8]);
+    expect(logs[0].gas).toBe(100000);
+    expect(logs[0].gasCost).toBe(3);
+    expect(logs[2].gasCost).toBe(20000);
+    expect(logs[0].depth).toBe(1);
+    expect(logs[2].stack).toEqual([
+      '0000000000000000000000000000000000000000000000000000000000000002',
+      '0000000000000000000000000000000000000000000000000000000000000001',
+    ]);
+
+    const slot = '0000000000000000000000000000000000000000000000000000000000000001';
+    const value = '0000000000000000000000000000000000000000000000000000000000000002';
+    expect(logs[2].storage).toEqual({ [slot]: value });
+    expect(logs[4].storage).toEqual({ [slot]: value });
+  });
+
+  it('should log errors', async () => {
+    // PUSH1 0 JUMP
+    await deployCode(contract, '600056');
+
+    const structLogger = new StructLogger();
+    await call(structLogger);
+    const logs = structLogger.getStructLogs();
+
+    expect(logs[1].op).toBe('JUMP');
+    expect(logs[1].error).toBeDefined();
+  });
+
+  it('should build a tree of calls', async () => {
+    // PUSH1 0 DUP1 REVERT
+    await deployCode(callee, '600080fd');
+    // PUSH1 0 DUP1 DUP1 DUP1 DUP1 PUSH20 callee GAS CALL STOP
+    await deployCode(contract, '6000808080807' + '3' + callee.toBuffer().toString('hex') + '5af100');
+
+    const callTracer = new CallTracer();
+    callTracer.onCallEnter({
+      type: 'CALL',
+      from: sender,
+      to: contract,
+      value: BigInt(0),
+      gas: BigInt(0),
+      input: Buffer.of(),
+      depth: 0,
+    });
+    await call(callTracer);
+    callTracer.onCallExit({ gasUsed: BigInt(0), output: Buffer.of(), reverted: false });
+
+    const result = callTracer.getResult()!;
+    expect(result.to).toBe(contract.toString());
+    expect(result.calls).toHaveLength(1);
+    expect(result.calls![0].type).toBe('CALL');
+    expect(result.calls![0].from).toBe(contract.toString());
+    expect(result.calls![0].to).toBe(callee.toString());
+    expect(result.calls![0].gasUsed).toBe('0x6');
+    expect(result.calls![0].error).toBe('execution reverted');
+  });
+});
@@ -0,0 +1,53 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { Address } from 'web3x/address';
+import { OpCode } from '../opcodes';
+import { EvmContext } from '../vm/evm-context';
+
+export type CallType = 'CALL' | 'CALLCODE' | 'DELEGATECALL' | 'STATICCALL' | 'CREATE' | 'CREATE2';
+
+export interface TraceStep {
+  pc: number;
+  op: OpCode;
+  // Gas available before the instruction.
+  gas: bigint;
+  // Set once the instruction completes. Includes any gas consumed by child calls.
+  gasCost: bigint;
+  depth: number;
+  // The context of the executing frame. Its stack and memory are as they were before the instruction.
+  context: EvmContext;
+  error?: Error;
+}
+
+export interface TraceCall {
+  type: CallType;
+  from: Address;
+  // Undefined for creates, for which the address is given in the result.
+  to?: Address;
+  value: bigint;
+  gas: bigint;
+  input: Buffer;
+  depth: number;
+}
+
+export interface TraceCallResult {
+  gasUsed: bigint;
+  output: Buffer;
+  reverted: boolean;
+  contractAddress?: Address;
+  error?: Error;
+}
+
+/**
+ * Receives events during execution. Set on the EvmContext, and passed on to the contexts of any child calls.
+ */
+export interface Tracer {
+  onStep(step: TraceStep): void;
+  onCallEnter(call: TraceCall): void;
+  onCallExit(result: TraceCallResult): void;
+}
@@ -47,6 +47,18 @@ export class Trie {
     );
   }
 
+  public async del(key: Buffer): Promise<void> {
+    return new Promise((resolve, reject) =>
+      this.trie.del(key, err => {
+        if (err) {
+          return reject(err);
+        } else {
+          return resolve();
+        }
+      }),
+    );
+  }
+
   public checkpoint() {
     this.trie.checkpoint();
   }
@@ -0,0 +1,9 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+export * from './mine-tx-pool';
+export * from './tx-pool';
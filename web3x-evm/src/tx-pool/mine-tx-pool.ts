@@ -0,0 +1,72 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { Address } from 'web3x/address';
+import { Blockchain, BlockchainContext } from '../blockchain';
+import { EvaluatedTx, evaluateTx } from '../blockchain/evaluate-txs';
+import { mineEvaluatedTxs } from '../blockchain/mine-txs';
+import { Tracer } from '../tracer';
+import { WorldState } from '../world';
+import { PooledTx, TxPool } from './tx-pool';
+
+/**
+ * Executes the pool's pending transactions in turn, until the block gas limit is reached. Transactions that are no
+ * longer valid, such as when the sender can no longer afford them, are returned as invalid rather than failing the
+ * block. A transaction doesn't fit if its gas limit exceeds the gas left in the block. A sender's later transactions
+ * are left for a future block if one of theirs is invalid or doesn't fit.
+ */
+export async function evaluatePooledTxs(
+  worldState: WorldState,
+  blockchainContext: BlockchainContext,
+  txPool: TxPool,
+  tracer?: Tracer,
+) {
+  const evaluatedTxs: EvaluatedTx[] = [];
+  const invalidTxs: PooledTx[] = [];
+  const deferredSenders: Address[] = [];
+  let cumulativeGasUsed = BigInt(0);
+
+  for (const pooledTx of await txPool.getMiningOrder(blockchainContext.baseFee)) {
+    const { tx, sender } = pooledTx;
+    if (deferredSenders.some(deferredSender => deferredSender.equals(sender))) {
+      continue;
+    }
+
+    if (tx.gasLimit > blockchainContext.blockGasLimit - cumulativeGasUsed) {
+      deferredSenders.push(sender);
+      continue;
+    }
+
+    worldState.checkpoint();
+    try {
+      const evaluatedTx = await evaluateTx(worldState, blockchainContext, tx, sender, cumulativeGasUsed, tracer);
+      await worldState.commit();
+      cumulativeGasUsed = evaluatedTx.receipt.cumulativeGasUsed;
+      evaluatedTxs.push(evaluatedTx);
+    } catch (err) {
+      await worldState.revert();
+      invalidTxs.push(pooledTx);
+      deferredSenders.push(sender);
+    }
+  }
+
+  return { evaluatedTxs, invalidTxs };
+}
+
+/**
+ * Mines a block from the pool's pending transactions. Mined and invalid transactions are removed from the pool.
+ */
+export async function mineTxPool(worldState: WorldState, blockchain: Blockchain, txPool: TxPool, tracer?: Tracer) {
+  const blockchainContext = blockchain.getContext();
+  const { evaluatedTxs, invalidTxs } = await evaluatePooledTxs(worldState, blockchainContext, txPool, tracer);
+  const mined = await mineEvaluatedTxs(worldState, blockchain, blockchainContext, evaluatedTxs);
+
+  invalidTxs.forEach(({ txHash }) => txPool.remove(txHash));
+  await txPool.prune();
+
+  return mined;
+}
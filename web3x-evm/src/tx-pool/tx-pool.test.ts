@@ -0,0 +1,128 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import levelup from 'levelup';
+import memdown from 'memdown';
+import { Address } from 'web3x/address';
+import { BLOCK_GAS_LIMIT } from '../blockchain';
+import { Tx, TxType } from '../tx';
+import { WorldState } from '../world';
+import { TxPool } from './tx-pool';
+
+describe('tx-pool', () => {
+  const sender1 = Address.fromString('0x0000000000000000000000000000000000000010');
+  const sender2 = Address.fromString('0x0000000000000000000000000000000000000020');
+  let worldState!: WorldState;
+  let txPool!: TxPool;
+
+  const createTx = (sender: Address, nonce: number, gasPrice: number = 1): Tx => ({
+    nonce: BigInt(nonce),
+    to: Address.ZERO,
+    dataOrInit: Buffer.of(),
+    gasPrice: BigInt(gasPrice),
+    gasLimit: BigInt(21000),
+    value: BigInt(0),
+    v: '0x',
+    r: sender.toString().toLowerCase(),
+    s: '0x',
+  });
+
+  const createFeeMarketTx = (sender: Address, nonce: number, maxFee: number, priorityFee: number): Tx => ({
+    ...createTx(sender, nonce, maxFee),
+    type: TxType.FEE_MARKET,
+    chainId: BigInt(1),
+    maxPriorityFeePerGas: BigInt(priorityFee),
+  });
+
+  beforeEach(async () => {
+    worldState = await WorldState.fromDb(levelup(memdown()));
+    worldState.checkpoint();
+    await worldState.createAccount(sender1, BigInt(0), BigInt(1));
+    await worldState.commit();
+    txPool = new TxPool(worldState);
+  });
+
+  it('should split transactions into pending and queued lanes by nonce', async () => {
+    await txPool.add(createTx(sender1, 3), sender1);
+    await txPool.add(createTx(sender1, 1), sender1);
+    await txPool.add(createTx(sender2, 0), sender2);
+
+    expect((await txPool.getPending()).map(({ tx }) => tx.nonce)).toEqual([BigInt(1), BigInt(0)]);
+    expect((await txPool.getQueued()).map(({ tx }) => tx.nonce)).toEqual([BigInt(3)]);
+    expect(await txPool.getNextNonce(sender1)).toBe(BigInt(2));
+
+    // Filling the gap promotes the queued transaction.
+    await txPool.add(createTx(sender1, 2), sender1);
+    expect(await txPool.getQueued()).toHaveLength(0);
+    expect(await txPool.getNextNonce(sender1)).toBe(BigInt(4));
+  });
+
+  it('should reject transactions with used nonces', async () => {
+    await expect(txPool.add(createTx(sender1, 0), sender1)).rejects.toThrow('Nonce too low');
+  });
+
+  it('should reject transactions whose gas limit exceeds the block gas limit', async () => {
+    const tx = { ...createTx(sender1, 1), gasLimit: BLOCK_GAS_LIMIT + BigInt(1) };
+    await expect(txPool.add(tx, sender1)).rejects.toThrow('exceeds block gas limit');
+  });
+
+  it('should only replace transactions that raise the gas price enough', async () => {
+    const { txHash } = await txPool.add(createTx(sender1, 1, 100), sender1);
+
+    await expect(txPool.add(createTx(sender1, 1, 100), sender1)).rejects.toThrow('already known');
+    await expect(txPool.add(createTx(sender1, 1, 109), sender1)).rejects.toThrow('underpriced');
+
+    const replacement = await txPool.add(createTx(sender1, 1, 110), sender1);
+    expect(txPool.getTransaction(txHash)).toBeUndefined();
+    expect(txPool.getTransactions()).toEqual([replacement]);
+  });
+
+  it('should only replace fee market transactions that raise both the max fee and priority fee enough', async () => {
+    await txPool.add(createFeeMarketTx(sender1, 1, 100, 10), sender1);
+
+    await expect(txPool.add(createFeeMarketTx(sender1, 1, 200, 10), sender1)).rejects.toThrow('underpriced');
+    await expect(txPool.add(createFeeMarketTx(sender1, 1, 100, 20), sender1)).rejects.toThrow('underpriced');
+
+    const replacement = await txPool.add(createFeeMarketTx(sender1, 1, 110, 11), sender1);
+    expect(txPool.getTransactions()).toEqual([replacement]);
+  });
+
+  it('should order fee market transactions by the gas price they pay at the base fee', async () => {
+    await txPool.add(createFeeMarketTx(sender1, 1, 100, 1), sender1);
+    await txPool.add(createTx(sender2, 0, 20), sender2);
+
+    const ordered = await txPool.getMiningOrder(BigInt(10));
+    expect(ordered.map(({ sender }) => sender)).toEqual([sender2, sender1]);
+  });
+
+  it('should order transactions by gas price, keeping each sender in nonce order', async () => {
+    await txPool.add(createTx(sender1, 1, 10), sender1);
+    await txPool.add(createTx(sender1, 2, 30), sender1);
+    await txPool.add(createTx(sender2, 0, 20), sender2);
+    await txPool.add(createTx(sender2, 1, 5), sender2);
+
+    const ordered = await txPool.getMiningOrder();
+    expect(ordered.map(({ sender, tx }) => [sender, tx.nonce])).toEqual([
+      [sender2, BigInt(0)],
+      [sender1, BigInt(1)],
+      [sender1, BigInt(2)],
+      [sender2, BigInt(1)],
+    ]);
+  });
+
+  it('should prune transactions whose nonces have been used', async () => {
+    await txPool.add(createTx(sender1, 1), sender1);
+    await txPool.add(createTx(sender1, 2), sender1);
+
+    worldState.checkpoint();
+    (await worldState.loadAccount(sender1))!.nonce = BigInt(2);
+    await worldState.commit();
+    await txPool.prune();
+
+    expect(txPool.getTransactions().map(({ tx }) => tx.nonce)).toEqual([BigInt(2)]);
+  });
+});
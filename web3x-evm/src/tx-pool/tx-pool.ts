@@ -0,0 +1,175 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { Address } from 'web3x/address';
+import { sha3Buffer } from 'web3x/utils';
+import { BLOCK_GAS_LIMIT } from '../blockchain';
+import { serializeTx, Tx, TxType } from '../tx';
+import { getEffectiveGasPrice } from '../vm';
+import { WorldState } from '../world';
+
+export interface PooledTx {
+  tx: Tx;
+  txHash: Buffer;
+  sender: Address;
+}
+
+// Percentage by which a replacement must raise the gas price of the transaction it replaces.
+const PRICE_BUMP = BigInt(10);
+
+// The most a transaction pays the miner per gas. Fee market transactions also pay the base fee, up to their max fee.
+const getPriorityFee = (tx: Tx) => (tx.type === TxType.FEE_MARKET ? tx.maxPriorityFeePerGas! : tx.gasPrice);
+
+const isBumped = (price: bigint, replacedPrice: bigint) =>
+  price * BigInt(100) >= replacedPrice * (BigInt(100) + PRICE_BUMP);
+
+const byNonce = (a: PooledTx, b: PooledTx) => (a.tx.nonce < b.tx.nonce ? -1 : 1);
+
+/**
+ * Holds transactions that have been sent but not yet mined. A sender's transactions are pending if their nonces follow
+ * on from the sender's account nonce without a gap, and can be mined. Those after a gap are queued until it's filled.
+ */
+export class TxPool {
+  // Pooled transactions of each sender, keyed by nonce.
+  private txs: { [sender: string]: { [nonce: string]: PooledTx } } = {};
+
+  constructor(private worldState: WorldState) {}
+
+  /**
+   * Adds the transaction to the pool. A transaction with the same sender and nonce as one already pooled replaces it,
+   * if its gas price is at least 10% higher. For fee market transactions, both the max fee and the priority fee must
+   * be. A transaction whose gas limit exceeds the block gas limit is rejected, as it could never be mined.
+   */
+  public async add(tx: Tx, sender: Address) {
+    if (tx.gasLimit > BLOCK_GAS_LIMIT) {
+      throw new Error('Transaction gas limit exceeds block gas limit.');
+    }
+
+    const accountNonce = await this.worldState.getTransactionCount(sender);
+    if (tx.nonce < accountNonce) {
+      throw new Error(`Nonce too low: ${tx.nonce} < ${accountNonce}`);
+    }
+
+    const pooledTx: PooledTx = { tx, txHash: sha3Buffer(serializeTx(tx)), sender };
+    const senderTxs = this.txs[sender.toString()] || {};
+    const replaced = senderTxs[tx.nonce.toString()];
+
+    if (replaced) {
+      if (replaced.txHash.equals(pooledTx.txHash)) {
+        throw new Error(`Transaction already known: ${replaced.txHash.toString('hex')}`);
+      }
+      if (!isBumped(tx.gasPrice, replaced.tx.gasPrice) || !isBumped(getPriorityFee(tx), getPriorityFee(replaced.tx))) {
+        throw new Error('Replacement transaction underpriced.');
+      }
+    }
+
+    senderTxs[tx.nonce.toString()] = pooledTx;
+    this.txs[sender.toString()] = senderTxs;
+    return pooledTx;
+  }
+
+  public getTransaction(txHash: Buffer) {
+    return this.getTransactions().find(pooledTx => pooledTx.txHash.equals(txHash));
+  }
+
+  /**
+   * Returns all pooled transactions, pending and queued, ordered by sender and nonce.
+   */
+  public getTransactions() {
+    return Object.values(this.txs).reduce(
+      (txs, senderTxs) => [...txs, ...Object.values(senderTxs).sort(byNonce)],
+      [] as PooledTx[],
+    );
+  }
+
+  /**
+   * Returns the transactions that can be mined now, ordered by sender and nonce.
+   */
+  public async getPending() {
+    const lanes = await Promise.all(Object.keys(this.txs).map(sender => this.getLanes(sender)));
+    return lanes.reduce((txs, { pending }) => [...txs, ...pending], [] as PooledTx[]);
+  }
+
+  /**
+   * Returns the transactions waiting on a transaction with an earlier nonce, ordered by sender and nonce.
+   */
+  public async getQueued() {
+    const lanes = await Promise.all(Object.keys(this.txs).map(sender => this.getLanes(sender)));
+    return lanes.reduce((txs, { queued }) => [...txs, ...queued], [] as PooledTx[]);
+  }
+
+  /**
+   * Returns the nonce following the sender's pending transactions.
+   */
+  public async getNextNonce(sender: Address) {
+    const accountNonce = await this.worldState.getTransactionCount(sender);
+    const { pending } = await this.getLanes(sender.toString());
+    return accountNonce + BigInt(pending.length);
+  }
+
+  /**
+   * Returns the pending transactions in the order they're mined, highest gas price paid at the given base fee first.
+   * Each sender's transactions remain in nonce order.
+   */
+  public async getMiningOrder(baseFee?: bigint) {
+    const lanes = await Promise.all(Object.keys(this.txs).map(async sender => (await this.getLanes(sender)).pending));
+    const ordered: PooledTx[] = [];
+
+    while (true) {
+      const nonEmptyLanes = lanes.filter(lane => lane.length);
+      if (!nonEmptyLanes.length) {
+        return ordered;
+      }
+      const price = (lane: PooledTx[]) => getEffectiveGasPrice(lane[0].tx, baseFee);
+      const lane = nonEmptyLanes.reduce((best, next) => (price(next) > price(best) ? next : best));
+      ordered.push(lane.shift()!);
+    }
+  }
+
+  public remove(txHash: Buffer) {
+    const pooledTx = this.getTransaction(txHash);
+    if (pooledTx) {
+      delete this.txs[pooledTx.sender.toString()][pooledTx.tx.nonce.toString()];
+    }
+  }
+
+  /**
+   * Removes transactions whose nonces have been used, such as those that have just been mined.
+   */
+  public async prune() {
+    for (const pooledTx of this.getTransactions()) {
+      if (pooledTx.tx.nonce < (await this.worldState.getTransactionCount(pooledTx.sender))) {
+        this.remove(pooledTx.txHash);
+      }
+    }
+  }
+
+  /**
+   * Replaces the pooled transactions with the given ones, such as those previously returned by getTransactions.
+   */
+  public restore(pooledTxs: PooledTx[]) {
+    this.txs = {};
+    for (const pooledTx of pooledTxs) {
+      const senderTxs = this.txs[pooledTx.sender.toString()] || {};
+      senderTxs[pooledTx.tx.nonce.toString()] = pooledTx;
+      this.txs[pooledTx.sender.toString()] = senderTxs;
+    }
+  }
+
+  private async getLanes(sender: string) {
+    const senderTxs = Object.values(this.txs[sender] || {}).sort(byNonce);
+    if (!senderTxs.length) {
+      return { pending: [] as PooledTx[], queued: [] as PooledTx[] };
+    }
+
+    let nonce = await this.worldState.getTransactionCount(senderTxs[0].sender);
+    const txs = senderTxs.filter(({ tx }) => tx.nonce >= nonce);
+    const gap = txs.findIndex(({ tx }) => tx.nonce !== nonce++);
+    const pending = gap < 0 ? txs : txs.slice(0, gap);
+    return { pending, queued: txs.slice(pending.length) };
+  }
+}
@@ -19,4 +19,15 @@ export class TxSubstrate {
   public logs: Log[] = [];
   public touchedAccounts: { [address: string]: EvmAccount } = {};
   public refundBalance: bigint = BigInt(0);
+
+  /**
+   * Accrue the substrate of a successful child call or create into this one.
+   */
+  public merge(substrate: TxSubstrate) {
+    this.logs.push(...substrate.logs);
+    this.selfDestructSet.push(
+      ...substrate.selfDestructSet.filter(a => !this.selfDestructSet.some(b => b.address.equals(a.address))),
+    );
+    this.refundBalance += substrate.refundBalance;
+  }
 }
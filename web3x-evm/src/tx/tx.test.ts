@@ -5,10 +5,12 @@
   https://opensource.org/licenses/MIT
 */
 
+import * as rlp from 'rlp';
 import { Account } from 'web3x/account';
 import { sign, SignTransactionRequest } from 'web3x/account/sign-transaction';
 import { Address } from 'web3x/address';
-import { recoverTransactionSender, Tx } from './tx';
+import EthLibAccount from 'web3x/eth-lib/account';
+import { deserializeTx, getTypedTxSigningHash, recoverTransactionSender, serializeTx, Tx, TxType } from './tx';
 
 describe('tx', () => {
   it('should recover correct address', () => {
@@ -50,4 +52,54 @@ describe('tx', () => {
 
     expect(recovered).toEqual(fromAccount.address);
   });
+
+  it('should round trip and recover the sender of typed transactions', () => {
+    const fromAccount = Account.create();
+    const to = Address.fromString('0xF0109fC8DF283027b6285cc889F5aA624EaC1F55');
+
+    for (const type of [TxType.ACCESS_LIST, TxType.FEE_MARKET]) {
+      const unsignedTx: Tx = {
+        type,
+        chainId: BigInt(1),
+        nonce: BigInt(3),
+        gasPrice: BigInt(20000000000),
+        ...(type === TxType.FEE_MARKET ? { maxPriorityFeePerGas: BigInt(1000000000) } : {}),
+        gasLimit: BigInt(50000),
+        to,
+        value: BigInt(1000),
+        dataOrInit: Buffer.from('abcd', 'hex'),
+        accessList: [{ address: to, storageKeys: [Buffer.alloc(32, 1)] }],
+        v: '0x',
+        r: '0x',
+        s: '0x',
+      };
+      const signature = EthLibAccount.makeSigner(0)(getTypedTxSigningHash(unsignedTx), fromAccount.privateKey);
+      const [v, r, s] = EthLibAccount.decodeSignature(signature);
+      const serialized = serializeTx({ ...unsignedTx, v, r, s });
+
+      expect(serialized[0]).toBe(type);
+
+      const tx = deserializeTx(serialized);
+
+      expect(tx.type).toBe(type);
+      expect(tx.maxPriorityFeePerGas).toEqual(unsignedTx.maxPriorityFeePerGas);
+      expect(tx.accessList).toEqual(unsignedTx.accessList);
+      expect(serializeTx(tx)).toEqual(serialized);
+      expect(recoverTransactionSender(tx)).toEqual(fromAccount.address);
+    }
+  });
+
+  it('should reject typed transactions with a malformed access list', () => {
+    const to = Address.fromString('0xF0109fC8DF283027b6285cc889F5aA624EaC1F55').toBuffer();
+    const encode = (accessList: any) =>
+      Buffer.concat([Buffer.of(TxType.ACCESS_LIST), rlp.encode([1, 0, 1, 21000, to, 0, '0x', accessList, 1, 1, 1])]);
+
+    expect(deserializeTx(encode([[to, [Buffer.alloc(32)]]])).accessList).toEqual([
+      { address: new Address(to), storageKeys: [Buffer.alloc(32)] },
+    ]);
+    expect(() => deserializeTx(encode([[to, Buffer.alloc(32)]]))).toThrow('Invalid access list.');
+    expect(() => deserializeTx(encode([[to, [Buffer.alloc(31)]]]))).toThrow('Invalid access list.');
+    expect(() => deserializeTx(encode([to]))).toThrow('Invalid access list.');
+    expect(() => deserializeTx(encode(to))).toThrow('Invalid access list.');
+  });
 });
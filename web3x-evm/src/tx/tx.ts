@@ -12,41 +12,120 @@ import Account from 'web3x/eth-lib/account';
 import Bytes from 'web3x/eth-lib/bytes';
 import { bufferToHex, hexToBuffer, sha3 } from 'web3x/utils';
 
+/**
+ * Transaction types of the typed transaction envelope (EIP-2718). Legacy transactions have no type byte.
+ */
+export enum TxType {
+  LEGACY = 0,
+  ACCESS_LIST = 1,
+  FEE_MARKET = 2,
+}
+
+export interface AccessListEntry {
+  address: Address;
+  storageKeys: Buffer[];
+}
+
+// Accounts and storage slots that are warmed before execution (EIP-2930).
+export type AccessList = AccessListEntry[];
+
 export interface Tx {
+  // Absent for legacy transactions.
+  type?: TxType;
+  // Typed transactions hold their chain id, rather than encoding it in v.
+  chainId?: bigint;
   nonce: bigint;
   to?: Address;
   dataOrInit: Buffer;
+  // The max fee per gas of fee market transactions, which pay at most this.
   gasPrice: bigint;
+  maxPriorityFeePerGas?: bigint;
   gasLimit: bigint;
   value: bigint;
+  accessList?: AccessList;
+  // The y parity of typed transactions.
   v: string;
   r: string;
   s: string;
 }
 
+// Integers are encoded big endian without leading zeros, so zero is the empty string, as RLP requires.
+const toRlpInt = (n: bigint) => (n > BigInt(0) ? toBufferBE(n, Math.ceil(n.toString(16).length / 2)) : Buffer.of());
+const toBigInt = (buf: Buffer) => (buf.length ? toBigIntBE(buf) : BigInt(0));
+
+const serializeAccessList = (accessList: AccessList = []) =>
+  accessList.map(({ address, storageKeys }) => [address.toBuffer(), storageKeys]);
+
+const isAccessListEntry = (entry: any): entry is [Buffer, Buffer[]] =>
+  Array.isArray(entry) &&
+  entry.length === 2 &&
+  Buffer.isBuffer(entry[0]) &&
+  entry[0].length === 20 &&
+  Array.isArray(entry[1]) &&
+  entry[1].every((key: any) => Buffer.isBuffer(key) && key.length === 32);
+
+const deserializeAccessList = (decoded: any): AccessList => {
+  if (!Array.isArray(decoded) || !decoded.every(isAccessListEntry)) {
+    throw new Error('Invalid access list.');
+  }
+  return (decoded as [Buffer, Buffer[]][]).map(([address, storageKeys]) => ({
+    address: new Address(address),
+    storageKeys,
+  }));
+};
+
+/**
+ * The fields of a typed transaction that are signed, in order.
+ */
+function typedTxFields(tx: Tx) {
+  const { type, chainId = BigInt(0), nonce, gasPrice, maxPriorityFeePerGas = BigInt(0), gasLimit, to } = tx;
+  return [
+    toRlpInt(chainId),
+    toRlpInt(nonce),
+    ...(type === TxType.FEE_MARKET ? [toRlpInt(maxPriorityFeePerGas)] : []),
+    toRlpInt(gasPrice),
+    toRlpInt(gasLimit),
+    to ? to.toBuffer() : Buffer.of(),
+    toRlpInt(tx.value),
+    tx.dataOrInit,
+    serializeAccessList(tx.accessList),
+  ];
+}
+
+const isTypedTx = (tx: Tx) => !!tx.type;
+
 export function serializeTx(tx: Tx) {
-  const { nonce, gasPrice, gasLimit, to, value, dataOrInit, v, r, s } = tx;
+  // Encoded canonically, so the hash of a raw transaction is that of the bytes sent.
+  const signature = [tx.v, tx.r, tx.s].map(value => toRlpInt(toBigInt(hexToBuffer(value))));
+  if (isTypedTx(tx)) {
+    return Buffer.concat([Buffer.of(tx.type!), rlp.encode([...typedTxFields(tx), ...signature])]);
+  }
+
+  const { nonce, gasPrice, gasLimit, to, value, dataOrInit } = tx;
   return rlp.encode([
-    toBufferBE(nonce, 32),
-    toBufferBE(gasPrice, 32),
-    toBufferBE(gasLimit, 32),
+    toRlpInt(nonce),
+    toRlpInt(gasPrice),
+    toRlpInt(gasLimit),
     to ? to.toBuffer() : Buffer.of(),
-    toBufferBE(value, 32),
+    toRlpInt(value),
     dataOrInit,
-    hexToBuffer(v),
-    hexToBuffer(r),
-    hexToBuffer(s),
+    ...signature,
   ]);
 }
 
 export function deserializeTx(data: Buffer): Tx {
+  // Legacy transactions are rlp lists, so start with a byte of at least 0xc0.
+  if (data[0] <= 0x7f) {
+    return deserializeTypedTx(data[0], data.slice(1));
+  }
+
   const bufs: Buffer[] = rlp.decode(data) as any;
   return {
-    nonce: toBigIntBE(bufs[0]),
-    gasPrice: toBigIntBE(bufs[1]),
-    gasLimit: toBigIntBE(bufs[2]),
+    nonce: toBigInt(bufs[0]),
+    gasPrice: toBigInt(bufs[1]),
+    gasLimit: toBigInt(bufs[2]),
     to: bufs[3].length ? new Address(bufs[3]) : undefined,
-    value: toBigIntBE(bufs[4]),
+    value: toBigInt(bufs[4]),
     dataOrInit: bufs[5],
     v: bufferToHex(bufs[6]),
     r: bufferToHex(bufs[7]),
@@ -54,11 +133,60 @@ export function deserializeTx(data: Buffer): Tx {
   };
 }
 
+function deserializeTypedTx(type: TxType, data: Buffer): Tx {
+  if (type !== TxType.ACCESS_LIST && type !== TxType.FEE_MARKET) {
+    throw new Error(`Unsupported transaction type: ${type}`);
+  }
+  const bufs: any[] = rlp.decode(data) as any;
+  const [chainId, nonce, ...rest] = bufs;
+  const maxPriorityFeePerGas = type === TxType.FEE_MARKET ? toBigInt(rest.shift()) : undefined;
+  const [gasPrice, gasLimit, to, value, dataOrInit, accessList, v, r, s] = rest;
+  return {
+    type,
+    chainId: toBigInt(chainId),
+    nonce: toBigInt(nonce),
+    ...(maxPriorityFeePerGas !== undefined ? { maxPriorityFeePerGas } : {}),
+    gasPrice: toBigInt(gasPrice),
+    gasLimit: toBigInt(gasLimit),
+    to: to.length ? new Address(to) : undefined,
+    value: toBigInt(value),
+    dataOrInit,
+    accessList: deserializeAccessList(accessList),
+    v: bufferToHex(v),
+    r: bufferToHex(r),
+    s: bufferToHex(s),
+  };
+}
+
+/**
+ * Returns the hash signed by the sender of a typed transaction.
+ */
+export function getTypedTxSigningHash(tx: Tx) {
+  return sha3(Buffer.concat([Buffer.of(tx.type!), rlp.encode(typedTxFields(tx))]));
+}
+
 const bigIntToHex = n => '0x' + n.toString(16);
 
+/**
+ * Returns true if the transaction has no signature, as those sent from impersonated accounts. Their sender can't be
+ * recovered, so must be given wherever they're executed. A signature with a zero r or s is never valid.
+ */
+export function isUnsignedTx({ r, s }: Tx) {
+  return !hexToBuffer(r).length || !hexToBuffer(s).length;
+}
+
 export function recoverTransactionSender(tx: Tx): Address {
   const { to, nonce, gasPrice, gasLimit, value, dataOrInit, v, r, s } = tx;
 
+  if (isUnsignedTx(tx)) {
+    throw new Error('Transaction is unsigned.');
+  }
+
+  if (isTypedTx(tx)) {
+    const typedSignature = Bytes.flatten([Bytes.pad(32, r), Bytes.pad(32, s), Bytes.pad(1, v)]);
+    return Address.fromString(Account.recover(getTypedTxSigningHash(tx), typedSignature));
+  }
+
   const signature = Bytes.flatten([Bytes.pad(32, r), Bytes.pad(32, s), v]);
   const recovery = Number(v);
   const extraData = recovery < 35 ? [] : [Bytes.fromNumber((recovery - 35) >> 1), '0x', '0x'];
@@ -7,9 +7,14 @@
 
 import { Address } from 'web3x/address';
 import { BlockchainContext } from '../blockchain';
+import { Tracer } from '../tracer';
 import { TxSubstrate } from '../tx';
 import { WorldState } from '../world';
 import { EvmContext } from './evm-context';
+import { Gas } from './gas';
+
+// EIP-170.
+const MAX_CODE_SIZE = 24576;
 
 export async function contractCreation(
   worldState: WorldState,
@@ -22,6 +27,8 @@ export async function contractCreation(
   initCode: Buffer,
   callDepth: number,
   modify: boolean,
+  salt?: Buffer,
+  tracer?: Tracer,
 ) {
   worldState.checkpoint();
 
@@ -30,8 +37,28 @@ export async function contractCreation(
     throw new Error('Sender account not found.');
   }
 
-  const contractAddress = senderAccount.nextContractAddress();
-  const contractAccount = await worldState.createAccount(contractAddress, value, BigInt(1));
+  const contractAddress = salt
+    ? senderAccount.saltedContractAddress(salt, initCode)
+    : senderAccount.nextContractAddress();
+  worldState.accessAccount(contractAddress);
+
+  // An account may already exist at the address (e.g. it was sent funds), but it must not have code or a nonce.
+  const existingAccount = await worldState.loadAccount(contractAddress);
+  if (existingAccount && (existingAccount.code.length || existingAccount.nonce)) {
+    await worldState.revert();
+    return {
+      contractAddress,
+      remainingGas: BigInt(0),
+      reverted: true,
+      returned: Buffer.of(),
+      error: new Error(`Contract address collision at ${contractAddress}.`),
+    };
+  }
+
+  senderAccount.balance -= value;
+  const contractAccount = existingAccount || (await worldState.createAccount(contractAddress, BigInt(0)));
+  contractAccount.nonce = BigInt(1);
+  contractAccount.balance += value;
 
   const txSubstrate = new TxSubstrate();
   const callContext = new EvmContext(
@@ -51,21 +78,44 @@ export async function contractCreation(
     modify,
     txSubstrate,
   );
+  callContext.tracer = tracer;
   await contractAccount.run(callContext);
 
-  if (callContext.reverted) {
+  if (!callContext.reverted) {
+    const code = callContext.returned;
+    const codeDepositCost = BigInt(Gas.GCODEDEPOSIT * code.length);
+    if (code.length > MAX_CODE_SIZE) {
+      callContext.abort(new Error(`Contract code size ${code.length} exceeds limit of ${MAX_CODE_SIZE}.`));
+    } else if (codeDepositCost > callContext.availableGas) {
+      callContext.abort(new Error('Out of gas depositing contract code.'));
+    } else {
+      callContext.availableGas -= codeDepositCost;
+    }
+  }
+
+  const { reverted, returned, error } = callContext;
+
+  if (reverted) {
     await worldState.revert();
-  } else {
-    const contractAccount = await worldState.loadAccount(contractAddress);
-    contractAccount!.code = callContext.returned;
-    await worldState.commit();
+    return {
+      contractAddress,
+      remainingGas: callContext.availableGas,
+      reverted,
+      // Only a REVERT returns data. After an exceptional halt, the init code's return data is discarded.
+      returned: error ? Buffer.of() : returned,
+      error,
+    };
   }
 
+  (await worldState.loadAccount(contractAddress))!.code = returned;
+  await worldState.commit();
+
   return {
     contractAddress,
-    remainingGas: BigInt(0),
+    remainingGas: callContext.availableGas,
     txSubstrate,
-    reverted: callContext.reverted,
-    error: callContext.error,
+    reverted,
+    returned: Buffer.of(),
+    error,
   };
 }
@@ -9,9 +9,11 @@ import { Address } from 'web3x/address';
 import { BlockchainContext } from '../blockchain';
 import { EvmMemory } from '../memory';
 import { Stack } from '../stack';
+import { Tracer } from '../tracer';
 import { Trie } from '../trie';
 import { TxSubstrate } from '../tx/tx-substrate';
 import { WorldState } from '../world/world-state';
+import { GAS_SCHEDULES, memoryCost } from './gas';
 
 export class EvmContext {
   public stack = new Stack<bigint>();
@@ -23,6 +25,7 @@ export class EvmContext {
   public returned = Buffer.of();
   public lastReturned = Buffer.of();
   public error?: Error;
+  public tracer?: Tracer;
 
   constructor(
     public worldState: WorldState,
@@ -41,4 +44,61 @@ export class EvmContext {
     public modify: boolean = true,
     public txSubstrate: TxSubstrate = new TxSubstrate(),
   ) {}
+
+  public get gasSchedule() {
+    return GAS_SCHEDULES[this.blockchainCtx.hardfork];
+  }
+
+  /**
+   * Deducts the given amount from the available gas, throwing if there is not enough.
+   */
+  public useGas(amount: bigint) {
+    if (amount > this.availableGas) {
+      this.availableGas = BigInt(0);
+      throw new Error('Out of gas.');
+    }
+    this.availableGas -= amount;
+  }
+
+  /**
+   * Charges the given cost for accessing an account. With access lists (EIP-2929), the first access in a transaction
+   * is charged the cold account access cost instead.
+   */
+  public useAccountAccessGas(address: Address, cost: number) {
+    const { accessLists, coldAccountAccess } = this.gasSchedule;
+    const cold = this.worldState.accessAccount(address);
+    this.useGas(BigInt(accessLists && cold ? coldAccountAccess : cost));
+  }
+
+  /**
+   * Charges for reading a storage slot of the executing account.
+   */
+  public useStorageAccessGas(key: Buffer) {
+    const { accessLists, coldSload, sload } = this.gasSchedule;
+    const cold = this.worldState.accessStorage(this.executor, key);
+    this.useGas(BigInt(accessLists && cold ? coldSload : sload));
+  }
+
+  /**
+   * Charges for any memory expansion caused by accessing the given range, and expands the active memory.
+   * Must be called before the memory is accessed.
+   */
+  public useMemory(offset: bigint, length: bigint) {
+    const currentWords = this.memory.activeMemoryWords();
+    const newWords = this.memory.activeMemoryWordsAfter(offset, length);
+    if (newWords > currentWords) {
+      this.useGas(memoryCost(newWords) - memoryCost(currentWords));
+      this.memory.expand(offset, length);
+    }
+  }
+
+  /**
+   * Exceptional halt. All remaining gas is consumed and any state changes will be reverted.
+   */
+  public abort(error: Error) {
+    this.error = error;
+    this.halt = true;
+    this.reverted = true;
+    this.availableGas = BigInt(0);
+  }
 }
@@ -7,17 +7,21 @@
 
 import { Address } from 'web3x/address';
 import { BlockchainContext } from '../blockchain';
-import { recoverTransactionSender, Tx } from '../tx/tx';
+import { Tracer } from '../tracer';
+import { AccessList, recoverTransactionSender, Tx, TxType } from '../tx/tx';
 import { TxSubstrate } from '../tx/tx-substrate';
 import { WorldState } from '../world';
+import { getPrecompileAddresses } from '../world/precompiled/addresses';
 import { contractCreation } from './contract-creation';
-import { Gas } from './gas';
+import { GAS_SCHEDULES, GasSchedule, intrinsicGas } from './gas';
+import { Hardfork } from './hardfork';
 import { messageCall } from './message-call';
 
 export interface ExTxContext {
   worldState: WorldState;
   blockchainContext: BlockchainContext;
   sender?: Address;
+  tracer?: Tracer;
 }
 
 export interface ExTxResult {
@@ -29,19 +33,55 @@ export interface ExTxResult {
   error?: Error;
 }
 
+/**
+ * Returns the price per gas the transaction pays. Fee market transactions pay the base fee plus their priority fee,
+ * up to their max fee. Other transactions pay their gas price.
+ */
+export function getEffectiveGasPrice(tx: Tx, baseFee?: bigint) {
+  const { gasPrice, maxPriorityFeePerGas } = tx;
+  if (tx.type !== TxType.FEE_MARKET || baseFee === undefined) {
+    return gasPrice;
+  }
+  const price = baseFee + maxPriorityFeePerGas!;
+  return price < gasPrice ? price : gasPrice;
+}
+
 export async function executeTransaction(context: ExTxContext, tx: Tx): Promise<ExTxResult> {
-  const { to, dataOrInit, value, gasPrice, gasLimit } = tx;
-  const { worldState, blockchainContext } = context;
+  const { to, dataOrInit, value, gasLimit, accessList = [] } = tx;
+  const { worldState, blockchainContext, tracer } = context;
   const sender = context.sender || recoverTransactionSender(tx);
+  const { baseFee = BigInt(0) } = blockchainContext;
+  const gasPrice = getEffectiveGasPrice(tx, blockchainContext.baseFee);
+
+  const schedule = GAS_SCHEDULES[blockchainContext.hardfork];
 
-  await validateTx(worldState, sender, tx);
+  await validateTx(worldState, sender, tx, blockchainContext, schedule);
 
+  worldState.startTransaction();
+  warmTransactionAccounts(worldState, blockchainContext.hardfork, sender, to, accessList);
+
+  // Increment nonce and purchase all gas up front.
   worldState.checkpoint();
   const senderAccount = (await worldState.loadAccount(sender))!;
   senderAccount.nonce++;
+  senderAccount.balance -= gasLimit * gasPrice;
   await worldState.commit();
 
-  const result = to
+  const availableGas = gasLimit - intrinsicGas(dataOrInit, !to, schedule, accessList);
+
+  if (tracer) {
+    tracer.onCallEnter({
+      type: to ? 'CALL' : 'CREATE',
+      from: sender,
+      to,
+      value,
+      gas: gasLimit,
+      input: dataOrInit,
+      depth: 0,
+    });
+  }
+
+  const result: ExTxResult = to
     ? await messageCall(
         worldState,
         blockchainContext,
@@ -49,32 +89,106 @@ export async function executeTransaction(context: ExTxContext, tx: Tx): Promise<
         sender,
         to,
         to,
-        gasLimit,
+        availableGas,
         gasPrice,
         value,
         value,
         dataOrInit,
         0,
         true,
+        tracer,
       )
     : await contractCreation(
         worldState,
         blockchainContext,
         sender,
         sender,
-        gasLimit,
+        availableGas,
         gasPrice,
         value,
         dataOrInit,
         0,
         true,
+        undefined,
+        tracer,
       );
 
-  return result;
+  // Unused gas plus any refund (capped to a fraction of the gas used) is returned to the sender. Coinbase is paid the
+  // rest, less the base fee, which is burned.
+  const gasUsed = gasLimit - result.remainingGas;
+  const refundBalance = result.txSubstrate ? result.txSubstrate.refundBalance : BigInt(0);
+  const maxRefund = gasUsed / BigInt(schedule.maxRefundQuotient);
+  const refund = refundBalance < maxRefund ? refundBalance : maxRefund;
+  const remainingGas = result.remainingGas + refund;
+  const fee = (gasLimit - remainingGas) * (gasPrice - baseFee);
+
+  worldState.checkpoint();
+  (await worldState.loadAccount(sender))!.balance += remainingGas * gasPrice;
+  if (fee > BigInt(0)) {
+    (await worldState.loadOrCreateAccount(blockchainContext.coinbase)).balance += fee;
+  }
+  // Accounts that self destructed during execution are deleted now the transaction is complete.
+  if (result.txSubstrate) {
+    for (const account of result.txSubstrate.selfDestructSet) {
+      await worldState.deleteAccount(account.address);
+    }
+  }
+  await worldState.commit();
+
+  if (tracer) {
+    const { returned = Buffer.of(), reverted, contractAddress, error } = result;
+    tracer.onCallExit({ gasUsed: gasLimit - remainingGas, output: returned, reverted, contractAddress, error });
+  }
+
+  return { ...result, remainingGas };
 }
 
-async function validateTx(worldState: WorldState, sender: Address, tx: Tx) {
-  const { to, dataOrInit, value, nonce, gasLimit, gasPrice } = tx;
+/**
+ * The sender, recipient, precompiles and access list are accessed before execution begins (EIP-2929, EIP-2930).
+ */
+export function warmTransactionAccounts(
+  worldState: WorldState,
+  hardfork: Hardfork,
+  sender: Address,
+  to?: Address,
+  accessList: AccessList = [],
+) {
+  worldState.accessAccount(sender);
+  if (to) {
+    worldState.accessAccount(to);
+  }
+  getPrecompileAddresses(hardfork).forEach(address => worldState.accessAccount(address));
+  for (const { address, storageKeys } of accessList) {
+    worldState.accessAccount(address);
+    storageKeys.forEach(key => worldState.accessStorage(address, key));
+  }
+}
+
+async function validateTx(
+  worldState: WorldState,
+  sender: Address,
+  tx: Tx,
+  blockchainContext: BlockchainContext,
+  schedule: GasSchedule,
+) {
+  const { to, dataOrInit, value, nonce, gasLimit, gasPrice, type = TxType.LEGACY, accessList } = tx;
+  const { baseFee } = blockchainContext;
+
+  if ((type === TxType.ACCESS_LIST && !schedule.accessLists) || (type === TxType.FEE_MARKET && !schedule.feeMarket)) {
+    throw new Error(`Transaction type ${type} is not supported before the hardfork that introduced it.`);
+  }
+
+  if (tx.chainId !== undefined && tx.chainId !== BigInt(blockchainContext.chainId)) {
+    throw new Error(`Transaction chain id ${tx.chainId} does not match chain id ${blockchainContext.chainId}.`);
+  }
+
+  if (type === TxType.FEE_MARKET && tx.maxPriorityFeePerGas! > gasPrice) {
+    throw new Error(`Max priority fee per gas ${tx.maxPriorityFeePerGas} exceeds max fee per gas ${gasPrice}.`);
+  }
+
+  if (baseFee !== undefined && gasPrice < baseFee) {
+    throw new Error(`Max fee per gas ${gasPrice} is less than the block base fee ${baseFee}.`);
+  }
 
   const senderAccount = await worldState.loadImmutableAccount(sender);
   if (!senderAccount) {
@@ -85,12 +199,9 @@ async function validateTx(worldState: WorldState, sender: Address, tx: Tx) {
     throw new Error(`Sender account nonce does not match transaction nonce: ${senderAccount.nonce} != ${nonce}`);
   }
 
-  const intrinsicGas =
-    (dataOrInit && dataOrInit.length ? Gas.GTXDATANONZERO : Gas.GTXDATANONZERO) +
-    (to ? 0 : Gas.GTXCREATE) +
-    Gas.GTRANSACTION;
-  if (gasLimit < intrinsicGas) {
-    throw new Error(`Gas limit ${gasLimit} is less than intrinsic gas ${intrinsicGas} for this transaction.`);
+  const requiredGas = intrinsicGas(dataOrInit, !to, schedule, accessList);
+  if (gasLimit < requiredGas) {
+    throw new Error(`Gas limit ${gasLimit} is less than intrinsic gas ${requiredGas} for this transaction.`);
   }
 
   const upFrontCost = gasLimit * gasPrice + value;
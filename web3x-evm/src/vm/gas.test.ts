@@ -0,0 +1,228 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import levelup from 'levelup';
+import memdown from 'memdown';
+import { Address } from 'web3x/address';
+import { BlockchainContext } from '../blockchain';
+import { Tx, TxType } from '../tx';
+import { WorldState } from '../world';
+import { executeTransaction } from './execute-transaction';
+import { messageCall } from './message-call';
+
+describe('gas', () => {
+  const sender = Address.fromString('0x0000000000000000000000000000000000000010');
+  const contract = Address.fromString('0x0000000000000000000000000000000000000020');
+  const coinbase = Address.fromString('0x0000000000000000000000000000000000000030');
+  const blockchainCtx: BlockchainContext = {
+    timestamp: 0,
+    difficulty: BigInt(0),
+    blockGasLimit: BigInt(8000000),
+    chainId: 1,
+    hardfork: 'petersburg',
+    blockNumber: 0,
+    last256BlockHashes: [],
+    coinbase,
+  };
+  let worldState: WorldState;
+
+  const deployCode = async (code: string) => {
+    worldState.checkpoint();
+    await worldState.createAccount(contract, BigInt(0), BigInt(1), Buffer.from(code, 'hex'));
+    await worldState.commit();
+  };
+
+  const call = (gas: number) =>
+    messageCall(
+      worldState,
+      blockchainCtx,
+      sender,
+      sender,
+      contract,
+      contract,
+      BigInt(gas),
+      BigInt(1),
+      BigInt(0),
+      BigInt(0),
+      Buffer.of(),
+      0,
+      true,
+    );
+
+  beforeEach(async () => {
+    worldState = await WorldState.fromDb(levelup(memdown()));
+    worldState.checkpoint();
+    await worldState.createAccount(sender, BigInt(10) ** BigInt(18));
+    await worldState.commit();
+  });
+
+  it('should charge static costs', async () => {
+    // PUSH1 1 PUSH1 2 ADD STOP
+    await deployCode('600160020100');
+    const { remainingGas, reverted } = await call(100);
+    expect(reverted).toBe(false);
+    expect(remainingGas).toBe(BigInt(100 - 9));
+  });
+
+  it('should charge memory expansion', async () => {
+    // PUSH1 1 PUSH1 0x40 MSTORE STOP
+    await deployCode('6001604052' + '00');
+    const { remainingGas } = await call(100);
+    // 3 + 3 + 3 for the ops, 3 * 3 + 9 / 512 for 3 words of memory.
+    expect(remainingGas).toBe(BigInt(100 - 9 - 9));
+  });
+
+  it('should charge sha3 words', async () => {
+    // PUSH1 0x40 PUSH1 0 SHA3 STOP
+    await deployCode('6040600020' + '00');
+    const { remainingGas } = await call(100);
+    // 3 + 3 + 30 for the ops, 2 * 6 for the words hashed, 2 * 3 for memory.
+    expect(remainingGas).toBe(BigInt(100 - 36 - 12 - 6));
+  });
+
+  it('should charge exponent bytes', async () => {
+    // PUSH2 0x0100 PUSH1 2 EXP STOP
+    await deployCode('61010060020a' + '00');
+    const { remainingGas } = await call(200);
+    expect(remainingGas).toBe(BigInt(200 - 3 - 3 - 10 - 2 * 50));
+  });
+
+  it('should consume all gas and revert when out of gas', async () => {
+    // PUSH1 1 PUSH1 0 SSTORE STOP
+    await deployCode('6001600055' + '00');
+    const { remainingGas, reverted } = await call(10000);
+    expect(reverted).toBe(true);
+    expect(remainingGas).toBe(BigInt(0));
+
+    const account = await worldState.loadImmutableAccount(contract);
+    expect(await account!.storage.get(Buffer.alloc(32))).toBeNull();
+  });
+
+  it('should not consume remaining gas on revert', async () => {
+    // PUSH1 0 DUP1 REVERT
+    await deployCode('600080fd');
+    const { remainingGas, reverted } = await call(100);
+    expect(reverted).toBe(true);
+    expect(remainingGas).toBe(BigInt(100 - 6));
+  });
+
+  it('should halt an infinite loop', async () => {
+    // JUMPDEST PUSH1 0 JUMP
+    await deployCode('5b600056');
+    const { remainingGas, reverted } = await call(1000000);
+    expect(reverted).toBe(true);
+    expect(remainingGas).toBe(BigInt(0));
+  });
+
+  it('should only forward all but one 64th of gas to child calls', async () => {
+    // PUSH1 0 DUP1 DUP1 DUP1 DUP1 PUSH1 0x40 GAS CALL STOP
+    // Calls 0x40, an empty account, with all gas.
+    await deployCode('6000808080806040' + '5a' + 'f1' + '00');
+    const { remainingGas, reverted } = await call(100000);
+    expect(reverted).toBe(false);
+    // Empty account consumes nothing, so only the instructions are paid for.
+    expect(remainingGas).toBe(BigInt(100000 - 3 - 3 * 4 - 3 - 2 - 700));
+  });
+
+  it('should charge transaction fees and refund unused gas', async () => {
+    // PUSH1 1 PUSH1 0 SSTORE PUSH1 0 DUP1 SSTORE STOP
+    await deployCode('600160005560008055' + '00');
+
+    const gasPrice = BigInt(2);
+    const gasLimit = BigInt(100000);
+    const tx: Tx = {
+      nonce: BigInt(0),
+      to: contract,
+      dataOrInit: Buffer.of(),
+      gasPrice,
+      gasLimit,
+      value: BigInt(0),
+      v: '0x',
+      r: '0x',
+      s: '0x',
+    };
+
+    const { remainingGas, reverted } = await executeTransaction(
+      { worldState, blockchainContext: blockchainCtx, sender },
+      tx,
+    );
+    expect(reverted).toBe(false);
+
+    // Intrinsic, 4 pushes and dups, set then clear the same slot, less the refund for clearing.
+    const expectedGasUsed = BigInt(21000 + 12 + 20000 + 5000 - 15000);
+    expect(gasLimit - remainingGas).toBe(expectedGasUsed);
+
+    const senderAccount = await worldState.loadImmutableAccount(sender);
+    const coinbaseAccount = await worldState.loadImmutableAccount(coinbase);
+    expect(senderAccount!.balance).toBe(BigInt(10) ** BigInt(18) - expectedGasUsed * gasPrice);
+    expect(coinbaseAccount!.balance).toBe(expectedGasUsed * gasPrice);
+  });
+
+  describe('typed transactions', () => {
+    const executeTypedTx = (blockchainContext: BlockchainContext, tx: Partial<Tx>) =>
+      executeTransaction(
+        { worldState, blockchainContext, sender },
+        {
+          nonce: BigInt(0),
+          to: contract,
+          dataOrInit: Buffer.of(),
+          gasPrice: BigInt(1),
+          gasLimit: BigInt(100000),
+          value: BigInt(0),
+          v: '0x',
+          r: '0x',
+          s: '0x',
+          ...tx,
+        },
+      );
+
+    it('should charge for and warm the access list', async () => {
+      // PUSH1 0 SLOAD STOP
+      await deployCode('60005400');
+      const { remainingGas } = await executeTypedTx(
+        { ...blockchainCtx, hardfork: 'berlin' },
+        { type: TxType.ACCESS_LIST, accessList: [{ address: contract, storageKeys: [Buffer.alloc(32)] }] },
+      );
+      // Intrinsic, the access list address and key, then the push and a warm read.
+      expect(BigInt(100000) - remainingGas).toBe(BigInt(21000 + 2400 + 1900 + 3 + 100));
+    });
+
+    it('should burn the base fee and pay the priority fee to the coinbase', async () => {
+      await deployCode('00');
+      const baseFee = BigInt(10);
+      const { remainingGas } = await executeTypedTx(
+        { ...blockchainCtx, hardfork: 'london', baseFee },
+        { type: TxType.FEE_MARKET, gasPrice: BigInt(100), maxPriorityFeePerGas: BigInt(5) },
+      );
+      const gasUsed = BigInt(100000) - remainingGas;
+      expect(gasUsed).toBe(BigInt(21000));
+
+      const senderAccount = await worldState.loadImmutableAccount(sender);
+      const coinbaseAccount = await worldState.loadImmutableAccount(coinbase);
+      expect(senderAccount!.balance).toBe(BigInt(10) ** BigInt(18) - gasUsed * (baseFee + BigInt(5)));
+      expect(coinbaseAccount!.balance).toBe(gasUsed * BigInt(5));
+    });
+
+    it('should reject a max fee below the base fee', async () => {
+      await expect(
+        executeTypedTx(
+          { ...blockchainCtx, hardfork: 'london', baseFee: BigInt(10) },
+          { type: TxType.FEE_MARKET, gasPrice: BigInt(9), maxPriorityFeePerGas: BigInt(0) },
+        ),
+      ).rejects.toThrow('less than the block base fee');
+    });
+
+    it('should reject fee market transactions before london', async () => {
+      await expect(
+        executeTypedTx(
+          { ...blockchainCtx, hardfork: 'berlin' },
+          { type: TxType.FEE_MARKET, gasPrice: BigInt(9), maxPriorityFeePerGas: BigInt(0) },
+        ),
+      ).rejects.toThrow('not supported');
+    });
+  });
+});
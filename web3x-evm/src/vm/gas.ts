@@ -5,6 +5,9 @@
   https://opensource.org/licenses/MIT
 */
 
+import { AccessList } from '../tx/tx';
+import { Hardfork } from './hardfork';
+
 export enum Gas {
   GZERO = 0,
   GBASE = 2,
@@ -41,5 +44,194 @@ export enum Gas {
   GSHA3WORD = 6,
   GCOPY = 3,
   GBLOCKHASH = 20,
-  GQUADDIVISOR = 100,
+  GQUADDIVISOR = 20,
+  GSHA256 = 60,
+  GSHA256WORD = 12,
+  GRIPEMD160 = 600,
+  GRIPEMD160WORD = 120,
+  GIDENTITY = 15,
+  GIDENTITYWORD = 3,
+  GBLAKE2FROUND = 1,
+  GACCESSLISTADDRESS = 2400,
+  GACCESSLISTSTORAGEKEY = 1900,
+}
+
+export enum SstoreMetering {
+  // Charged on the value being replaced alone.
+  LEGACY,
+  // Net gas metering against the value at the start of the transaction (EIP-1283, EIP-2200).
+  NET,
 }
+
+/**
+ * The costs that differ between hardforks.
+ */
+export interface GasSchedule {
+  // SLOAD. With access lists, the cost of reading a warm storage slot.
+  sload: number;
+  // BALANCE. With access lists, the cost of accessing a warm account, as are the following three.
+  balance: number;
+  // EXTCODESIZE and EXTCODECOPY.
+  extCode: number;
+  extCodeHash: number;
+  // CALL, CALLCODE, DELEGATECALL and STATICCALL.
+  call: number;
+  txDataNonZero: number;
+  sstoreMetering: SstoreMetering;
+  sstoreReset: number;
+  // Fail an SSTORE if no more than the call stipend remains (EIP-2200).
+  sstoreSentry: boolean;
+  // Charge extra for the first access of an account or storage slot in a transaction (EIP-2929).
+  accessLists: boolean;
+  coldAccountAccess: number;
+  coldSload: number;
+  ecAdd: number;
+  ecMul: number;
+  ecPairing: number;
+  ecPairingPoint: number;
+  // Price MODEXP by the cheaper formula of EIP-2565, rather than that of EIP-198.
+  modExpRepricing: boolean;
+  sstoreClearRefund: number;
+  selfDestructRefund: number;
+  // The refund is capped to the gas used divided by this.
+  maxRefundQuotient: number;
+  // Blocks have a base fee, which is burned, and transactions may set a priority fee for the miner (EIP-1559).
+  feeMarket: boolean;
+}
+
+const byzantium: GasSchedule = {
+  sload: 200,
+  balance: 400,
+  extCode: 700,
+  extCodeHash: 400,
+  call: 700,
+  txDataNonZero: 68,
+  sstoreMetering: SstoreMetering.LEGACY,
+  sstoreReset: 5000,
+  sstoreSentry: false,
+  accessLists: false,
+  coldAccountAccess: 0,
+  coldSload: 0,
+  ecAdd: 500,
+  ecMul: 40000,
+  ecPairing: 100000,
+  ecPairingPoint: 80000,
+  modExpRepricing: false,
+  sstoreClearRefund: 15000,
+  selfDestructRefund: 24000,
+  maxRefundQuotient: 2,
+  feeMarket: false,
+};
+
+const constantinople: GasSchedule = { ...byzantium, sstoreMetering: SstoreMetering.NET };
+
+const petersburg: GasSchedule = byzantium;
+
+const istanbul: GasSchedule = {
+  ...byzantium,
+  sload: 800,
+  balance: 700,
+  extCodeHash: 700,
+  txDataNonZero: 16,
+  sstoreMetering: SstoreMetering.NET,
+  sstoreSentry: true,
+  ecAdd: 150,
+  ecMul: 6000,
+  ecPairing: 45000,
+  ecPairingPoint: 34000,
+};
+
+const berlin: GasSchedule = {
+  ...istanbul,
+  sload: 100,
+  balance: 100,
+  extCode: 100,
+  extCodeHash: 100,
+  call: 100,
+  sstoreReset: 2900,
+  accessLists: true,
+  coldAccountAccess: 2600,
+  coldSload: 2100,
+  modExpRepricing: true,
+};
+
+// Refunds are reduced by EIP-3529.
+const london: GasSchedule = {
+  ...berlin,
+  sstoreClearRefund: 4800,
+  selfDestructRefund: 0,
+  maxRefundQuotient: 5,
+  feeMarket: true,
+};
+
+export const GAS_SCHEDULES: { [hardfork in Hardfork]: GasSchedule } = {
+  byzantium,
+  constantinople,
+  petersburg,
+  istanbul,
+  berlin,
+  london,
+};
+
+/**
+ * Number of 32 byte words required to hold the given number of bytes.
+ */
+export function toWords(bytes: bigint) {
+  return (bytes + BigInt(31)) / BigInt(32);
+}
+
+/**
+ * Total cost of having the given number of words of active memory (YP-326).
+ */
+export function memoryCost(words: bigint) {
+  return BigInt(Gas.GMEMORY) * words + (words * words) / BigInt(512);
+}
+
+/**
+ * Cost of copying the given number of bytes (CALLDATACOPY, CODECOPY, RETURNDATACOPY, etc).
+ */
+export function copyCost(bytes: bigint) {
+  return BigInt(Gas.GCOPY) * toWords(bytes);
+}
+
+/**
+ * The maximum gas that can be passed to a child call or create (EIP-150).
+ */
+export function allButOne64th(gas: bigint) {
+  return gas - gas / BigInt(64);
+}
+
+/**
+ * Gas charged up front for a transaction before any code is executed (YP-55).
+ */
+export function intrinsicGas(
+  data: Buffer,
+  isContractCreation: boolean,
+  schedule: GasSchedule,
+  accessList: AccessList = [],
+) {
+  let gas = BigInt(Gas.GTRANSACTION);
+  for (const byte of data) {
+    gas += BigInt(byte ? schedule.txDataNonZero : Gas.GTXDATAZERO);
+  }
+  if (isContractCreation) {
+    gas += BigInt(Gas.GTXCREATE);
+  }
+  for (const { storageKeys } of accessList) {
+    gas += BigInt(Gas.GACCESSLISTADDRESS + Gas.GACCESSLISTSTORAGEKEY * storageKeys.length);
+  }
+  return gas;
+}
+
+/**
+ * Gas to pass to a child call. The requested amount, capped at all but one 64th of the available gas (EIP-150).
+ */
+export function callGas(requested: bigint, available: bigint) {
+  const cap = allButOne64th(available);
+  return requested < cap ? requested : cap;
+}
+
+/**
+ * Maximum depth of nested calls and creates.
+ */
+export const MAX_CALL_DEPTH = 1024;
@@ -0,0 +1,16 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { toBufferBE } from 'bigint-buffer';
+import { Address } from 'web3x/address';
+import { WorldState } from '../world/world-state';
+
+export async function getAccountStorage(worldState: WorldState, address: Address, slot: bigint) {
+  const account = await worldState.loadImmutableAccount(address);
+  const value = account ? await account.storage.get(toBufferBE(slot, 32)) : null;
+  return value || toBufferBE(BigInt(0), 32);
+}
@@ -0,0 +1,164 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import levelup from 'levelup';
+import memdown from 'memdown';
+import { Address } from 'web3x/address';
+import { BlockchainContext } from '../blockchain';
+import { WorldState } from '../world';
+import { Hardfork } from './hardfork';
+import { messageCall } from './message-call';
+
+describe('hardfork', () => {
+  const sender = Address.fromString('0x0000000000000000000000000000000000000010');
+  const contract = Address.fromString('0x0000000000000000000000000000000000000020');
+  let worldState: WorldState;
+
+  const deployCode = async (code: string) => {
+    worldState.checkpoint();
+    await worldState.createAccount(contract, BigInt(0), BigInt(1), Buffer.from(code, 'hex'));
+    await worldState.commit();
+  };
+
+  const call = (hardfork: Hardfork, gas: number) => {
+    const blockchainCtx: BlockchainContext = {
+      timestamp: 0,
+      difficulty: BigInt(0),
+      blockGasLimit: BigInt(8000000),
+      blockNumber: 0,
+      last256BlockHashes: [],
+      coinbase: Address.ZERO,
+      chainId: 1,
+      hardfork,
+    };
+    return messageCall(
+      worldState,
+      blockchainCtx,
+      sender,
+      sender,
+      contract,
+      contract,
+      BigInt(gas),
+      BigInt(1),
+      BigInt(0),
+      BigInt(0),
+      Buffer.of(),
+      0,
+      true,
+    );
+  };
+
+  beforeEach(async () => {
+    worldState = await WorldState.fromDb(levelup(memdown()));
+    worldState.checkpoint();
+    await worldState.createAccount(sender, BigInt(10) ** BigInt(18));
+    await worldState.commit();
+  });
+
+  it('should only allow opcodes from the selected hardfork', async () => {
+    // PUSH1 1 PUSH1 1 SHL STOP
+    await deployCode('600160011b00');
+
+    const byzantium = await call('byzantium', 100);
+    expect(byzantium.reverted).toBe(true);
+
+    const constantinople = await call('constantinople', 100);
+    expect(constantinople.reverted).toBe(false);
+  });
+
+  it('should only allow BASEFEE from london', async () => {
+    // BASEFEE STOP
+    await deployCode('4800');
+
+    const berlin = await call('berlin', 100);
+    expect(berlin.reverted).toBe(true);
+
+    const london = await call('london', 100);
+    expect(london.reverted).toBe(false);
+  });
+
+  describe('sstore', () => {
+    // PUSH1 1 PUSH1 0 SSTORE PUSH1 0 DUP1 SSTORE STOP
+    const setAndClear = '600160005560008055' + '00';
+
+    it('should charge each store in full before constantinople', async () => {
+      await deployCode(setAndClear);
+      const { remainingGas, txSubstrate } = await call('petersburg', 100000);
+      expect(remainingGas).toBe(BigInt(100000 - 12 - 20000 - 5000));
+      expect(txSubstrate!.refundBalance).toBe(BigInt(15000));
+    });
+
+    it('should charge net gas in constantinople', async () => {
+      await deployCode(setAndClear);
+      const { remainingGas, txSubstrate } = await call('constantinople', 100000);
+      expect(remainingGas).toBe(BigInt(100000 - 12 - 20000 - 200));
+      expect(txSubstrate!.refundBalance).toBe(BigInt(19800));
+    });
+
+    it('should charge net gas in istanbul', async () => {
+      await deployCode(setAndClear);
+      const { remainingGas, txSubstrate } = await call('istanbul', 100000);
+      expect(remainingGas).toBe(BigInt(100000 - 12 - 20000 - 800));
+      expect(txSubstrate!.refundBalance).toBe(BigInt(19200));
+    });
+
+    it('should charge for cold slot in berlin', async () => {
+      await deployCode(setAndClear);
+      const { remainingGas, txSubstrate } = await call('berlin', 100000);
+      expect(remainingGas).toBe(BigInt(100000 - 12 - 2100 - 20000 - 100));
+      expect(txSubstrate!.refundBalance).toBe(BigInt(19900));
+    });
+
+    it('should refund less for clearing a slot in london', async () => {
+      // PUSH1 0 PUSH1 0 SSTORE STOP
+      await deployCode('6000600055' + '00');
+      const clearSlot = async (hardfork: Hardfork) => {
+        worldState.checkpoint();
+        await (await worldState.loadAccount(contract))!.storage.put(Buffer.alloc(32), Buffer.alloc(32, 1));
+        await worldState.commit();
+        worldState.startTransaction();
+        return await call(hardfork, 100000);
+      };
+
+      const berlin = await clearSlot('berlin');
+      expect(berlin.txSubstrate!.refundBalance).toBe(BigInt(15000));
+
+      const london = await clearSlot('london');
+      expect(london.txSubstrate!.refundBalance).toBe(BigInt(4800));
+    });
+
+    it('should fail when only the call stipend remains in istanbul', async () => {
+      // PUSH1 1 PUSH1 0 SSTORE STOP
+      await deployCode('6001600055' + '00');
+      const { reverted } = await call('istanbul', 2306);
+      expect(reverted).toBe(true);
+    });
+  });
+
+  describe('access lists', () => {
+    it('should charge cold then warm storage reads in berlin', async () => {
+      // PUSH1 0 SLOAD PUSH1 0 SLOAD STOP
+      await deployCode('60005460005400');
+      const { remainingGas } = await call('berlin', 10000);
+      expect(remainingGas).toBe(BigInt(10000 - 6 - 2100 - 100));
+    });
+
+    it('should charge cold then warm account access in berlin', async () => {
+      // PUSH1 0x40 BALANCE PUSH1 0x40 BALANCE STOP
+      await deployCode('60403160403100');
+      const { remainingGas } = await call('berlin', 10000);
+      expect(remainingGas).toBe(BigInt(10000 - 6 - 2600 - 100));
+    });
+
+    it('should charge fixed account access before berlin', async () => {
+      // PUSH1 0x40 BALANCE PUSH1 0x40 BALANCE STOP
+      await deployCode('60403160403100');
+      const { remainingGas } = await call('istanbul', 10000);
+      expect(remainingGas).toBe(BigInt(10000 - 6 - 700 - 700));
+    });
+  });
+});
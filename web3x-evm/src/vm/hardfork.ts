@@ -0,0 +1,22 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+export type Hardfork = 'byzantium' | 'constantinople' | 'petersburg' | 'istanbul' | 'berlin' | 'london';
+
+/**
+ * Supported hardforks, oldest first.
+ */
+export const HARDFORKS: Hardfork[] = ['byzantium', 'constantinople', 'petersburg', 'istanbul', 'berlin', 'london'];
+
+export const DEFAULT_HARDFORK: Hardfork = 'istanbul';
+
+/**
+ * True if the rules of the given hardfork include those introduced in `since`.
+ */
+export function hardforkAtLeast(hardfork: Hardfork, since: Hardfork) {
+  return HARDFORKS.indexOf(hardfork) >= HARDFORKS.indexOf(since);
+}
@@ -10,3 +10,4 @@ export * from './run';
 export * from './get-account-code';
 export * from './message-call';
 export * from './execute-transaction';
+export * from './hardfork';
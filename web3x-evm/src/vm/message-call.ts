@@ -7,7 +7,9 @@
 
 import { Address } from 'web3x/address';
 import { BlockchainContext } from '../blockchain';
+import { Tracer } from '../tracer';
 import { TxSubstrate } from '../tx';
+import { isInactivePrecompile } from '../world/precompiled/addresses';
 import { WorldState } from '../world/world-state';
 import { EvmContext } from './evm-context';
 
@@ -25,12 +27,13 @@ export async function messageCall(
   data: Buffer,
   callDepth: number,
   modify: boolean,
+  tracer?: Tracer,
 ) {
   worldState.checkpoint();
 
   const senderAccount = (await worldState.loadAccount(sender))!;
   const recipientAccount = await worldState.loadOrCreateAccount(recipient);
-  const codeAccount = (await worldState.loadAccount(codeFrom))!;
+  const codeAccount = await worldState.loadAccount(codeFrom);
   const txSubstrate = new TxSubstrate();
 
   recipientAccount.balance += transferValue;
@@ -39,7 +42,7 @@ export async function messageCall(
   const callContext = new EvmContext(
     worldState,
     blockchainCtx,
-    codeAccount.code,
+    codeAccount ? codeAccount.code : Buffer.of(),
     data,
     origin,
     sender,
@@ -53,23 +56,28 @@ export async function messageCall(
     modify,
     txSubstrate,
   );
-  await recipientAccount.run(callContext);
+  callContext.tracer = tracer;
+  // Precompiles are installed under every hardfork, but only run under those that include them.
+  if (!isInactivePrecompile(recipient, blockchainCtx.hardfork)) {
+    await recipientAccount.run(callContext);
+  }
 
   const { reverted, returned, error } = callContext;
 
   if (reverted) {
     await worldState.revert();
     return {
-      remainingGas: BigInt(0),
+      remainingGas: callContext.availableGas,
       reverted,
       returned,
+      error,
     };
   }
 
   await worldState.commit();
 
   return {
-    remainingGas: BigInt(0),
+    remainingGas: callContext.availableGas,
     txSubstrate,
     reverted,
     returned,
@@ -85,7 +93,9 @@ export async function staticMessageCall(
   recipient: Address,
   codeFrom: Address,
   data: Buffer,
+  availableGas: bigint,
   callDepth: number,
+  tracer?: Tracer,
 ) {
   const codeAccount = (await worldState.loadImmutableAccount(codeFrom))!;
   const recipientAccount = (await worldState.loadImmutableAccount(recipient))!;
@@ -100,15 +110,22 @@ export async function staticMessageCall(
     recipient,
     BigInt(0),
     BigInt(0),
-    BigInt(0),
+    availableGas,
     BigInt(0),
     recipientAccount.storage,
     callDepth,
     false,
   );
-  await recipientAccount.run(callContext);
+  callContext.tracer = tracer;
+  // Precompiles are installed under every hardfork, but only run under those that include them.
+  if (!isInactivePrecompile(recipient, blockchainCtx.hardfork)) {
+    await recipientAccount.run(callContext);
+  }
 
   return {
     returned: callContext.returned,
+    remainingGas: callContext.availableGas,
+    reverted: callContext.reverted,
+    error: callContext.error,
   };
 }
@@ -5,25 +5,11 @@
   https://opensource.org/licenses/MIT
 */
 
-import { OpCodes } from '../opcodes';
+import { disassemble, formatInstruction } from '../disassembler';
 
 export function printCode(code: Buffer) {
-  let ip = 0;
-  while (ip < code.length) {
-    const byte = code[ip];
-    const opCode = OpCodes[byte];
-
-    if (!opCode) {
-      // tslint:disable-next-line:no-console
-      console.log(`Unknown opcode 0x${byte.toString(16)}`);
-      ip += 1;
-      continue;
-    }
-
-    const opCodeParams = code.slice(ip + 1, ip + opCode.bytes);
-
+  for (const instruction of disassemble(code)) {
     // tslint:disable-next-line:no-console
-    console.log(opCode.toString(opCodeParams));
-    ip += opCode.bytes;
+    console.log(formatInstruction(instruction));
   }
 }
@@ -5,10 +5,14 @@
   https://opensource.org/licenses/MIT
 */
 
-import { OpCodes } from '../opcodes';
+import { getInstructionIndex, getOpCodes } from '../opcodes';
+import { TraceStep } from '../tracer';
 import { EvmContext } from './evm-context';
 
 export async function run(context: EvmContext, printOpcodes: boolean = false) {
+  const opCodes = getOpCodes(context.blockchainCtx.hardfork);
+  const { tracer } = context;
+  let step: TraceStep | undefined;
   try {
     while (!context.halt) {
       const { code, ip } = context;
@@ -18,7 +22,7 @@ export async function run(context: EvmContext, printOpcodes: boolean = false) {
       }
 
       const byte = code[ip];
-      const opCode = OpCodes[byte];
+      const opCode = opCodes[byte];
 
       if (!opCode) {
         throw new Error(`Unknown opcode 0x${byte.toString(16)}`);
@@ -30,27 +34,33 @@ export async function run(context: EvmContext, printOpcodes: boolean = false) {
         console.log(opCode.toString(opCodeParams));
       }
 
+      if (tracer) {
+        step = { pc: ip, op: opCode, gas: context.availableGas, gasCost: BigInt(0), depth: context.callDepth, context };
+        tracer.onStep(step);
+      }
+
+      context.useGas(BigInt(opCode.gas));
       await opCode.handle(context);
+
+      if (step) {
+        step.gasCost = step.gas - context.availableGas;
+        step = undefined;
+      }
     }
   } catch (err) {
-    context.error = err;
-    context.halt = true;
-    context.reverted = true;
+    if (step) {
+      step.gasCost = step.gas - context.availableGas;
+      step.error = err;
+    }
+    context.abort(err);
   }
 
   if (context.reverted) {
-    let instruction = 0;
-    for (let bytes = 0; bytes < context.ip; ++instruction) {
-      const { code } = context;
-      const byte = code[bytes];
-      const opCode = OpCodes[byte];
-      bytes += opCode ? opCode.bytes : 1;
-    }
+    const instruction = getInstructionIndex(context.code, context.ip);
     context.revertInstruction = instruction;
+    // Only exceptional halts have an error. A REVERT provides its reason in the returned data.
     if (context.error) {
       context.error.message += ` (instruction ${instruction})`;
-    } else {
-      context.error = new Error(`Reverted at instruction ${instruction}`);
     }
   }
 
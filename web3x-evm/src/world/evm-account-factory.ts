@@ -9,28 +9,57 @@ import { LevelUp } from 'levelup';
 import { Address } from 'web3x/address';
 import { Trie } from '../trie';
 import { EvmAccount } from './evm-account';
-import { EcAddAccount, EcdsaRecoveryAccount, EcMulAccount, EcPairingAccount } from './precompiled';
+import {
+  Blake2fAccount,
+  EcAddAccount,
+  EcdsaRecoveryAccount,
+  EcMulAccount,
+  EcPairingAccount,
+  IdentityAccount,
+  ModExpAccount,
+  Ripemd160Account,
+  Sha256Account,
+} from './precompiled';
 
 export function EvmAccountFactory(address: Address, nonce: bigint, balance: bigint, storage: Trie, code: Buffer) {
   switch (address.toString()) {
     case '0x0000000000000000000000000000000000000001':
       return new EcdsaRecoveryAccount(address, nonce, balance, storage, code);
+    case '0x0000000000000000000000000000000000000002':
+      return new Sha256Account(address, nonce, balance, storage, code);
+    case '0x0000000000000000000000000000000000000003':
+      return new Ripemd160Account(address, nonce, balance, storage, code);
+    case '0x0000000000000000000000000000000000000004':
+      return new IdentityAccount(address, nonce, balance, storage, code);
+    case '0x0000000000000000000000000000000000000005':
+      return new ModExpAccount(address, nonce, balance, storage, code);
     case '0x0000000000000000000000000000000000000006':
       return new EcAddAccount(address, nonce, balance, storage, code);
     case '0x0000000000000000000000000000000000000007':
       return new EcMulAccount(address, nonce, balance, storage, code);
     case '0x0000000000000000000000000000000000000008':
       return new EcPairingAccount(address, nonce, balance, storage, code);
+    case '0x0000000000000000000000000000000000000009':
+      return new Blake2fAccount(address, nonce, balance, storage, code);
     default:
       return new EvmAccount(address, nonce, balance, storage, code);
   }
 }
 
+/**
+ * Every precompile is installed, whatever the hardfork. Those added after the hardfork in use aren't run by message
+ * calls (see isInactivePrecompile).
+ */
 export function createPrecompilesFromDb(db: LevelUp) {
   return [
     EcdsaRecoveryAccount.fromDb(db),
+    Sha256Account.fromDb(db),
+    Ripemd160Account.fromDb(db),
+    IdentityAccount.fromDb(db),
+    ModExpAccount.fromDb(db),
     EcAddAccount.fromDb(db),
     EcMulAccount.fromDb(db),
     EcPairingAccount.fromDb(db),
+    Blake2fAccount.fromDb(db),
   ];
 }
@@ -5,7 +5,7 @@
   https://opensource.org/licenses/MIT
 */
 
-import { toBufferBE } from 'bigint-buffer';
+import BN from 'bn.js';
 import * as rlp from 'rlp';
 import { Address } from 'web3x/address';
 import { sha3Buffer } from 'web3x/utils';
@@ -23,7 +23,16 @@ export class EvmAccount {
 
   public nextContractAddress() {
     return new Address(
-      sha3Buffer(rlp.encode([this.address.toBuffer(), toBufferBE(this.nonce - BigInt(1), 32)])).slice(12),
+      sha3Buffer(rlp.encode([this.address.toBuffer(), new BN((this.nonce - BigInt(1)).toString())])).slice(12),
+    );
+  }
+
+  /**
+   * Address of a contract created by this account with CREATE2 (EIP-1014).
+   */
+  public saltedContractAddress(salt: Buffer, initCode: Buffer) {
+    return new Address(
+      sha3Buffer(Buffer.concat([Buffer.of(0xff), this.address.toBuffer(), salt, sha3Buffer(initCode)])).slice(12),
     );
   }
 
@@ -0,0 +1,144 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import levelup from 'levelup';
+import memdown from 'memdown';
+import { Address } from 'web3x/address';
+import { Eth } from 'web3x/eth';
+import { bufferToHex, hexToBuffer, hexToNumber } from 'web3x/utils';
+import { Wallet } from 'web3x/wallet';
+import { EvmProvider } from '../provider/evm-provider';
+import { ForkSource } from './fork-source';
+import { WorldState } from './world-state';
+
+describe('fork-source', () => {
+  const contract = Address.fromString('0x0000000000000000000000000000000000000020');
+  const blockNumber = 1000;
+  // PUSH1 0 SLOAD PUSH1 0 MSTORE PUSH1 32 PUSH1 0 RETURN
+  const code = '0x60005460005260206000f3';
+  const slot = (n: number) => Buffer.from(n.toString(16).padStart(64, '0'), 'hex');
+  const upstreamBlockHash = (n: number) => bufferToHex(Buffer.alloc(32, n % 256));
+  let upstream: any;
+
+  const createWorldState = () => {
+    const db = levelup(memdown());
+    return WorldState.fromDb(db, new ForkSource(db, upstream, blockNumber));
+  };
+
+  beforeEach(() => {
+    upstream = {
+      send: jest.fn(async (method: string, params: any[]) => {
+        if (method === 'eth_getBlockByNumber') {
+          return { hash: upstreamBlockHash(hexToNumber(params[0])) };
+        }
+        const isContract = params[0] === contract.toString().toLowerCase();
+        expect(params[params.length - 1]).toBe('0x3e8');
+        switch (method) {
+          case 'eth_getBalance':
+            return isContract ? '0x64' : '0x0';
+          case 'eth_getTransactionCount':
+            return isContract ? '0x2' : '0x0';
+          case 'eth_getCode':
+            return isContract ? code : '0x';
+          case 'eth_getStorageAt':
+            return isContract && params[1] === '0x0' ? '0x2a' : '0x0';
+        }
+      }),
+    };
+  });
+
+  it('should lazily load and cache accounts and storage from upstream', async () => {
+    const worldState = await createWorldState();
+
+    const account = (await worldState.loadImmutableAccount(contract))!;
+    expect(account.balance).toBe(BigInt(100));
+    expect(account.nonce).toBe(BigInt(2));
+    expect(account.code.toString('hex')).toBe(code.slice(2));
+    expect(await account.storage.get(slot(0))).toEqual(slot(42));
+    expect(await account.storage.get(slot(1))).toBeNull();
+    expect(upstream.send).toHaveBeenCalledTimes(5);
+
+    expect(await worldState.accountExists(Address.ZERO)).toBe(false);
+    upstream.send.mockClear();
+
+    // Repeated reads are served from the cache.
+    const reloaded = (await worldState.loadImmutableAccount(contract))!;
+    expect(await reloaded.storage.get(slot(0))).toEqual(slot(42));
+    expect(await worldState.accountExists(Address.ZERO)).toBe(false);
+    expect(upstream.send).not.toHaveBeenCalled();
+  });
+
+  it('should prefer local changes over upstream state', async () => {
+    const worldState = await createWorldState();
+
+    worldState.checkpoint();
+    const account = (await worldState.loadAccount(contract))!;
+    account.balance = BigInt(1);
+    await account.storage.put(slot(0), slot(0));
+    await worldState.commit();
+
+    const modified = (await worldState.loadImmutableAccount(contract))!;
+    expect(modified.balance).toBe(BigInt(1));
+    expect(modified.nonce).toBe(BigInt(2));
+    expect(modified.code.toString('hex')).toBe(code.slice(2));
+    expect(await modified.storage.get(slot(0))).toEqual(slot(0));
+
+    worldState.checkpoint();
+    await worldState.deleteAccount(contract);
+    await worldState.commit();
+    expect(await worldState.accountExists(contract)).toBe(false);
+
+    // A recreated account doesn't read its storage from upstream.
+    worldState.checkpoint();
+    await worldState.createAccount(contract, BigInt(0));
+    await worldState.commit();
+    const recreated = (await worldState.loadImmutableAccount(contract))!;
+    expect(await recreated.storage.get(slot(0))).toBeNull();
+  });
+
+  it('should only read storage from upstream for accounts loaded from it', async () => {
+    const worldState = await createWorldState();
+
+    worldState.checkpoint();
+    await worldState.createAccount(Address.ZERO, BigInt(1));
+    await worldState.commit();
+
+    const account = (await worldState.loadImmutableAccount(Address.ZERO))!;
+    upstream.send.mockClear();
+    expect(await account.storage.get(slot(0))).toBeNull();
+    expect(upstream.send).not.toHaveBeenCalled();
+  });
+
+  it('should execute upstream contract code in a forked provider', async () => {
+    const provider = await EvmProvider.fork(upstream, blockNumber, levelup(memdown()));
+    const eth = new Eth(provider);
+
+    expect(hexToNumber(await eth.call({ to: contract, data: Buffer.of(0) }))).toBe(42);
+    expect(await eth.getTransactionCount(contract)).toBe(2);
+    expect(await eth.getCode(contract)).toBe(code);
+  });
+
+  it('should number local blocks on from the fork block', async () => {
+    const provider = await EvmProvider.fork(upstream, blockNumber, levelup(memdown()));
+    const wallet = new Wallet(1);
+    await provider.loadWallet(wallet);
+    const eth = new Eth(provider);
+    expect(await eth.getBlockNumber()).toBe(blockNumber);
+
+    const from = wallet.get(0)!.address;
+    const receipt = await eth.sendTransaction({ from, to: from, value: 1, gasPrice: 1 }).getReceipt();
+    expect(receipt.blockNumber).toBe(blockNumber + 1);
+    expect(bufferToHex((await eth.getBlock(receipt.blockNumber)).parentHash)).toBe(upstreamBlockHash(blockNumber));
+
+    // Upstream block hashes are available to BLOCKHASH. PUSH2 999 BLOCKHASH PUSH1 0 MSTORE PUSH1 32 PUSH1 0 RETURN
+    const blockHashCode = hexToBuffer('0x6103e74060005260206000f3');
+    const blockHash = await eth.call({ to: contract, data: Buffer.of(0) }, 'latest', {
+      state: { [contract.toString()]: { code: blockHashCode } },
+    });
+    expect(blockHash).toBe(upstreamBlockHash(999));
+  });
+});
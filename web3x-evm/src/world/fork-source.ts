@@ -0,0 +1,119 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { toBigIntBE, toBufferBE } from 'bigint-buffer';
+import BN from 'bn.js';
+import { LevelUp } from 'levelup';
+import * as rlp from 'rlp';
+import { Address } from 'web3x/address';
+import { Eth } from 'web3x/eth';
+import { EthereumProvider } from 'web3x/providers';
+import { bufferToHex, hexToBuffer, numberToHex } from 'web3x/utils';
+
+export interface ForkedAccount {
+  nonce: bigint;
+  balance: bigint;
+  code: Buffer;
+}
+
+/**
+ * Fetches accounts and storage from an upstream provider at a fixed block. The upstream state at that block never
+ * changes, so results are cached in the local db, and each account or slot is fetched at most once.
+ */
+export class ForkSource {
+  private eth: Eth;
+
+  constructor(private db: LevelUp, private upstream: EthereumProvider, public readonly blockNumber: number) {
+    this.eth = new Eth(upstream);
+  }
+
+  /**
+   * Returns the hashes of the fork block and up to count - 1 blocks before it, oldest first.
+   */
+  public async getBlockHashes(count: number) {
+    const blockNumbers: number[] = [];
+    for (let blockNumber = Math.max(0, this.blockNumber - count + 1); blockNumber <= this.blockNumber; blockNumber++) {
+      blockNumbers.push(blockNumber);
+    }
+    return await Promise.all(blockNumbers.map(blockNumber => this.getBlockHash(blockNumber)));
+  }
+
+  private async getBlockHash(blockNumber: number) {
+    const cacheKey = this.cacheKey('blockHash', Buffer.from(blockNumber.toString()));
+    let cached = await this.getCached(cacheKey);
+
+    if (!cached) {
+      // Only the hash is needed, so the raw response is used rather than formatting the whole block.
+      const block = await this.upstream.send('eth_getBlockByNumber', [numberToHex(blockNumber), false]);
+      if (!block) {
+        throw new Error(`Unknown upstream block ${blockNumber}.`);
+      }
+      cached = hexToBuffer(block.hash);
+      await this.db.put(cacheKey, cached);
+    }
+
+    return cached;
+  }
+
+  /**
+   * Returns the account at the fork block, or undefined if it's empty.
+   */
+  public async getAccount(address: Address): Promise<ForkedAccount | undefined> {
+    const cacheKey = this.cacheKey('account', address.toBuffer());
+    let cached = await this.getCached(cacheKey);
+
+    if (!cached) {
+      const [balance, nonce, code] = await Promise.all([
+        this.eth.getBalance(address, this.blockNumber),
+        this.eth.getTransactionCount(address, this.blockNumber),
+        this.eth.getCode(address, this.blockNumber),
+      ]);
+      cached = rlp.encode([new BN(nonce), new BN(balance), hexToBuffer(code || '0x')]);
+      await this.db.put(cacheKey, cached);
+    }
+
+    const [nonceBuf, balanceBuf, codeBuf]: Buffer[] = rlp.decode(cached) as any;
+    const account = {
+      nonce: nonceBuf.length ? toBigIntBE(nonceBuf) : BigInt(0),
+      balance: balanceBuf.length ? toBigIntBE(balanceBuf) : BigInt(0),
+      code: codeBuf,
+    };
+
+    if (!account.nonce && !account.balance && !account.code.length) {
+      return;
+    }
+    return account;
+  }
+
+  /**
+   * Returns the value of the storage slot at the fork block, or null if it's zero.
+   */
+  public async getStorage(address: Address, key: Buffer): Promise<Buffer | null> {
+    const cacheKey = this.cacheKey('storage', Buffer.concat([address.toBuffer(), key]));
+    let cached = await this.getCached(cacheKey);
+
+    if (!cached) {
+      const value = await this.eth.getStorageAt(address, bufferToHex(key), this.blockNumber);
+      cached = toBufferBE(BigInt(value && value !== '0x' ? value : 0), 32);
+      await this.db.put(cacheKey, cached);
+    }
+
+    return toBigIntBE(cached) ? cached : null;
+  }
+
+  private cacheKey(type: string, key: Buffer) {
+    return Buffer.concat([Buffer.from(`fork:${this.blockNumber}:${type}:`), key]);
+  }
+
+  private async getCached(key: Buffer): Promise<Buffer | null> {
+    try {
+      return await this.db.get(key);
+    } catch (err) {
+      return null;
+    }
+  }
+}
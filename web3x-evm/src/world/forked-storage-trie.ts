@@ -0,0 +1,30 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { LevelUp } from 'levelup';
+import { Address } from 'web3x/address';
+import { Trie } from '../trie';
+import { ForkSource } from './fork-source';
+
+/**
+ * Storage trie of an account that exists upstream. Slots that have never been written locally are read from the fork.
+ * Writes always go to the local trie, and zero values are stored rather than deleted, so a local write is never
+ * shadowed by the upstream value.
+ */
+export class ForkedStorageTrie extends Trie {
+  constructor(private fork: ForkSource, private address: Address, db: LevelUp, stateRoot?: Buffer) {
+    super(db, stateRoot);
+  }
+
+  public async get(key: Buffer): Promise<Buffer> {
+    const value = await super.get(key);
+    if (value) {
+      return value;
+    }
+    return (await this.fork.getStorage(this.address, key))!;
+  }
+}
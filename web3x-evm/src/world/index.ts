@@ -5,4 +5,5 @@
   https://opensource.org/licenses/MIT
 */
 
+export * from './fork-source';
 export * from './world-state';
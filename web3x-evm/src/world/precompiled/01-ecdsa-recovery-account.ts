@@ -29,6 +29,13 @@ export class EcdsaRecoveryAccount extends EvmAccount {
 
   public async run(callContext: EvmContext) {
     const { calldata } = callContext;
+    const gas = BigInt(3000);
+
+    if (gas > callContext.availableGas) {
+      callContext.abort(new Error('Out of gas.'));
+      return callContext;
+    }
+    callContext.availableGas -= gas;
 
     const h = calldata.slice(0, 32);
     const v = calldata.slice(32, 64);
@@ -0,0 +1,48 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import createHash from 'create-hash';
+import { LevelUp } from 'levelup';
+import { Address } from 'web3x/address';
+import { Trie } from '../../trie';
+import { EvmContext } from '../../vm';
+import { Gas } from '../../vm/gas';
+import { EvmAccount } from '../evm-account';
+
+export class Sha256Account extends EvmAccount {
+  constructor(address: Address, nonce: bigint, balance: bigint, storage: Trie, code: Buffer) {
+    super(address, nonce, balance, storage, code);
+  }
+
+  public static fromDb(db: LevelUp) {
+    return new Sha256Account(
+      Address.fromString('0x0000000000000000000000000000000000000002'),
+      BigInt(0),
+      BigInt(0),
+      new Trie(db),
+      Buffer.of(),
+    );
+  }
+
+  public async run(callContext: EvmContext) {
+    const { calldata } = callContext;
+    const gas = BigInt(Gas.GSHA256 + Gas.GSHA256WORD * Math.ceil(calldata.length / 32));
+
+    if (gas > callContext.availableGas) {
+      callContext.abort(new Error('Out of gas.'));
+      return callContext;
+    }
+    callContext.availableGas -= gas;
+
+    callContext.halt = true;
+    callContext.returned = createHash('sha256')
+      .update(calldata)
+      .digest();
+
+    return callContext;
+  }
+}
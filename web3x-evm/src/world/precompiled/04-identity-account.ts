@@ -0,0 +1,45 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { LevelUp } from 'levelup';
+import { Address } from 'web3x/address';
+import { Trie } from '../../trie';
+import { EvmContext } from '../../vm';
+import { Gas } from '../../vm/gas';
+import { EvmAccount } from '../evm-account';
+
+export class IdentityAccount extends EvmAccount {
+  constructor(address: Address, nonce: bigint, balance: bigint, storage: Trie, code: Buffer) {
+    super(address, nonce, balance, storage, code);
+  }
+
+  public static fromDb(db: LevelUp) {
+    return new IdentityAccount(
+      Address.fromString('0x0000000000000000000000000000000000000004'),
+      BigInt(0),
+      BigInt(0),
+      new Trie(db),
+      Buffer.of(),
+    );
+  }
+
+  public async run(callContext: EvmContext) {
+    const { calldata } = callContext;
+    const gas = BigInt(Gas.GIDENTITY + Gas.GIDENTITYWORD * Math.ceil(calldata.length / 32));
+
+    if (gas > callContext.availableGas) {
+      callContext.abort(new Error('Out of gas.'));
+      return callContext;
+    }
+    callContext.availableGas -= gas;
+
+    callContext.halt = true;
+    callContext.returned = Buffer.from(calldata);
+
+    return callContext;
+  }
+}
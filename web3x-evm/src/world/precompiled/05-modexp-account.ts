@@ -0,0 +1,125 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { toBigIntBE, toBufferBE } from 'bigint-buffer';
+import { LevelUp } from 'levelup';
+import { Address } from 'web3x/address';
+import { Trie } from '../../trie';
+import { EvmContext } from '../../vm';
+import { Gas, GasSchedule } from '../../vm/gas';
+import { EvmAccount } from '../evm-account';
+
+export class ModExpAccount extends EvmAccount {
+  constructor(address: Address, nonce: bigint, balance: bigint, storage: Trie, code: Buffer) {
+    super(address, nonce, balance, storage, code);
+  }
+
+  public static fromDb(db: LevelUp) {
+    return new ModExpAccount(
+      Address.fromString('0x0000000000000000000000000000000000000005'),
+      BigInt(0),
+      BigInt(0),
+      new Trie(db),
+      Buffer.of(),
+    );
+  }
+
+  public async run(callContext: EvmContext) {
+    const { calldata, gasSchedule } = callContext;
+    const baseLength = toBigInt(readCalldata(calldata, BigInt(0), BigInt(32)));
+    const expLength = toBigInt(readCalldata(calldata, BigInt(32), BigInt(32)));
+    const modLength = toBigInt(readCalldata(calldata, BigInt(64), BigInt(32)));
+    const expOffset = BigInt(96) + baseLength;
+    const modOffset = expOffset + expLength;
+
+    // Only the first 32 bytes of the exponent are read until the gas has been paid.
+    const expHead = toBigInt(readCalldata(calldata, expOffset, expLength < 32 ? expLength : BigInt(32)));
+    const gas = getModExpGas(gasSchedule, baseLength, expLength, modLength, expHead);
+
+    if (gas > callContext.availableGas) {
+      callContext.abort(new Error('Out of gas.'));
+      return callContext;
+    }
+    callContext.availableGas -= gas;
+
+    callContext.halt = true;
+
+    // The exponent isn't priced in when there's no modulus, so it mustn't be read.
+    if (!modLength) {
+      callContext.returned = Buffer.of();
+      return callContext;
+    }
+
+    const base = toBigInt(readCalldata(calldata, BigInt(96), baseLength));
+    const exponent = toBigInt(readCalldata(calldata, expOffset, expLength));
+    const modulus = toBigInt(readCalldata(calldata, modOffset, modLength));
+    callContext.returned = toBufferBE(modulus ? modPow(base, exponent, modulus) : BigInt(0), Number(modLength));
+
+    return callContext;
+  }
+}
+
+/**
+ * Reads the given range of the calldata, which is implicitly padded with zeros.
+ */
+function readCalldata(calldata: Buffer, offset: bigint, length: bigint) {
+  const result = Buffer.alloc(Number(length));
+  if (offset < calldata.length) {
+    calldata.copy(result, 0, Number(offset), Math.min(calldata.length, Number(offset + length)));
+  }
+  return result;
+}
+
+const toBigInt = (buf: Buffer) => (buf.length ? toBigIntBE(buf) : BigInt(0));
+
+const bitLength = (n: bigint) => (n > 0 ? n.toString(2).length : 0);
+
+function getModExpGas(
+  gasSchedule: GasSchedule,
+  baseLength: bigint,
+  expLength: bigint,
+  modLength: bigint,
+  expHead: bigint,
+) {
+  const maxLength = baseLength > modLength ? baseLength : modLength;
+  const headBits = BigInt(Math.max(bitLength(expHead) - 1, 0));
+  const adjustedExpLength = expLength <= 32 ? headBits : BigInt(8) * (expLength - BigInt(32)) + headBits;
+  const iterations = adjustedExpLength > 0 ? adjustedExpLength : BigInt(1);
+
+  if (gasSchedule.modExpRepricing) {
+    // EIP-2565.
+    const words = (maxLength + BigInt(7)) / BigInt(8);
+    const gas = (words * words * iterations) / BigInt(3);
+    return gas > 200 ? gas : BigInt(200);
+  }
+
+  // EIP-198.
+  return (multComplexity(maxLength) * iterations) / BigInt(Gas.GQUADDIVISOR);
+}
+
+function multComplexity(x: bigint) {
+  if (x <= 64) {
+    return x * x;
+  } else if (x <= 1024) {
+    return (x * x) / BigInt(4) + BigInt(96) * x - BigInt(3072);
+  } else {
+    return (x * x) / BigInt(16) + BigInt(480) * x - BigInt(199680);
+  }
+}
+
+function modPow(base: bigint, exponent: bigint, modulus: bigint) {
+  let result = BigInt(1) % modulus;
+  base %= modulus;
+  while (exponent > 0) {
+    if (exponent & BigInt(1)) {
+      result = (result * base) % modulus;
+    }
+    exponent >>= BigInt(1);
+    base = (base * base) % modulus;
+  }
+  return result;
+}
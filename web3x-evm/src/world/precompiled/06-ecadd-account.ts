@@ -28,7 +28,14 @@ export class EcAddAccount extends EvmAccount {
   }
 
   public async run(callContext: EvmContext) {
-    const { calldata } = callContext;
+    const { calldata, gasSchedule } = callContext;
+    const gas = BigInt(gasSchedule.ecAdd);
+
+    if (gas > callContext.availableGas) {
+      callContext.abort(new Error('Out of gas.'));
+      return callContext;
+    }
+    callContext.availableGas -= gas;
 
     const result = bn128.add(calldata);
 
@@ -28,7 +28,14 @@ export class EcPairingAccount extends EvmAccount {
   }
 
   public async run(callContext: EvmContext) {
-    const { calldata } = callContext;
+    const { calldata, gasSchedule } = callContext;
+    const gas = BigInt(gasSchedule.ecPairing + gasSchedule.ecPairingPoint * Math.floor(calldata.length / 192));
+
+    if (gas > callContext.availableGas) {
+      callContext.abort(new Error('Out of gas.'));
+      return callContext;
+    }
+    callContext.availableGas -= gas;
 
     const result = bn128.pairing(calldata);
 
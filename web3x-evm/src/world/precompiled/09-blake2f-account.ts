@@ -0,0 +1,141 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { toBigIntLE, toBufferLE } from 'bigint-buffer';
+import { LevelUp } from 'levelup';
+import { Address } from 'web3x/address';
+import { Trie } from '../../trie';
+import { EvmContext } from '../../vm';
+import { Gas } from '../../vm/gas';
+import { EvmAccount } from '../evm-account';
+
+const INPUT_LENGTH = 213;
+const MASK_64 = (BigInt(1) << BigInt(64)) - BigInt(1);
+
+const IV = [
+  '6a09e667f3bcc908',
+  'bb67ae8584caa73b',
+  '3c6ef372fe94f82b',
+  'a54ff53a5f1d36f1',
+  '510e527fade682d1',
+  '9b05688c2b3e6c1f',
+  '1f83d9abfb41bd6b',
+  '5be0cd19137e2179',
+].map(word => BigInt('0x' + word));
+
+const SIGMA = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+  [14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3],
+  [11, 8, 12, 0, 5, 2, 15, 13, 10, 14, 3, 6, 7, 1, 9, 4],
+  [7, 9, 3, 1, 13, 12, 11, 14, 2, 6, 5, 10, 4, 0, 15, 8],
+  [9, 0, 5, 7, 2, 4, 10, 15, 14, 1, 11, 12, 6, 8, 3, 13],
+  [2, 12, 6, 10, 0, 11, 8, 3, 4, 13, 7, 5, 15, 14, 1, 9],
+  [12, 5, 1, 15, 14, 13, 4, 10, 0, 7, 6, 3, 9, 2, 8, 11],
+  [13, 11, 7, 14, 12, 1, 3, 9, 5, 0, 15, 4, 8, 6, 2, 10],
+  [6, 15, 14, 9, 11, 3, 0, 8, 12, 2, 13, 7, 1, 4, 10, 5],
+  [10, 2, 8, 4, 7, 6, 1, 5, 15, 11, 9, 14, 3, 12, 13, 0],
+];
+
+/**
+ * The BLAKE2b compression function F (EIP-152). The input is the number of rounds as a 4 byte big endian integer,
+ * followed by the state vector h, the message block m, the offset counters t and the final block flag f.
+ */
+export class Blake2fAccount extends EvmAccount {
+  constructor(address: Address, nonce: bigint, balance: bigint, storage: Trie, code: Buffer) {
+    super(address, nonce, balance, storage, code);
+  }
+
+  public static fromDb(db: LevelUp) {
+    return new Blake2fAccount(
+      Address.fromString('0x0000000000000000000000000000000000000009'),
+      BigInt(0),
+      BigInt(0),
+      new Trie(db),
+      Buffer.of(),
+    );
+  }
+
+  public async run(callContext: EvmContext) {
+    const { calldata } = callContext;
+
+    if (calldata.length !== INPUT_LENGTH) {
+      callContext.abort(new Error('Invalid BLAKE2F input length.'));
+      return callContext;
+    }
+
+    const rounds = calldata.readUInt32BE(0);
+    const final = calldata[212];
+    if (final > 1) {
+      callContext.abort(new Error('Invalid BLAKE2F final block flag.'));
+      return callContext;
+    }
+
+    const gas = BigInt(Gas.GBLAKE2FROUND * rounds);
+
+    if (gas > callContext.availableGas) {
+      callContext.abort(new Error('Out of gas.'));
+      return callContext;
+    }
+    callContext.availableGas -= gas;
+
+    const h = readWords(calldata, 4, 8);
+    const m = readWords(calldata, 68, 16);
+    const [t0, t1] = readWords(calldata, 196, 2);
+
+    compress(rounds, h, m, t0, t1, final === 1);
+
+    callContext.halt = true;
+    callContext.returned = Buffer.concat(h.map(word => toBufferLE(word, 8)));
+
+    return callContext;
+  }
+}
+
+function readWords(data: Buffer, offset: number, count: number) {
+  return [...Array(count).keys()].map(i => toBigIntLE(data.slice(offset + i * 8, offset + i * 8 + 8)));
+}
+
+const rotr64 = (x: bigint, n: bigint) => ((x >> n) | (x << (BigInt(64) - n))) & MASK_64;
+
+function mix(v: bigint[], a: number, b: number, c: number, d: number, x: bigint, y: bigint) {
+  v[a] = (v[a] + v[b] + x) & MASK_64;
+  v[d] = rotr64(v[d] ^ v[a], BigInt(32));
+  v[c] = (v[c] + v[d]) & MASK_64;
+  v[b] = rotr64(v[b] ^ v[c], BigInt(24));
+  v[a] = (v[a] + v[b] + y) & MASK_64;
+  v[d] = rotr64(v[d] ^ v[a], BigInt(16));
+  v[c] = (v[c] + v[d]) & MASK_64;
+  v[b] = rotr64(v[b] ^ v[c], BigInt(63));
+}
+
+/**
+ * Compresses the message block into the state vector h, in place.
+ */
+function compress(rounds: number, h: bigint[], m: bigint[], t0: bigint, t1: bigint, final: boolean) {
+  const v = [...h, ...IV];
+  v[12] ^= t0;
+  v[13] ^= t1;
+  if (final) {
+    v[14] ^= MASK_64;
+  }
+
+  for (let i = 0; i < rounds; i++) {
+    const s = SIGMA[i % 10];
+    mix(v, 0, 4, 8, 12, m[s[0]], m[s[1]]);
+    mix(v, 1, 5, 9, 13, m[s[2]], m[s[3]]);
+    mix(v, 2, 6, 10, 14, m[s[4]], m[s[5]]);
+    mix(v, 3, 7, 11, 15, m[s[6]], m[s[7]]);
+    mix(v, 0, 5, 10, 15, m[s[8]], m[s[9]]);
+    mix(v, 1, 6, 11, 12, m[s[10]], m[s[11]]);
+    mix(v, 2, 7, 8, 13, m[s[12]], m[s[13]]);
+    mix(v, 3, 4, 9, 14, m[s[14]], m[s[15]]);
+  }
+
+  for (let i = 0; i < 8; i++) {
+    h[i] ^= v[i] ^ v[i + 8];
+  }
+}
@@ -0,0 +1,40 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import { Address } from 'web3x/address';
+import { Hardfork, hardforkAtLeast } from '../../vm/hardfork';
+
+// The hardfork each precompiled contract was added in.
+const precompileHardforks: { [address: string]: Hardfork } = {
+  '0x0000000000000000000000000000000000000001': 'byzantium',
+  '0x0000000000000000000000000000000000000002': 'byzantium',
+  '0x0000000000000000000000000000000000000003': 'byzantium',
+  '0x0000000000000000000000000000000000000004': 'byzantium',
+  '0x0000000000000000000000000000000000000005': 'byzantium',
+  '0x0000000000000000000000000000000000000006': 'byzantium',
+  '0x0000000000000000000000000000000000000007': 'byzantium',
+  '0x0000000000000000000000000000000000000008': 'byzantium',
+  '0x0000000000000000000000000000000000000009': 'istanbul',
+};
+
+/**
+ * Addresses of the precompiled contracts available under the given hardfork.
+ */
+export function getPrecompileAddresses(hardfork: Hardfork) {
+  return Object.keys(precompileHardforks)
+    .filter(address => hardforkAtLeast(hardfork, precompileHardforks[address]))
+    .map(Address.fromString);
+}
+
+/**
+ * True if the address is of a precompiled contract that was added after the given hardfork. Under that hardfork it's
+ * an ordinary account, without code.
+ */
+export function isInactivePrecompile(address: Address, hardfork: Hardfork) {
+  const since = precompileHardforks[address.toString().toLowerCase()];
+  return !!since && !hardforkAtLeast(hardfork, since);
+}
@@ -6,6 +6,12 @@
 */
 
 export * from './01-ecdsa-recovery-account';
+export * from './02-sha256-account';
+export * from './03-ripemd160-account';
+export * from './04-identity-account';
+export * from './05-modexp-account';
 export * from './06-ecadd-account';
 export * from './07-ecmul-account';
 export * from './08-ecpairing-account';
+export * from './09-blake2f-account';
+export * from './addresses';
@@ -0,0 +1,141 @@
+/*
+  Copyright (c) 2019 xf00f
+
+  This file is part of web3x and is released under the MIT License.
+  https://opensource.org/licenses/MIT
+*/
+
+import levelup from 'levelup';
+import memdown from 'memdown';
+import { Address } from 'web3x/address';
+import { BlockchainContext } from '../../blockchain';
+import { Hardfork } from '../../vm/hardfork';
+import { messageCall } from '../../vm/message-call';
+import { WorldState } from '../world-state';
+
+describe('precompiled', () => {
+  const sender = Address.fromString('0x0000000000000000000000000000000000000010');
+  const gas = 100000;
+  let worldState: WorldState;
+
+  const call = async (precompile: number, input: string, hardfork: Hardfork = 'istanbul') => {
+    const blockchainCtx: BlockchainContext = {
+      timestamp: 0,
+      difficulty: BigInt(0),
+      blockGasLimit: BigInt(8000000),
+      blockNumber: 0,
+      last256BlockHashes: [],
+      coinbase: Address.ZERO,
+      chainId: 1,
+      hardfork,
+    };
+    const address = new Address(Buffer.concat([Buffer.alloc(19), Buffer.of(precompile)]));
+    const { returned, remainingGas, reverted } = await messageCall(
+      worldState,
+      blockchainCtx,
+      sender,
+      sender,
+      address,
+      address,
+      BigInt(gas),
+      BigInt(1),
+      BigInt(0),
+      BigInt(0),
+      Buffer.from(input, 'hex'),
+      0,
+      true,
+    );
+    return { returned: returned.toString('hex'), gasUsed: gas - Number(remainingGas), reverted };
+  };
+
+  const abc = Buffer.from('abc').toString('hex');
+  const word = (n: number) => n.toString(16).padStart(64, '0');
+
+  beforeEach(async () => {
+    worldState = await WorldState.fromDb(levelup(memdown()));
+    worldState.checkpoint();
+    await worldState.createAccount(sender, BigInt(10) ** BigInt(18));
+    await worldState.commit();
+  });
+
+  it('should hash with sha256', async () => {
+    expect(await call(2, abc)).toEqual({
+      returned: 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+      gasUsed: 60 + 12,
+      reverted: false,
+    });
+  });
+
+  it('should hash with ripemd160, left padded to a word', async () => {
+    expect(await call(3, abc)).toEqual({
+      returned: '0'.repeat(24) + '8eb208f7e05d987a9b044a8e98c6b087f15a0bfc',
+      gasUsed: 600 + 120,
+      reverted: false,
+    });
+  });
+
+  it('should return the input from identity', async () => {
+    const input = 'ff'.repeat(33);
+    expect(await call(4, input)).toEqual({ returned: input, gasUsed: 15 + 3 * 2, reverted: false });
+  });
+
+  describe('modexp', () => {
+    // 2 ** 10 % 1000, with one byte each for the base, exponent and modulus.
+    const input = word(1) + word(1) + word(2) + '02' + '0a' + '03e8';
+
+    it('should exponentiate, returning a result the length of the modulus', async () => {
+      const { returned, gasUsed } = await call(5, input);
+      expect(returned).toBe('0018');
+      // Multiplication complexity 4, times an adjusted exponent length of 3, divided by 20.
+      expect(gasUsed).toBe(0);
+    });
+
+    it('should charge the minimum cost of EIP-2565 in berlin', async () => {
+      expect((await call(5, input, 'berlin')).gasUsed).toBe(200);
+    });
+
+    it('should return zero for a zero modulus', async () => {
+      expect((await call(5, word(1) + word(1) + word(1) + '02' + '0a' + '00')).returned).toBe('00');
+    });
+
+    it('should run out of gas on huge lengths', async () => {
+      expect((await call(5, word(0) + word(0xffffffff) + word(1))).reverted).toBe(true);
+    });
+
+    it('should return nothing without a modulus', async () => {
+      expect(await call(5, word(0) + word(0xffffffff) + word(0))).toEqual({
+        returned: '',
+        gasUsed: 0,
+        reverted: false,
+      });
+    });
+  });
+
+  describe('blake2f', () => {
+    // The BLAKE2b-512 compression of 'abc', from EIP-152.
+    const h =
+      '48c9bdf267e6096a3ba7ca8485ae67bb2bf894fe72f36e3cf1361d5f3af54fa5d182e6ad7f520e511f6c3e2b8c68059b6bbd41fbabd9831f79217e1319cde05b';
+    const m = abc + '00'.repeat(125);
+    const t = '0300000000000000' + '0000000000000000';
+    const input = '0000000c' + h + m + t + '01';
+
+    it('should compress', async () => {
+      expect(await call(9, input)).toEqual({
+        returned:
+          'ba80a53f981c4d0d6a2797b69f12f6e94c212f14685ac4b74b12bb6fdbffa2d17d87c5392aab792dc252d5de4533cc9518d38aa8dbf1925ab92386edd4009923',
+        gasUsed: 12,
+        reverted: false,
+      });
+    });
+
+    it('should fail on an invalid input length or final block flag', async () => {
+      expect((await call(9, input.slice(2))).reverted).toBe(true);
+      expect((await call(9, input.slice(0, -2) + '02')).reverted).toBe(true);
+    });
+
+    it('should be an account without code before istanbul', async () => {
+      expect(await call(9, input, 'petersburg')).toEqual({ returned: '', gasUsed: 0, reverted: false });
+      expect(await call(9, input.slice(2), 'petersburg')).toEqual({ returned: '', gasUsed: 0, reverted: false });
+    });
+  });
+});
@@ -158,4 +158,30 @@ describe('world-state', () => {
       expect(account3).toBeUndefined();
     }
   });
+
+  it('should delete account on commit and restore it on revert', async () => {
+    const db = levelup(memdown());
+    const worldState = await WorldState.fromDb(db);
+
+    worldState.checkpoint();
+    const account = await worldState.createAccount(address1, BigInt(1000));
+    await account.storage.put(Buffer.alloc(32), Buffer.of(1));
+    await worldState.commit();
+
+    worldState.checkpoint();
+    await worldState.deleteAccount(address1);
+    expect(await worldState.loadAccount(address1)).toBeUndefined();
+    await worldState.revert();
+
+    {
+      const account1 = await worldState.loadImmutableAccount(address1);
+      expect(account1!.balance).toBe(BigInt(1000));
+    }
+
+    worldState.checkpoint();
+    await worldState.deleteAccount(address1);
+    await worldState.commit();
+
+    expect(await worldState.loadImmutableAccount(address1)).toBeUndefined();
+  });
 });
@@ -13,15 +13,35 @@ import { Trie } from '../trie';
 import { AccountState } from './account-state';
 import { EvmAccount } from './evm-account';
 import { createPrecompilesFromDb, EvmAccountFactory } from './evm-account-factory';
+import { ForkSource } from './fork-source';
+import { ForkedStorageTrie } from './forked-storage-trie';
+
+// Stored in place of a deleted account when forking, so the account isn't fetched from the fork again.
+const DELETED_ACCOUNT = Buffer.of(0);
+// Stored in the storage trie of an account loaded from the fork, so its unwritten slots are read from the fork once
+// it's persisted. Accounts created locally, including those recreated after being deleted, don't have it.
+const FORKED_STORAGE_KEY = Buffer.from('forked');
 
 type Immutable<T> = { readonly [P in keyof T]: T[P] };
 
 export class WorldState {
-  private checkpoints: { [address: string]: EvmAccount }[] = [];
-
-  constructor(public db: LevelUp, public accounts: Trie) {}
-
-  public static async fromDb(db: LevelUp) {
+  // Each checkpoint maps addresses to the accounts modified within it. A null entry marks a deleted account.
+  private checkpoints: { [address: string]: EvmAccount | null }[] = [];
+  // Accounts and storage slots accessed in the current transaction (EIP-2929), and accounts self destructed in it. One
+  // set per checkpoint, plus one for accesses that have been committed.
+  private accessed: Set<string>[] = [new Set()];
+  // Storage values at the start of the current transaction, keyed by address and slot (EIP-1283).
+  private originalStorage: { [key: string]: Buffer | null } = {};
+  // A detached world state never persists its state root.
+  private detached = false;
+
+  constructor(public db: LevelUp, public accounts: Trie, public readonly fork?: ForkSource) {}
+
+  /**
+   * Loads the world state from the db. If a fork is given, accounts and storage not present locally are fetched from
+   * it.
+   */
+  public static async fromDb(db: LevelUp, fork?: ForkSource) {
     const getStateRoot = async () => {
       try {
         return await db.get(Buffer.from('stateRoot'));
@@ -31,7 +51,7 @@ export class WorldState {
     };
     const stateRoot = await getStateRoot();
     const trie = new Trie(db, stateRoot);
-    const worldState = new WorldState(db, trie);
+    const worldState = new WorldState(db, trie, fork);
 
     if (!stateRoot) {
       await worldState.installPrecompiledContracts();
@@ -47,7 +67,20 @@ export class WorldState {
     await this.saveStateRoot();
   }
 
+  /**
+   * Returns a world state at the given state root, sharing this one's db and fork. It's detached, so it can execute
+   * transactions on past or side branch states without changing the persisted state root.
+   */
+  public detach(stateRoot: Buffer) {
+    const worldState = new WorldState(this.db, new Trie(this.db, stateRoot), this.fork);
+    worldState.detached = true;
+    return worldState;
+  }
+
   private async saveStateRoot() {
+    if (this.detached) {
+      return;
+    }
     await this.db.put(Buffer.from('stateRoot'), this.accounts.root);
   }
 
@@ -55,6 +88,18 @@ export class WorldState {
     return this.accounts.root;
   }
 
+  /**
+   * Resets the world state to that at the given state root. Trie nodes are never deleted, so any previous root can be
+   * restored.
+   */
+  public async setStateRoot(stateRoot: Buffer) {
+    if (this.checkpoints.length) {
+      throw new Error('Cannot set state root with uncommitted checkpoints.');
+    }
+    this.accounts = new Trie(this.db, stateRoot);
+    await this.saveStateRoot();
+  }
+
   public async createAccount(address: Address, value: bigint, nonce: bigint = BigInt(0), code: Buffer = Buffer.of()) {
     if (this.checkpoints.length === 0) {
       throw new Error('You must checkpoint before potentially modifying state.');
@@ -80,8 +125,7 @@ export class WorldState {
   }
 
   public async loadImmutableAccount(address: Address) {
-    const account: Immutable<EvmAccount> | undefined =
-      this.loadCheckpointAccount(address) || (await this.loadPersistedAccount(address));
+    const account: Immutable<EvmAccount> | undefined = (await this.loadCurrentAccount(address)) || undefined;
     return account;
   }
 
@@ -92,7 +136,7 @@ export class WorldState {
 
     address = address instanceof Address ? address : new Address(toBufferBE(address, 20));
 
-    const account = this.loadCheckpointAccount(address) || (await this.loadPersistedAccount(address));
+    const account = await this.loadCurrentAccount(address);
     if (!account) {
       return;
     }
@@ -105,59 +149,174 @@ export class WorldState {
     return account;
   }
 
+  /**
+   * Deletes the account. Any storage changes made to it within the current checkpoint are discarded.
+   */
+  public async deleteAccount(address: Address) {
+    if (this.checkpoints.length === 0) {
+      throw new Error('You must checkpoint before potentially modifying state.');
+    }
+
+    const addrStr = address.toString();
+    const account = this.checkpoints[0][addrStr];
+    if (account) {
+      await account.storage.revert();
+    }
+    this.checkpoints[0][addrStr] = null;
+  }
+
+  private async loadCurrentAccount(address: Address) {
+    const account = this.loadCheckpointAccount(address);
+    return account !== undefined ? account : await this.loadPersistedAccount(address);
+  }
+
+  // Returns null if the account has been deleted, or undefined if it's not in any checkpoint.
   private loadCheckpointAccount(address: Address) {
     const addrStr = address.toString();
-    const index = this.checkpoints.findIndex(cp => !!cp[addrStr]);
+    const index = this.checkpoints.findIndex(cp => cp[addrStr] !== undefined);
     if (index < 0) {
       return;
     }
-    if (index > 0) {
-      const { nonce, balance, storage, code } = this.checkpoints[index][addrStr];
+    const account = this.checkpoints[index][addrStr];
+    if (index > 0 && account) {
+      const { nonce, balance, storage, code } = account;
       return EvmAccountFactory(address, nonce, balance, storage, code);
     }
-    return this.checkpoints[0][addrStr];
+    return account;
   }
 
   private async loadPersistedAccount(address: Address) {
     const fromAccountRlp = await this.accounts.get(address.toBuffer());
 
     if (!fromAccountRlp) {
+      return this.fork ? await this.loadForkedAccount(address) : undefined;
+    }
+
+    if (fromAccountRlp.equals(DELETED_ACCOUNT)) {
       return;
     }
 
     const state = AccountState.fromRlp(fromAccountRlp);
-    const storage = new Trie(this.accounts.db, state.storageRoot);
-    const code = (await storage.get(state.codeHash)) || Buffer.of();
+    // Code and the forked marker are read from the local trie only, as they're never stored in the fork's storage.
+    const localStorage = new Trie(this.accounts.db, state.storageRoot);
+    const code = (await localStorage.get(state.codeHash)) || Buffer.of();
+    const storage =
+      this.fork && (await localStorage.get(FORKED_STORAGE_KEY))
+        ? new ForkedStorageTrie(this.fork, address, this.db, state.storageRoot)
+        : localStorage;
     const account = EvmAccountFactory(address, state.nonce, state.balance, storage, code);
 
     return account;
   }
 
+  private async loadForkedAccount(address: Address) {
+    const forkedAccount = await this.fork!.getAccount(address);
+    if (!forkedAccount) {
+      return;
+    }
+
+    const { nonce, balance, code } = forkedAccount;
+    const storage = new ForkedStorageTrie(this.fork!, address, this.db);
+    return EvmAccountFactory(address, nonce, balance, storage, code);
+  }
+
   private async storeAccount(account: EvmAccount) {
     const codeHash = sha3Buffer(account.code);
     await account.storage.put(codeHash, account.code);
+    if (account.storage instanceof ForkedStorageTrie) {
+      await account.storage.put(FORKED_STORAGE_KEY, Buffer.of(1));
+    }
     const state = new AccountState(account.nonce, account.balance, account.storage.root, codeHash);
     await this.accounts.put(account.address.toBuffer(), state.toRlp());
   }
 
+  private async storeDeletedAccount(address: Address) {
+    if (this.fork) {
+      await this.accounts.put(address.toBuffer(), DELETED_ACCOUNT);
+    } else {
+      await this.accounts.del(address.toBuffer());
+    }
+  }
+
+  /**
+   * Resets the accessed accounts and original storage values tracked for the current transaction.
+   */
+  public startTransaction() {
+    this.accessed = this.accessed.map(() => new Set());
+    this.originalStorage = {};
+  }
+
+  /**
+   * Marks the account as accessed. Returns true if it had not already been accessed in this transaction.
+   */
+  public accessAccount(address: Address) {
+    return this.access(address.toString());
+  }
+
+  /**
+   * Marks the storage slot as accessed. Returns true if it had not already been accessed in this transaction.
+   */
+  public accessStorage(address: Address, key: Buffer) {
+    return this.access(`${address}:${key.toString('hex')}`);
+  }
+
+  /**
+   * Marks the account as self destructed. Returns true if it had not already self destructed in this transaction. As
+   * with accesses, self destructs within a reverted checkpoint are forgotten.
+   */
+  public selfDestructAccount(address: Address) {
+    return this.access(`selfdestruct:${address}`);
+  }
+
+  private access(key: string) {
+    if (this.accessed.some(set => set.has(key))) {
+      return false;
+    }
+    this.accessed[0].add(key);
+    return true;
+  }
+
+  /**
+   * Returns the value of the storage slot at the start of the current transaction. Must be called with the slot's
+   * current value before it is first written to in the transaction.
+   */
+  public getOriginalStorage(address: Address, key: Buffer, current: Buffer | null) {
+    const id = `${address}:${key.toString('hex')}`;
+    if (this.originalStorage[id] === undefined) {
+      this.originalStorage[id] = current;
+    }
+    return this.originalStorage[id];
+  }
+
   public checkpoint() {
     this.accounts.checkpoint();
     this.checkpoints.unshift([] as any);
+    this.accessed.unshift(new Set());
   }
 
   public async commit() {
     if (this.checkpoints.length === 0) {
       throw new Error('No checkpoint to commit.');
     } else if (this.checkpoints.length === 1) {
-      await Promise.all(Object.entries(this.checkpoints[0]).map(([, account]) => this.storeAccount(account)));
-      await Promise.all(Object.entries(this.checkpoints[0]).map(([, account]) => account.storage.commit()));
+      await Promise.all(
+        Object.entries(this.checkpoints[0]).map(([addr, account]) =>
+          account ? this.storeAccount(account) : this.storeDeletedAccount(Address.fromString(addr)),
+        ),
+      );
+      await Promise.all(
+        Object.entries(this.checkpoints[0]).map(async ([, account]) => account && (await account.storage.commit())),
+      );
       await this.accounts.commit();
       await this.saveStateRoot();
     } else {
       await Promise.all(
         Object.entries(this.checkpoints[0]).map(async ([addr, account]) => {
-          if (this.checkpoints[1][addr]) {
+          const parentAccount = this.checkpoints[1][addr];
+          if (parentAccount && account) {
             await account.storage.commit();
+          } else if (parentAccount) {
+            // Account was deleted. Discard the storage changes made in the parent checkpoint.
+            await parentAccount.storage.revert();
           }
           this.checkpoints[1][addr] = account;
         }),
@@ -165,14 +324,19 @@ export class WorldState {
       await this.accounts.commit();
     }
     this.checkpoints.shift();
+    const [committed] = this.accessed.splice(0, 1);
+    committed.forEach(key => this.accessed[0].add(key));
   }
 
   public async revert() {
     if (this.checkpoints.length === 0) {
       throw new Error('No checkpoint to revert.');
     }
-    Object.entries(this.checkpoints[0]).map(([, account]) => account.storage.revert());
+    Object.entries(this.checkpoints[0]).map(([, account]) => account && account.storage.revert());
+    // Otherwise the accounts trie stays checkpointed, and its nodes are never written to the db for past states.
+    await this.accounts.revert();
     this.checkpoints.shift();
+    this.accessed.shift();
   }
 
   public async getTransactionCount(address: Address) {
@@ -37,7 +37,7 @@ export interface ContractEntryDefinition {
   inputs?: AbiInput[];
   name?: string;
   outputs?: AbiOutput[];
-  type: 'function' | 'constructor' | 'event' | 'fallback';
+  type: 'function' | 'constructor' | 'event' | 'fallback' | 'error';
   stateMutability?: 'pure' | 'view' | 'payable' | 'nonpayable';
   signature?: string;
   gas?: number;
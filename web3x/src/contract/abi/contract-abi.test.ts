@@ -61,6 +61,8 @@ describe('contract', () => {
       expect(result[0]).toBe(input[0]);
       expect(result[1]).toBe(input[1]);
       expect(result[2]).toEqual(input[2]);
+      expect(testContractAbi.findEntryForFunctionData(encoded)).toBe(testContractAbi.functions[1]);
+      expect(testContractAbi.findEntryForFunctionData(Buffer.alloc(4))).toBeUndefined();
     });
   });
 });
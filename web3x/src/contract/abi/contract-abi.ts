@@ -15,19 +15,21 @@
   along with web3x.  If not, see <http://www.gnu.org/licenses/>.
 */
 
-import { ContractAbiDefinition, ContractEventEntry, ContractFunctionEntry } from '.';
+import { ContractAbiDefinition, ContractErrorEntry, ContractEventEntry, ContractFunctionEntry } from '.';
 import { LogResponse } from '../../formatters';
 import { bufferToHex } from '../../utils';
 
 export class ContractAbi {
   public functions: ContractFunctionEntry[];
   public events: ContractEventEntry[];
+  public errors: ContractErrorEntry[];
   public ctor: ContractFunctionEntry;
   public fallback?: ContractFunctionEntry;
 
   constructor(definition: ContractAbiDefinition) {
     this.functions = definition.filter(e => e.type === 'function').map(entry => new ContractFunctionEntry(entry));
     this.events = definition.filter(e => e.type === 'event').map(entry => new ContractEventEntry(entry));
+    this.errors = definition.filter(e => e.type === 'error').map(entry => new ContractErrorEntry(entry));
     const ctor = definition.find(e => e.type === 'constructor');
     this.ctor = new ContractFunctionEntry(ctor || { type: 'constructor' });
     const fallback = definition.find(e => e.type === 'fallback');
@@ -48,9 +50,18 @@ export class ContractAbi {
     return event.decodeEvent(log);
   }
 
-  public decodeFunctionData(data: Buffer) {
+  public findEntryForError(data: Buffer) {
+    const errorSig = bufferToHex(data.slice(0, 4));
+    return this.errors.find(e => e.signature === errorSig);
+  }
+
+  public findEntryForFunctionData(data: Buffer) {
     const funcSig = bufferToHex(data.slice(0, 4));
-    const func = this.functions.find(f => f.signature === funcSig);
+    return this.functions.find(f => f.signature === funcSig);
+  }
+
+  public decodeFunctionData(data: Buffer) {
+    const func = this.findEntryForFunctionData(data);
     return func ? func.decodeParameters(data.slice(4)) : undefined;
   }
 }
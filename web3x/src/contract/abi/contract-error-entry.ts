@@ -0,0 +1,41 @@
+/*
+  This file is part of web3x.
+
+  web3x is free software: you can redistribute it and/or modify
+  it under the terms of the GNU Lesser General Public License as published by
+  the Free Software Foundation, either version 3 of the License, or
+  (at your option) any later version.
+
+  web3x is distributed in the hope that it will be useful,
+  but WITHOUT ANY WARRANTY; without even the implied warranty of
+  MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+  GNU Lesser General Public License for more details.
+
+  You should have received a copy of the GNU Lesser General Public License
+  along with web3x.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import { bufferToHex } from '../../utils';
+import { abiCoder } from '../abi-coder';
+import { ContractEntryDefinition } from './contract-abi-definition';
+import { ContractEntry } from './contract-entry';
+
+export class ContractErrorEntry extends ContractEntry {
+  public readonly signature: string;
+
+  constructor(entry: ContractEntryDefinition) {
+    entry.inputs = entry.inputs || [];
+    super(entry);
+    this.signature = abiCoder.encodeFunctionSignature(abiCoder.abiMethodToString(entry));
+  }
+
+  public numArgs() {
+    return this.entry.inputs ? this.entry.inputs.length : 0;
+  }
+
+  public decodeParameters(bytes: Buffer) {
+    const result = abiCoder.decodeParameters(this.entry.inputs, bufferToHex(bytes));
+    delete result.__length__;
+    return result;
+  }
+}
@@ -18,5 +18,6 @@
 export * from './contract-entry';
 export * from './contract-function-entry';
 export * from './contract-event-entry';
+export * from './contract-error-entry';
 export * from './contract-abi-definition';
 export * from './contract-abi';
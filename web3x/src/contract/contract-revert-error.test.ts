@@ -0,0 +1,60 @@
+/*
+  This file is part of web3x.
+
+  web3x is free software: you can redistribute it and/or modify
+  it under the terms of the GNU Lesser General Public License as published by
+  the Free Software Foundation, either version 3 of the License, or
+  (at your option) any later version.
+
+  web3x is distributed in the hope that it will be useful,
+  but WITHOUT ANY WARRANTY; without even the implied warranty of
+  MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+  GNU Lesser General Public License for more details.
+
+  You should have received a copy of the GNU Lesser General Public License
+  along with web3x.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import { hexToBuffer } from '../utils';
+import { abiCoder } from './abi-coder';
+import { ContractRevertError, getRevertData } from './contract-revert-error';
+
+describe('contract', () => {
+  describe('contract-revert-error', () => {
+    const encode = (signature: string, type: string, value: any) =>
+      hexToBuffer(abiCoder.encodeFunctionSignature(signature) + abiCoder.encodeParameter(type, value).slice(2));
+
+    it('should decode error reason', () => {
+      const data = encode('Error(string)', 'string', 'No funds');
+      const error = new ContractRevertError(data);
+      expect(error.reason).toBe('No funds');
+      expect(error.message).toBe('Transaction failed: No funds');
+    });
+
+    it('should decode panic code', () => {
+      const data = encode('Panic(uint256)', 'uint256', 0x11);
+      const error = new ContractRevertError(data);
+      expect(error.panicCode).toBe(0x11);
+      expect(error.message).toBe('Transaction failed: panic 0x11 (Arithmetic overflow or underflow)');
+    });
+
+    it('should report unrecognised data', () => {
+      expect(new ContractRevertError(Buffer.from('12345678', 'hex')).message).toBe(
+        'Transaction failed with unrecognised revert data: 0x12345678',
+      );
+      expect(new ContractRevertError(Buffer.of()).message).toBe('Transaction failed without a reason.');
+    });
+
+    it('should get revert data from provider errors', () => {
+      expect(getRevertData({ message: 'execution reverted', data: '0x1234' })).toEqual(Buffer.from('1234', 'hex'));
+      expect(getRevertData({ message: 'execution reverted' })).toEqual(Buffer.of());
+      expect(
+        getRevertData({
+          message: 'VM Exception while processing transaction: revert',
+          data: { '0xabcd': { error: 'revert', return: '0x5678' } },
+        }),
+      ).toEqual(Buffer.from('5678', 'hex'));
+      expect(getRevertData({ message: 'nonce too low' })).toBeUndefined();
+    });
+  });
+});
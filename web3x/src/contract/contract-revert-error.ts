@@ -0,0 +1,143 @@
+/*
+  This file is part of web3x.
+
+  web3x is free software: you can redistribute it and/or modify
+  it under the terms of the GNU Lesser General Public License as published by
+  the Free Software Foundation, either version 3 of the License, or
+  (at your option) any later version.
+
+  web3x is distributed in the hope that it will be useful,
+  but WITHOUT ANY WARRANTY; without even the implied warranty of
+  MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+  GNU Lesser General Public License for more details.
+
+  You should have received a copy of the GNU Lesser General Public License
+  along with web3x.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import { bufferToHex, hexToBuffer, isHexStrict } from '../utils';
+import { ContractAbi } from './abi';
+import { abiCoder } from './abi-coder';
+
+const ERROR_SELECTOR = '0x08c379a0';
+const PANIC_SELECTOR = '0x4e487b71';
+
+export const PANIC_CODES: { [code: number]: string } = {
+  0x00: 'Generic compiler inserted panic',
+  0x01: 'Assertion failed',
+  0x11: 'Arithmetic overflow or underflow',
+  0x12: 'Division or modulo by zero',
+  0x21: 'Conversion to invalid enum value',
+  0x22: 'Incorrectly encoded storage byte array',
+  0x31: 'Pop on empty array',
+  0x32: 'Array index out of bounds',
+  0x41: 'Out of memory',
+  0x51: 'Call to zero initialized internal function',
+};
+
+/**
+ * Thrown when a contract call or transaction reverts. Carries the raw revert data, decoded as an Error(string)
+ * reason, a Panic(uint256) code, or a custom error declared in the contract abi.
+ */
+export class ContractRevertError extends Error {
+  public reason?: string;
+  public panicCode?: number;
+  public errorName?: string;
+  public errorArgs?: { [key: string]: any };
+
+  constructor(public readonly data: Buffer, contractAbi?: ContractAbi) {
+    super();
+    this.name = 'ContractRevertError';
+
+    const selector = bufferToHex(data.slice(0, 4));
+    const params = bufferToHex(data.slice(4));
+    const errorEntry = contractAbi && contractAbi.findEntryForError(data);
+
+    try {
+      if (selector === ERROR_SELECTOR) {
+        this.reason = abiCoder.decodeParameter('string', params) as string;
+        this.message = `Transaction failed: ${this.reason}`;
+        return;
+      }
+
+      if (selector === PANIC_SELECTOR) {
+        const code = Number(abiCoder.decodeParameter('uint256', params));
+        this.panicCode = code;
+        this.message = `Transaction failed: panic 0x${code.toString(16)} (${PANIC_CODES[code] || 'Unknown panic'})`;
+        return;
+      }
+
+      if (errorEntry) {
+        const errorArgs = errorEntry.decodeParameters(data.slice(4));
+        const values = Array.from({ length: errorEntry.numArgs() }, (_, i) => errorArgs[i]);
+        this.errorName = errorEntry.name;
+        this.errorArgs = errorArgs;
+        this.message = `Transaction failed: ${this.errorName}(${values.join(', ')})`;
+        return;
+      }
+    } catch (err) {
+      // Malformed data, reported raw below.
+    }
+
+    this.message = data.length
+      ? `Transaction failed with unrecognised revert data: ${bufferToHex(data)}`
+      : 'Transaction failed without a reason.';
+  }
+}
+
+/**
+ * Extracts the revert data from an error returned by a provider, if the error was due to a revert.
+ */
+export function getRevertData(err: any): Buffer | undefined {
+  if (err instanceof ContractRevertError) {
+    return err.data;
+  }
+
+  const { data, message = '' } = err;
+
+  // Geth and most other nodes.
+  if (typeof data === 'string' && isHexStrict(data)) {
+    return hexToBuffer(data);
+  }
+
+  // A revert error from another copy of this module.
+  if (Buffer.isBuffer(data)) {
+    return data;
+  }
+
+  if (data && typeof data === 'object') {
+    // Errors forwarded by injected providers can wrap the node's error data.
+    if (typeof data.data === 'string' && isHexStrict(data.data)) {
+      return hexToBuffer(data.data);
+    }
+    // Ganache keys the result by transaction hash.
+    const result = Object.keys(data)
+      .map(key => data[key])
+      .find(value => value && typeof value.return === 'string');
+    if (result) {
+      return hexToBuffer(result.return);
+    }
+  }
+
+  // Geth omits the data when reverting without any.
+  if (message.endsWith('execution reverted')) {
+    return Buffer.of();
+  }
+}
+
+/**
+ * Converts a provider error to a ContractRevertError if it was due to a revert, decoding custom errors with the abi.
+ */
+export function toContractRevertError(err: any, contractAbi?: ContractAbi) {
+  const data = getRevertData(err);
+  if (!data) {
+    return err;
+  }
+  const error = new ContractRevertError(data, contractAbi);
+  // Keep the original stack frames, which can include a Solidity stack trace from the provider.
+  if (err.stack) {
+    const frames = err.stack.split('\n').filter(line => line.startsWith('    at '));
+    error.stack = [`${error.name}: ${error.message}`, ...frames].join('\n');
+  }
+  return error;
+}
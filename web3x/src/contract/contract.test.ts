@@ -21,6 +21,7 @@ import { RawLogResponse, RawTransactionReceipt } from '../formatters';
 import { MockEthereumProvider } from '../providers/mock-ethereum-provider';
 import { bufferToHex, sha3 } from '../utils';
 import { Contract } from './contract';
+import { ContractRevertError } from './contract-revert-error';
 import { TestContract, TestContractAbi } from './fixtures/TestContract';
 import { TestNoCtorContract } from './fixtures/TestNoCtorContract';
 
@@ -1030,6 +1031,54 @@ describe('contract', () => {
       await contract.methods.mySend(address, 17).send({ from: address, gasPrice: '234564321234' });
     });
 
+    it('should replay a transaction reverted in the genesis block on the genesis state', async () => {
+      const txHash = '0x1234000000000000000000000000000000000000000000000000000000056789';
+      // eth_sendTransaction
+      mockEthereumProvider.send.mockResolvedValueOnce(txHash);
+
+      // eth_getTransactionReceipt
+      mockEthereumProvider.send.mockResolvedValueOnce({
+        from: addressLowercase,
+        to: addressLowercase,
+        transactionHash: txHash,
+        transactionIndex: '0x0',
+        blockNumber: '0x0',
+        blockHash: '0x1234',
+        cumulativeGasUsed: '0xa',
+        gasUsed: '0xa',
+        logs: [],
+        status: '0x0',
+      });
+
+      // eth_getTransaction
+      mockEthereumProvider.send.mockResolvedValueOnce({
+        hash: txHash,
+        from: addressLowercase,
+        to: addressLowercase,
+        nonce: '0x0',
+        gas: '0xc350',
+        gasPrice: '0x1',
+        value: '0x0',
+        input: '0x',
+        blockNumber: '0x0',
+        transactionIndex: '0x0',
+      });
+
+      mockEthereumProvider.send.mockImplementationOnce(async (method, params) => {
+        expect(method).toBe('eth_call');
+        expect(params[1]).toBe('0x0');
+        throw { data: '0x' };
+      });
+
+      const contract = new TestContract(eth, address);
+      const error = await contract.methods
+        .mySend(address, 17)
+        .send({ from: address, gasPrice: '1' })
+        .getReceipt()
+        .catch(err => err);
+      expect(error).toBeInstanceOf(ContractRevertError);
+    });
+
     it('should throw error when trying to send ether to a non payable contract function', async () => {
       const contract = new TestContract(eth, address);
 
@@ -18,4 +18,5 @@
 export * from './contract';
 export * from './tx';
 export * from './tx-deploy';
+export * from './contract-revert-error';
 export * from './abi';
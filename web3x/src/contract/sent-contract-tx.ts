@@ -19,7 +19,9 @@ import { isArray } from 'util';
 import { Eth, SentTransaction } from '../eth';
 import { TransactionReceipt } from '../formatters';
 import { TransactionHash } from '../types';
+import { hexToBuffer } from '../utils';
 import { ContractAbi } from './abi';
+import { ContractRevertError, getRevertData } from './contract-revert-error';
 
 export class SentContractTx extends SentTransaction {
   constructor(eth: Eth, protected contractAbi: ContractAbi, promise: Promise<TransactionHash>) {
@@ -27,6 +29,10 @@ export class SentContractTx extends SentTransaction {
   }
 
   protected async handleReceipt(receipt: TransactionReceipt) {
+    if (receipt.status === false) {
+      throw await this.getRevertError(receipt);
+    }
+
     receipt = await super.handleReceipt(receipt);
     const { logs, to, contractAddress = to! } = receipt;
 
@@ -52,4 +58,27 @@ export class SentContractTx extends SentTransaction {
 
     return { ...receipt, anonymousLogs, events };
   }
+
+  /**
+   * Nodes don't report why a mined transaction reverted, so it's replayed as a call on the state of the previous block,
+   * or on the genesis state if it was mined in the genesis block. Transactions earlier in the same block are not
+   * accounted for, so the replay may not revert.
+   */
+  private async getRevertError(receipt: TransactionReceipt) {
+    const tx = await this.eth.getTransaction(receipt.transactionHash);
+    if (tx.to) {
+      const { from, to, gas, gasPrice, value, input } = tx;
+      const { blockNumber } = receipt;
+      const replayBlock = blockNumber > 0 ? blockNumber - 1 : 0;
+      try {
+        await this.eth.call({ from, to, gas, gasPrice, value, data: hexToBuffer(input) }, replayBlock);
+      } catch (err) {
+        const data = getRevertData(err);
+        if (data) {
+          return new ContractRevertError(data, this.contractAbi);
+        }
+      }
+    }
+    return new Error('Transaction has been reverted by the EVM.');
+  }
 }
@@ -20,6 +20,7 @@ import { Eth } from '../eth';
 import { MockEthereumProvider } from '../providers/mock-ethereum-provider';
 import { sha3 } from '../utils';
 import { ContractAbi } from './abi/contract-abi';
+import { ContractRevertError } from './contract-revert-error';
 import { Tx } from './tx';
 
 describe('eth', () => {
@@ -149,6 +150,50 @@ describe('eth', () => {
         const result = await tx.call({ from });
         expect(result).toBe('10');
       });
+
+      it('should throw decoded custom error on call revert', async () => {
+        const contractAbi = new ContractAbi([
+          {
+            name: 'withdraw',
+            type: 'function',
+            inputs: [],
+            outputs: [],
+          },
+          {
+            name: 'InsufficientBalance',
+            type: 'error',
+            inputs: [
+              {
+                name: 'available',
+                type: 'uint256',
+              },
+              {
+                name: 'required',
+                type: 'uint256',
+              },
+            ],
+          },
+        ]);
+        const methodAbi = contractAbi.functions[0];
+
+        mockEthereumProvider.send.mockImplementationOnce(async () => {
+          throw Object.assign(new Error('Returned error: execution reverted'), {
+            code: 3,
+            data:
+              sha3('InsufficientBalance(uint256,uint256)').slice(0, 10) +
+              '0000000000000000000000000000000000000000000000000000000000000001' +
+              '0000000000000000000000000000000000000000000000000000000000000002',
+          });
+        });
+
+        const tx = new Tx(new Eth(mockEthereumProvider), methodAbi, contractAbi, contractAddress);
+
+        const error = await tx.call({ from }).catch(err => err);
+        expect(error).toBeInstanceOf(ContractRevertError);
+        expect(error.message).toBe('Transaction failed: InsufficientBalance(1, 2)');
+        expect(error.errorName).toBe('InsufficientBalance');
+        expect(error.errorArgs.required).toBe('2');
+      });
     });
   });
 });
@@ -18,8 +18,9 @@
 import { Address } from '../address';
 import { BlockType, Eth } from '../eth';
 import { SendTx } from '../eth/send-tx';
-import { TransactionReceipt } from '../formatters';
+import { CallOverrides, TransactionReceipt } from '../formatters';
 import { ContractAbi, ContractFunctionEntry } from './abi';
+import { toContractRevertError } from './contract-revert-error';
 import { SentContractTx } from './sent-contract-tx';
 
 export type TxFactory = (...args: any[]) => Tx;
@@ -52,8 +53,8 @@ export type DefaultOptions = {
 };
 
 export interface TxCall<Return = any> {
-  call(options?: CallOptions, block?: BlockType): Promise<Return>;
-  getCallRequestPayload(options?: CallOptions, block?: number);
+  call(options?: CallOptions, block?: BlockType, overrides?: CallOverrides): Promise<Return>;
+  getCallRequestPayload(options?: CallOptions, block?: number, overrides?: CallOverrides);
   estimateGas(options?: EstimateOptions): Promise<number>;
   encodeABI(): Buffer;
 }
@@ -79,13 +80,15 @@ export class Tx implements TxCall, TxSend {
     return await this.eth.estimateGas(this.getTx(options));
   }
 
-  public async call(options: CallOptions = {}, block?: BlockType) {
-    const result = await this.eth.call(this.getTx(options), block);
+  public async call(options: CallOptions = {}, block?: BlockType, overrides?: CallOverrides) {
+    const result = await this.eth.call(this.getTx(options), block, overrides).catch(err => {
+      throw toContractRevertError(err, this.contractAbi);
+    });
     return this.contractEntry.decodeReturnValue(result);
   }
 
-  public getCallRequestPayload(options: CallOptions, block?: number) {
-    const result = this.eth.request.call(this.getTx(options), block);
+  public getCallRequestPayload(options: CallOptions, block?: number, overrides?: CallOverrides) {
+    const result = this.eth.request.call(this.getTx(options), block, overrides);
     return {
       ...result,
       format: (result: string) => this.contractEntry.decodeReturnValue(result),
@@ -99,7 +102,12 @@ export class Tx implements TxCall, TxSend {
       throw new Error('Can not send value to non-payable contract method.');
     }
 
-    const promise = this.eth.sendTransaction(tx).getTxHash();
+    const promise = this.eth
+      .sendTransaction(tx)
+      .getTxHash()
+      .catch(err => {
+        throw toContractRevertError(err, this.contractAbi);
+      });
 
     return new SentContractTx(this.eth, this.contractAbi, promise);
   }
@@ -18,6 +18,7 @@
 import { isString } from 'util';
 import { Address } from '../address';
 import {
+  CallOverrides,
   CallRequest,
   EstimateRequest,
   fromRawBlockResponse,
@@ -31,9 +32,11 @@ import {
   outputSyncingFormatter,
   PartialTransactionRequest,
   RawLogResponse,
+  toRawBlockOverrides,
   toRawCallRequest,
   toRawEstimateRequest,
   toRawLogRequest,
+  toRawStateOverrides,
   toRawTransactionRequest,
   TransactionRequest,
 } from '../formatters';
@@ -270,11 +273,19 @@ export class EthRequestPayloads {
     };
   }
 
-  public call(tx: CallRequest, block?: BlockType) {
+  public call(tx: CallRequest, block?: BlockType, overrides: CallOverrides = {}) {
     tx.from = tx.from || this.defaultFromAddress;
+    const params: any[] = [toRawCallRequest(tx), inputBlockNumberFormatter(this.resolveBlock(block))];
+    // Overrides are only sent if given, as not all nodes accept the extra params.
+    if (overrides.state || overrides.block) {
+      params.push(overrides.state ? toRawStateOverrides(overrides.state) : {});
+    }
+    if (overrides.block) {
+      params.push(toRawBlockOverrides(overrides.block));
+    }
     return {
       method: 'eth_call',
-      params: [toRawCallRequest(tx), inputBlockNumberFormatter(this.resolveBlock(block))],
+      params,
       format: identity<string>(),
     };
   }
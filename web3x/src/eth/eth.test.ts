@@ -87,6 +87,35 @@ describe('eth', () => {
     expect(result).toEqual('0x1234567453543456321456321');
   });
 
+  it('should send state and block overrides with call', async () => {
+    const eth = new Eth(mockEthereumProvider);
+
+    mockEthereumProvider.send.mockResolvedValue('0x');
+
+    await eth.call(basicTx, 'latest', {
+      state: {
+        [contractAddress.toString()]: {
+          balance: 1000,
+          code: hexToBuffer('0x6000'),
+          stateDiff: { '0x01': '0x02' },
+        },
+      },
+      block: { timestamp: 1000, coinbase: from },
+    });
+
+    const [, params] = mockEthereumProvider.send.mock.calls[0];
+    expect(params[2]).toEqual({
+      '0x1234567890123456789012345678901234567891': {
+        balance: '0x3e8',
+        nonce: undefined,
+        code: '0x6000',
+        state: undefined,
+        stateDiff: { '0x01': '0x02' },
+      },
+    });
+    expect(params[3]).toEqual({ number: undefined, time: '0x3e8', coinbase: from.toString().toLowerCase() });
+  });
+
   it('should fail call due to provider returning error', async () => {
     const eth = new Eth(mockEthereumProvider);
 
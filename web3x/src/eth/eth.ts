@@ -19,6 +19,7 @@ import { Address } from '../address';
 import {
   BlockHeaderResponse,
   BlockResponse,
+  CallOverrides,
   CallRequest,
   EstimateRequest,
   LogRequest,
@@ -231,8 +232,8 @@ export class Eth {
     return await this.send(this.request.signTypedData(address, dataToSign));
   }
 
-  public async call(tx: CallRequest, block?: BlockType) {
-    return await this.send(this.request.call(tx, block));
+  public async call(tx: CallRequest, block?: BlockType, overrides?: CallOverrides) {
+    return await this.send(this.request.call(tx, block, overrides));
   }
 
   public async estimateGas(tx: EstimateRequest) {
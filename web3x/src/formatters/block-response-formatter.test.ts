@@ -17,7 +17,7 @@
 
 import { Address } from '../address';
 import { hexToBuffer } from '../utils';
-import { fromRawBlockResponse } from './block-response-formatter';
+import { fromRawBlockResponse, toRawBlockHeaderResponse } from './block-response-formatter';
 
 describe('formatters', () => {
   describe('outputBlockFormatter', () => {
@@ -112,4 +112,51 @@ describe('formatters', () => {
       });
     });
   });
+
+  describe('toRawBlockHeaderResponse', () => {
+    it('should format the genesis block number', () => {
+      const rawBlockHeader = toRawBlockHeaderResponse({
+        hash: null,
+        parentHash: Buffer.of(),
+        sha3Uncles: Buffer.of(),
+        miner: Address.ZERO,
+        stateRoot: Buffer.of(),
+        transactionsRoot: Buffer.of(),
+        receiptsRoot: Buffer.of(),
+        logsBloom: null,
+        difficulty: '0',
+        number: 0,
+        gasLimit: 1000,
+        gasUsed: 0,
+        timestamp: 1000,
+        extraData: Buffer.of(),
+        nonce: null,
+      });
+      expect(rawBlockHeader.number).toBe('0x0');
+    });
+
+    it('should format the base fee only when present', () => {
+      const blockHeader = {
+        hash: null,
+        parentHash: Buffer.of(),
+        sha3Uncles: Buffer.of(),
+        miner: Address.ZERO,
+        stateRoot: Buffer.of(),
+        transactionsRoot: Buffer.of(),
+        receiptsRoot: Buffer.of(),
+        logsBloom: null,
+        difficulty: '0',
+        number: 1,
+        gasLimit: 1000,
+        gasUsed: 0,
+        timestamp: 1000,
+        extraData: Buffer.of(),
+        nonce: null,
+      };
+      expect(toRawBlockHeaderResponse(blockHeader)).not.toHaveProperty('baseFeePerGas');
+      expect(toRawBlockHeaderResponse({ ...blockHeader, baseFeePerGas: '1000000000' }).baseFeePerGas).toBe(
+        '0x3b9aca00',
+      );
+    });
+  });
 });
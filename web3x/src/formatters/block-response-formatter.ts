@@ -41,6 +41,7 @@ export interface RawBlockHeaderResponse {
   timestamp: string;
   extraData: string;
   nonce: string | null;
+  baseFeePerGas?: string;
 }
 
 export interface RawBlockResponse extends RawBlockHeaderResponse {
@@ -66,6 +67,7 @@ export interface BlockHeaderResponse {
   timestamp: number;
   extraData: Buffer;
   nonce: Buffer | null;
+  baseFeePerGas?: string;
 }
 
 export interface BlockResponse<T = TransactionResponse | Buffer> extends BlockHeaderResponse {
@@ -86,12 +88,13 @@ export function toRawBlockHeaderResponse(block: BlockHeaderResponse): RawBlockHe
     receiptsRoot: bufferToHex(block.receiptsRoot),
     logsBloom: block.logsBloom ? bufferToHex(block.logsBloom) : null,
     difficulty: numberToHex(block.difficulty),
-    number: block.number ? numberToHex(block.number)! : null,
+    number: block.number !== null ? numberToHex(block.number)! : null,
     gasLimit: numberToHex(block.gasLimit)!,
     gasUsed: numberToHex(block.gasUsed)!,
     timestamp: numberToHex(block.timestamp)!,
     extraData: bufferToHex(block.extraData),
     nonce: block.nonce ? bufferToHex(block.nonce) : null,
+    ...(block.baseFeePerGas !== undefined ? { baseFeePerGas: numberToHex(block.baseFeePerGas) } : {}),
   };
 }
 
@@ -122,6 +125,7 @@ export function fromRawBlockHeaderResponse(block: RawBlockHeaderResponse): Block
     timestamp: hexToNumber(block.timestamp),
     extraData: hexToBuffer(block.extraData),
     nonce: block.nonce ? hexToBuffer(block.nonce) : null,
+    ...(block.baseFeePerGas !== undefined ? { baseFeePerGas: hexToNumberString(block.baseFeePerGas) } : {}),
   };
 }
 
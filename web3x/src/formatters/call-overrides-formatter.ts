@@ -0,0 +1,114 @@
+/*
+  This file is part of web3x.
+
+  web3x is free software: you can redistribute it and/or modify
+  it under the terms of the GNU Lesser General Public License as published by
+  the Free Software Foundation, either version 3 of the License, or
+  (at your option) any later version.
+
+  web3x is distributed in the hope that it will be useful,
+  but WITHOUT ANY WARRANTY; without even the implied warranty of
+  MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+  GNU Lesser General Public License for more details.
+
+  You should have received a copy of the GNU Lesser General Public License
+  along with web3x.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import { Address } from '../address';
+import { bufferToHex, hexToBuffer, hexToNumber, hexToNumberString, numberToHex } from '../utils';
+
+export interface AccountOverride {
+  balance?: string | number;
+  nonce?: number;
+  code?: Buffer;
+  // Replaces all of the account's storage with the given slots.
+  state?: { [slot: string]: string };
+  // Sets the given slots, leaving the rest of the account's storage unchanged.
+  stateDiff?: { [slot: string]: string };
+}
+
+export interface StateOverrides {
+  [address: string]: AccountOverride;
+}
+
+export interface BlockOverrides {
+  number?: number;
+  timestamp?: number;
+  coinbase?: Address;
+}
+
+export interface CallOverrides {
+  state?: StateOverrides;
+  block?: BlockOverrides;
+}
+
+export interface RawAccountOverride {
+  balance?: string;
+  nonce?: string;
+  code?: string;
+  state?: { [slot: string]: string };
+  stateDiff?: { [slot: string]: string };
+}
+
+export interface RawStateOverrides {
+  [address: string]: RawAccountOverride;
+}
+
+export interface RawBlockOverrides {
+  number?: string;
+  time?: string;
+  coinbase?: string;
+}
+
+export function toRawStateOverrides(overrides: StateOverrides): RawStateOverrides {
+  return Object.entries(overrides).reduce(
+    (raw, [address, { balance, nonce, code, state, stateDiff }]) => ({
+      ...raw,
+      [Address.fromString(address)
+        .toString()
+        .toLowerCase()]: {
+        balance: balance !== undefined ? numberToHex(balance) : undefined,
+        nonce: nonce !== undefined ? numberToHex(nonce) : undefined,
+        code: code ? bufferToHex(code) : undefined,
+        state,
+        stateDiff,
+      },
+    }),
+    {} as RawStateOverrides,
+  );
+}
+
+export function fromRawStateOverrides(overrides: RawStateOverrides): StateOverrides {
+  return Object.entries(overrides).reduce(
+    (result, [address, { balance, nonce, code, state, stateDiff }]) => ({
+      ...result,
+      [address]: {
+        balance: balance !== undefined ? hexToNumberString(balance) : undefined,
+        nonce: nonce !== undefined ? hexToNumber(nonce) : undefined,
+        code: code ? hexToBuffer(code) : undefined,
+        state,
+        stateDiff,
+      },
+    }),
+    {} as StateOverrides,
+  );
+}
+
+export function toRawBlockOverrides(overrides: BlockOverrides): RawBlockOverrides {
+  const { number: blockNumber, timestamp, coinbase } = overrides;
+  return {
+    number: blockNumber !== undefined ? numberToHex(blockNumber) : undefined,
+    time: timestamp !== undefined ? numberToHex(timestamp) : undefined,
+    coinbase: coinbase ? coinbase.toString().toLowerCase() : undefined,
+  };
+}
+
+export function fromRawBlockOverrides(overrides: RawBlockOverrides): BlockOverrides {
+  const { number: blockNumber, time, coinbase } = overrides;
+  return {
+    number: blockNumber !== undefined ? hexToNumber(blockNumber) : undefined,
+    timestamp: time !== undefined ? hexToNumber(time) : undefined,
+    coinbase: coinbase ? Address.fromString(coinbase) : undefined,
+  };
+}
@@ -15,6 +15,7 @@
   along with web3x.  If not, see <http://www.gnu.org/licenses/>.
 */
 
+export * from './call-overrides-formatter';
 export * from './call-request-formatter';
 export * from './estimate-request-formatter';
 export * from './input-address-formatter';
@@ -43,8 +43,13 @@ export class LegacyProviderAdapter implements EthereumProvider {
         const response = message as JsonRpcResponse;
 
         if (response.error) {
-          const message = response.error.message ? response.error.message : JSON.stringify(response);
-          return reject(new Error('Returned error: ' + message));
+          const { message, code, data } = response.error;
+          // The code and data are kept, as they can describe the error (e.g. the revert data of a failed call).
+          const error = Object.assign(new Error('Returned error: ' + (message || JSON.stringify(response))), {
+            code,
+            data,
+          });
+          return reject(error);
         }
         if (response.id && payload.id !== response.id) {
           return reject(new Error(`Wrong response id ${payload.id} != ${response.id} in ${JSON.stringify(payload)}`));
@@ -15,7 +15,8 @@
   along with web3x.  If not, see <http://www.gnu.org/licenses/>.
 */
 
-import { testAddress, testTopic } from './bloom';
+import { combineBlooms, createBloom, testAddress, testTopic } from './bloom';
+import { bufferToHex, hexToBuffer } from './hex-buffer';
 
 describe('utils', () => {
   describe('hasTopic', () => {
@@ -79,4 +80,24 @@ describe('utils', () => {
       expect(testAddress(test.bloom, test.address)).toBe(test.result);
     });
   });
+
+  describe('createBloom', () => {
+    const address = '0x54d2c22a7e422dfc71d09d1557d4eba6c9997d12';
+    const topic = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+    it('should create a bloom that matches its values', () => {
+      const bloom = bufferToHex(createBloom([hexToBuffer(address), hexToBuffer(topic)]));
+      expect(testAddress(bloom, address)).toBe(true);
+      expect(testTopic(bloom, topic)).toBe(true);
+      expect(testAddress(bloom, '0x54d2c22a7e422dfc71d09d1557d4eba6c9997d13')).toBe(false);
+    });
+
+    it('should combine blooms', () => {
+      const bloom = bufferToHex(
+        combineBlooms([createBloom([hexToBuffer(address)]), createBloom([hexToBuffer(topic)])]),
+      );
+      expect(testAddress(bloom, address)).toBe(true);
+      expect(testTopic(bloom, topic)).toBe(true);
+    });
+  });
 });
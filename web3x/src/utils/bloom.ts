@@ -16,7 +16,7 @@
 */
 
 import { Address } from '../address';
-import { sha3 } from './sha3';
+import { sha3, sha3Buffer } from './sha3';
 import { isTopic } from './topic';
 
 /**
@@ -123,3 +123,47 @@ export let isBloom = (bloom: string) => {
   }
   return false;
 };
+
+/**
+ * Adds the given bytes to the bloom, which is modified in place.
+ *
+ * @method addToBloom
+ * @param {Buffer} 256 byte bloom filter
+ * @param {Buffer} bytes to add, such as a log address or topic
+ * @returns {Buffer} the bloom
+ */
+export let addToBloom = (bloom: Buffer, bytes: Buffer) => {
+  const hash = sha3Buffer(bytes);
+
+  for (let i = 0; i < 6; i += 2) {
+    // calculate bit position in bloom filter to activate
+    const bitpos = ((hash[i] << 8) + hash[i + 1]) & 2047;
+    bloom[bloom.length - 1 - Math.floor(bitpos / 8)] |= 1 << bitpos % 8;
+  }
+
+  return bloom;
+};
+
+/**
+ * Returns a new bloom containing all the given values.
+ *
+ * @method createBloom
+ * @param {Buffer[]} values, such as log addresses and topics
+ * @returns {Buffer} 256 byte bloom filter
+ */
+export let createBloom = (values: Buffer[]) => {
+  return values.reduce(addToBloom, Buffer.alloc(256));
+};
+
+/**
+ * Returns a new bloom containing everything in the given blooms.
+ *
+ * @method combineBlooms
+ * @param {Buffer[]} 256 byte bloom filters
+ * @returns {Buffer} 256 byte bloom filter
+ */
+export let combineBlooms = (blooms: Buffer[]) => {
+  const combined = Buffer.alloc(256);
+  blooms.forEach(bloom => bloom.forEach((byte, i) => (combined[i] |= byte)));
+  return combined;
+};